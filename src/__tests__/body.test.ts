@@ -0,0 +1,144 @@
+import { ApolloServer } from '@apollo/server';
+import { ReadableStream } from 'stream/web';
+import { PayloadTooLargeError, startServerAndCreateHandler } from '..';
+import { createHttpRequest, createInvocationContext } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+  }
+`;
+
+const resolvers = {
+  Query: {
+    hello: () => 'world',
+  },
+};
+
+const query = JSON.stringify({ query: '{ hello }' });
+
+function createJsonRequest(body: string, headers: Record<string, string> = {}) {
+  return createHttpRequest({
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body,
+  });
+}
+
+/**
+ * Creates a request whose body is produced on demand in fixed-size chunks,
+ * recording how many chunks were pulled.
+ */
+function createStreamingRequest(chunkCount: number, chunkSize: number) {
+  const pulled = { count: 0 };
+  const req = createJsonRequest('');
+  Object.defineProperty(req, 'body', {
+    value: new ReadableStream({
+      pull(controller) {
+        if (pulled.count === chunkCount) {
+          controller.close();
+          return;
+        }
+        pulled.count++;
+        controller.enqueue(new Uint8Array(chunkSize).fill(0x20));
+      },
+    }),
+  });
+  return { req, pulled };
+}
+
+describe('Request body size limit', () => {
+  let server: ApolloServer;
+
+  beforeEach(() => {
+    server = new ApolloServer({ typeDefs, resolvers });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should accept bodies within the limit', async () => {
+    const handler = startServerAndCreateHandler(server, { maxBodySize: 1024 });
+
+    const response = await handler(
+      createJsonRequest(query),
+      createInvocationContext(),
+    );
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body as string).data.hello).toBe('world');
+  });
+
+  it('should reject an oversized Content-Length up front', async () => {
+    const handler = startServerAndCreateHandler(server, { maxBodySize: 1024 });
+    const req = createJsonRequest(query, { 'content-length': '4096' });
+    const clone = jest.spyOn(req, 'clone');
+
+    const response = await handler(req, createInvocationContext());
+
+    expect(response.status).toBe(413);
+    expect(JSON.parse(response.body as string).errors).toEqual([
+      {
+        message: 'Request body exceeds the 1024 byte size limit',
+        extensions: { code: 'PAYLOAD_TOO_LARGE' },
+      },
+    ]);
+    expect(clone).not.toHaveBeenCalled();
+  });
+
+  it('should stop reading as soon as the limit is exceeded', async () => {
+    const handler = startServerAndCreateHandler(server, { maxBodySize: 1024 });
+    const { req, pulled } = createStreamingRequest(100, 256);
+
+    const response = await handler(req, createInvocationContext());
+
+    expect(response.status).toBe(413);
+    expect(pulled.count).toBeLessThan(10);
+  });
+
+  it('should read the body within the limit before cloning it', async () => {
+    let contextBody: string | undefined;
+    const handler = startServerAndCreateHandler(server, {
+      maxBodySize: 1024,
+      context: async ({ req }) => {
+        contextBody = await req.text();
+        return {};
+      },
+    });
+    const { req } = createStreamingRequest(100, 256);
+    const clone = jest.spyOn(req, 'clone');
+
+    const oversized = await handler(req, createInvocationContext());
+    const response = await handler(
+      createJsonRequest(query),
+      createInvocationContext(),
+    );
+
+    expect(oversized.status).toBe(413);
+    expect(clone).not.toHaveBeenCalled();
+    expect(response.status).toBe(200);
+    expect(contextBody).toBe(query);
+  });
+
+  it('should still report invalid JSON within the limit', async () => {
+    const handler = startServerAndCreateHandler(server, { maxBodySize: 1024 });
+
+    const response = await handler(
+      createJsonRequest('{ invalid json'),
+      createInvocationContext(),
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.body).toContain('Invalid JSON');
+  });
+});
+
+describe('PayloadTooLargeError', () => {
+  it('should use a 413 status and expose its message', () => {
+    const error = new PayloadTooLargeError();
+    expect(error.statusCode).toBe(413);
+    expect(error.exposeMessage).toBe(true);
+    expect(error.name).toBe('PayloadTooLargeError');
+  });
+});
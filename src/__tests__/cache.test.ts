@@ -0,0 +1,233 @@
+import { ApolloServer } from '@apollo/server';
+import { GraphQLError } from 'graphql';
+import {
+  InMemoryResponseCache,
+  startServerAndCreateHandler,
+  type AzureFunctionsMiddlewareOptions,
+} from '..';
+import { createTestClient } from '../testing';
+
+const typeDefs = `#graphql
+  enum CacheControlScope {
+    PUBLIC
+    PRIVATE
+  }
+  directive @cacheControl(
+    maxAge: Int
+    scope: CacheControlScope
+  ) on FIELD_DEFINITION | OBJECT
+
+  type Query {
+    hello(name: String): String @cacheControl(maxAge: 60)
+    me: String @cacheControl(maxAge: 60, scope: PRIVATE)
+    now: String
+  }
+`;
+
+describe('response cache', () => {
+  let server: ApolloServer;
+  let now: number;
+  let executions: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    executions = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: {
+        Query: {
+          hello: (_, { name }) => `Hello ${name ?? 'world'} #${++executions}`,
+          me: () => `Me #${++executions}`,
+          now: () => `Now #${++executions}`,
+        },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await server.stop();
+  });
+
+  function createClient(
+    options: AzureFunctionsMiddlewareOptions<object> = { responseCache: true },
+  ) {
+    return createTestClient(startServerAndCreateHandler(server, options));
+  }
+
+  function get(
+    client: ReturnType<typeof createClient>,
+    query: string,
+    headers: Record<string, string> = {},
+    variables?: Record<string, unknown>,
+  ) {
+    return client.query(query, { method: 'GET', headers, variables });
+  }
+
+  it('should serve cacheable GET responses from the cache', async () => {
+    const client = createClient();
+
+    const miss = await get(client, '{ hello }');
+    now += 12_500;
+    const hit = await get(client, 'query {\n  hello\n}');
+
+    expect(miss.headers.get('x-cache')).toBe('MISS');
+    expect(miss.headers.has('age')).toBe(false);
+    expect(hit.status).toBe(200);
+    expect(hit.headers.get('x-cache')).toBe('HIT');
+    expect(hit.headers.get('age')).toBe('12');
+    expect(hit.headers.get('cache-control')).toBe('max-age=60, public');
+    expect(hit.text).toBe(miss.text);
+    expect(executions).toBe(1);
+  });
+
+  it('should expire entries after their max age', async () => {
+    const client = createClient();
+
+    await get(client, '{ hello }');
+    now += 60_000;
+    const expired = await get(client, '{ hello }');
+
+    expect(expired.headers.get('x-cache')).toBe('MISS');
+    expect(executions).toBe(2);
+  });
+
+  it('should key on variables regardless of their order', async () => {
+    const client = createClient();
+    const query =
+      'query ($a: String, $b: String) { a: hello(name: $a) b: hello(name: $b) }';
+
+    await get(client, query, {}, { a: 'x', b: 'y' });
+    const reordered = await get(client, query, {}, { b: 'y', a: 'x' });
+    const other = await get(client, query, {}, { a: 'y', b: 'x' });
+
+    expect(reordered.headers.get('x-cache')).toBe('HIT');
+    expect(other.headers.get('x-cache')).toBe('MISS');
+  });
+
+  it('should not cache POST requests or responses without a cache policy', async () => {
+    const client = createClient();
+
+    await client.query('{ hello }');
+    const post = await client.query('{ hello }');
+    await get(client, '{ now }');
+    const noPolicy = await get(client, '{ now }');
+
+    expect(post.headers.has('x-cache')).toBe(false);
+    expect(noPolicy.headers.get('x-cache')).toBe('MISS');
+    expect(executions).toBe(4);
+  });
+
+  it('should apply CSRF prevention and plugins to cached responses', async () => {
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: {
+        Query: { hello: () => `Hello world #${++executions}` },
+      },
+      plugins: [
+        {
+          async requestDidStart({ request }) {
+            return {
+              async didResolveOperation() {
+                if (request.http?.headers.get('x-blocked')) {
+                  throw new GraphQLError('Blocked', {
+                    extensions: { http: { status: 403 } },
+                  });
+                }
+              },
+            };
+          },
+        },
+      ],
+    });
+    const client = createClient();
+
+    const miss = await get(client, '{ hello }');
+    const withoutPreflight = await client.execute({
+      method: 'GET',
+      url: `http://localhost:7071/api/graphql?query=${encodeURIComponent('{ hello }')}`,
+      headers: { accept: 'application/json' },
+    });
+    const blocked = await get(client, '{ hello }', { 'x-blocked': 'true' });
+    const hit = await get(client, '{ hello }');
+
+    expect(miss.headers.get('x-cache')).toBe('MISS');
+    expect(withoutPreflight.status).toBe(400);
+    expect(withoutPreflight.text).toContain('Cross-Site Request Forgery');
+    expect(withoutPreflight.text).not.toContain('Hello world');
+    expect(blocked.status).toBe(403);
+    expect(blocked.text).not.toContain('Hello world');
+    expect(hit.headers.get('x-cache')).toBe('HIT');
+    expect(executions).toBe(1);
+  });
+
+  it('should key private responses per principal', async () => {
+    const client = createClient({
+      responseCache: true,
+      principal: { trustHeaders: true },
+    });
+    const asUser = (userId: string) =>
+      get(client, '{ me }', {
+        'x-ms-client-principal-id': userId,
+        'x-ms-client-principal-idp': 'aad',
+      });
+
+    await asUser('user-1');
+    const same = await asUser('user-1');
+    const other = await asUser('user-2');
+    const anonymous = await get(client, '{ me }');
+
+    expect(same.headers.get('x-cache')).toBe('HIT');
+    expect(other.headers.get('x-cache')).toBe('MISS');
+    expect(anonymous.headers.get('x-cache')).toBe('MISS');
+    expect(executions).toBe(3);
+  });
+
+  it('should key on the configured vary headers', async () => {
+    const client = createClient({
+      responseCache: { vary: ['Accept-Language'] },
+    });
+
+    await get(client, '{ hello }', { 'accept-language': 'en' });
+    const same = await get(client, '{ hello }', { 'accept-language': 'en' });
+    const other = await get(client, '{ hello }', { 'accept-language': 'fr' });
+
+    expect(same.headers.get('x-cache')).toBe('HIT');
+    expect(same.headers.get('vary')).toContain('Accept-Language');
+    expect(other.headers.get('x-cache')).toBe('MISS');
+  });
+
+  it('should use a custom cache and execute when it fails', async () => {
+    const cache = new InMemoryResponseCache();
+    const set = jest.spyOn(cache, 'set');
+    jest.spyOn(cache, 'get').mockRejectedValue(new Error('Connection refused'));
+    const client = createClient({ responseCache: { cache } });
+
+    const response = await get(client, '{ hello }');
+
+    expect(response.status).toBe(200);
+    expect(set).toHaveBeenCalledWith(expect.any(String), expect.any(String), {
+      ttl: 60,
+    });
+    expect(response.context.logs).toContainEqual({
+      level: 'warning',
+      args: ['Failure reading the response cache', expect.any(Error)],
+    });
+  });
+});
+
+describe('InMemoryResponseCache', () => {
+  it('should evict the least recently used entry', async () => {
+    const cache = new InMemoryResponseCache({ maxEntries: 2 });
+
+    await cache.set('a', '1');
+    await cache.set('b', '2');
+    await cache.get('a');
+    await cache.set('c', '3');
+
+    expect(await cache.get('a')).toBe('1');
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toBe('3');
+  });
+});
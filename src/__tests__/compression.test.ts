@@ -0,0 +1,180 @@
+import { ApolloServer } from '@apollo/server';
+import { HttpResponse, type HttpResponseInit } from '@azure/functions';
+import {
+  brotliDecompressSync,
+  createGunzip,
+  gunzipSync,
+  inflateSync,
+} from 'node:zlib';
+import { startServerAndCreateHandler, type CompressionOptions } from '..';
+import { compressResponse, negotiateEncoding } from '../compression';
+import { createHttpRequest, createInvocationContext } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+    items(count: Int!): [String]
+  }
+`;
+
+const resolvers = {
+  Query: {
+    hello: () => 'world',
+    items: (_: unknown, { count }: { count: number }) =>
+      Array.from({ length: count }, (_, i) => `item-${i}`),
+  },
+};
+
+const decompress: Record<string, (body: Buffer) => Buffer> = {
+  br: brotliDecompressSync,
+  gzip: gunzipSync,
+  deflate: inflateSync,
+};
+
+describe('compression', () => {
+  let server: ApolloServer;
+
+  beforeEach(() => {
+    server = new ApolloServer({ typeDefs, resolvers });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  async function request(
+    query: string,
+    acceptEncoding: string | undefined,
+    compression: boolean | CompressionOptions = true,
+  ) {
+    const handler = startServerAndCreateHandler(server, { compression });
+    const result = (await handler(
+      createHttpRequest({
+        headers: acceptEncoding ? { 'accept-encoding': acceptEncoding } : {},
+        body: { query },
+      }),
+      createInvocationContext(),
+    )) as HttpResponseInit;
+    const response = new HttpResponse(result);
+    return {
+      headers: result.headers as Record<string, string>,
+      body: Buffer.from(await response.arrayBuffer()),
+    };
+  }
+
+  it.each(['br', 'gzip', 'deflate'])(
+    'should compress large responses with %s',
+    async (encoding) => {
+      const { headers, body } = await request(
+        '{ items(count: 500) }',
+        encoding,
+      );
+
+      expect(headers['content-encoding']).toBe(encoding);
+      expect(headers['vary']).toBe('Accept-Encoding');
+      expect(headers['content-length']).toBe(body.byteLength.toString());
+      expect(JSON.parse(decompress[encoding](body).toString())).toMatchObject({
+        data: { items: expect.arrayContaining(['item-499']) },
+      });
+    },
+  );
+
+  it('should not compress responses below the threshold', async () => {
+    const { headers, body } = await request('{ hello }', 'gzip');
+
+    expect(headers['content-encoding']).toBeUndefined();
+    expect(headers['vary']).toBe('Accept-Encoding');
+    expect(JSON.parse(body.toString())).toEqual({ data: { hello: 'world' } });
+    expect(headers['content-length']).toBe(body.byteLength.toString());
+  });
+
+  it('should respect the threshold option', async () => {
+    const { headers } = await request('{ hello }', 'gzip', { threshold: 0 });
+
+    expect(headers['content-encoding']).toBe('gzip');
+  });
+
+  it('should not compress without an accepted encoding', async () => {
+    const none = await request('{ items(count: 500) }', undefined);
+    const identity = await request('{ items(count: 500) }', 'identity');
+
+    expect(none.headers['content-encoding']).toBeUndefined();
+    expect(identity.headers['content-encoding']).toBeUndefined();
+  });
+
+  it('should leave responses alone when compression is disabled', async () => {
+    const { headers } = await request('{ items(count: 500) }', 'gzip', false);
+
+    expect(headers['content-encoding']).toBeUndefined();
+    expect(headers['vary']).toBeUndefined();
+  });
+});
+
+describe('negotiateEncoding', () => {
+  it.each([
+    ['gzip, deflate, br', undefined, 'br'],
+    ['gzip;q=1.0, br;q=0.5', undefined, 'gzip'],
+    ['br;q=0, *', undefined, 'gzip'],
+    ['*;q=0.1', undefined, 'br'],
+    ['gzip, br', ['gzip', 'br'], 'gzip'],
+    ['identity', undefined, undefined],
+    ['compress, GZIP', undefined, 'gzip'],
+    ['', undefined, undefined],
+  ] as const)('should pick from "%s" (%j)', (header, encodings, expected) => {
+    expect(negotiateEncoding(header, encodings && [...encodings])).toBe(
+      expected,
+    );
+  });
+});
+
+describe('compressResponse with chunked bodies', () => {
+  it('should compress each part incrementally', async () => {
+    const encoder = new TextEncoder();
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    const parts = [
+      '{"data":{"hello":"world"},"hasNext":true}',
+      '{"hasNext":false}',
+    ];
+
+    const response = await compressResponse(
+      {
+        status: 200,
+        headers: { 'Transfer-Encoding': 'chunked', vary: 'Origin' },
+        body: (async function* () {
+          yield encoder.encode(parts[0]);
+          await blocked;
+          yield encoder.encode(parts[1]);
+        })(),
+      },
+      'gzip',
+      {},
+    );
+    expect(response.headers).toMatchObject({
+      'content-encoding': 'gzip',
+      vary: 'Origin, Accept-Encoding',
+    });
+
+    // The first part can be decompressed before the second is produced.
+    const gunzip = createGunzip();
+    const decompressed: string[] = [];
+    gunzip.on('data', (chunk: Buffer) => decompressed.push(chunk.toString()));
+    const iterator = (response.body as AsyncIterable<Uint8Array>)[
+      Symbol.asyncIterator
+    ]();
+    gunzip.write((await iterator.next()).value);
+    await new Promise<void>((resolve) => gunzip.flush(() => resolve()));
+    expect(decompressed.join('')).toBe(parts[0]);
+
+    release();
+    for (
+      let next = await iterator.next();
+      !next.done;
+      next = await iterator.next()
+    ) {
+      gunzip.write(next.value);
+    }
+    await new Promise((resolve) => gunzip.end(resolve));
+    expect(decompressed.join('')).toBe(parts.join(''));
+  });
+});
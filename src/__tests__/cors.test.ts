@@ -0,0 +1,207 @@
+import { ApolloServer, BaseContext } from '@apollo/server';
+import { HttpMethod } from '@azure/functions';
+import { startServerAndCreateHandler } from '..';
+import type { CorsOptions } from '..';
+import { createHttpRequest, createInvocationContext } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+  }
+`;
+
+const resolvers = {
+  Query: {
+    hello: () => 'world',
+  },
+};
+
+function createRequest(
+  method: HttpMethod,
+  headers: Record<string, string>,
+  body?: string,
+) {
+  return createHttpRequest({ method, headers, body });
+}
+
+describe('CORS', () => {
+  let server: ApolloServer<BaseContext>;
+
+  beforeEach(() => {
+    server = new ApolloServer({ typeDefs, resolvers });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const query = JSON.stringify({ query: '{ hello }' });
+
+  function createHandler(cors: CorsOptions) {
+    return startServerAndCreateHandler(server, { cors });
+  }
+
+  describe('preflight', () => {
+    it('should answer preflight requests without executing', async () => {
+      const handler = createHandler({ maxAge: 600 });
+      const response = await handler(
+        createRequest('OPTIONS', {
+          origin: 'https://app.example.com',
+          'access-control-request-method': 'POST',
+          'access-control-request-headers': 'content-type, authorization',
+        }),
+        createInvocationContext(),
+      );
+
+      expect(response.status).toBe(204);
+      expect(response.headers).toMatchObject({
+        'access-control-allow-origin': '*',
+        'access-control-allow-methods': 'GET, POST, OPTIONS',
+        'access-control-allow-headers': 'content-type, authorization',
+        'access-control-max-age': '600',
+        vary: 'Access-Control-Request-Headers',
+      });
+    });
+
+    it('should use configured methods and allowed headers', async () => {
+      const handler = createHandler({
+        methods: ['POST'],
+        allowedHeaders: ['content-type'],
+      });
+      const response = await handler(
+        createRequest('OPTIONS', {
+          origin: 'https://app.example.com',
+          'access-control-request-method': 'POST',
+          'access-control-request-headers': 'x-custom',
+        }),
+        createInvocationContext(),
+      );
+
+      expect(response.headers).toMatchObject({
+        'access-control-allow-methods': 'POST',
+        'access-control-allow-headers': 'content-type',
+      });
+    });
+
+    it('should not allow disallowed origins', async () => {
+      const handler = createHandler({ origin: ['https://app.example.com'] });
+      const response = await handler(
+        createRequest('OPTIONS', {
+          origin: 'https://evil.example.com',
+          'access-control-request-method': 'POST',
+        }),
+        createInvocationContext(),
+      );
+
+      expect(response.status).toBe(204);
+      expect(response.headers).toEqual({ vary: 'Origin' });
+    });
+  });
+
+  describe('actual requests', () => {
+    it('should reflect origins matched by a regular expression', async () => {
+      const handler = createHandler({
+        origin: /^https:\/\/[a-z0-9-]+\.preview\.example\.com$/,
+        credentials: true,
+        exposedHeaders: ['x-request-id'],
+      });
+      const response = await handler(
+        createRequest(
+          'POST',
+          {
+            origin: 'https://feature-42.preview.example.com',
+            'content-type': 'application/json',
+          },
+          query,
+        ),
+        createInvocationContext(),
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers).toMatchObject({
+        'access-control-allow-origin': 'https://feature-42.preview.example.com',
+        'access-control-allow-credentials': 'true',
+        'access-control-expose-headers': 'x-request-id',
+        vary: 'Origin',
+      });
+    });
+
+    it('should consult an origin function', async () => {
+      const origin = jest.fn(async (o: string) => o.endsWith('.example.com'));
+      const handler = createHandler({ origin });
+
+      const allowed = await handler(
+        createRequest(
+          'POST',
+          {
+            origin: 'https://a.example.com',
+            'content-type': 'application/json',
+          },
+          query,
+        ),
+        createInvocationContext(),
+      );
+      const denied = await handler(
+        createRequest(
+          'POST',
+          { origin: 'https://a.other.com', 'content-type': 'application/json' },
+          query,
+        ),
+        createInvocationContext(),
+      );
+
+      expect(origin).toHaveBeenCalledTimes(2);
+      expect(allowed.headers).toMatchObject({
+        'access-control-allow-origin': 'https://a.example.com',
+      });
+      expect(denied.headers).not.toHaveProperty('access-control-allow-origin');
+      expect(denied.headers).toMatchObject({ vary: 'Origin' });
+    });
+
+    it('should not add headers to requests without an Origin', async () => {
+      const handler = createHandler({});
+      const response = await handler(
+        createRequest('POST', { 'content-type': 'application/json' }, query),
+        createInvocationContext(),
+      );
+
+      expect(response.headers).not.toHaveProperty(
+        'access-control-allow-origin',
+      );
+      expect(response.headers).not.toHaveProperty('vary');
+    });
+
+    it('should vary on Origin when only some origins are allowed', async () => {
+      const handler = createHandler({ origin: 'https://app.example.com' });
+      const response = await handler(
+        createRequest('POST', { 'content-type': 'application/json' }, query),
+        createInvocationContext(),
+      );
+
+      expect(response.headers).not.toHaveProperty(
+        'access-control-allow-origin',
+      );
+      expect(response.headers).toMatchObject({ vary: 'Origin' });
+    });
+
+    it('should add headers to error responses', async () => {
+      const handler = createHandler({});
+      const response = await handler(
+        createRequest(
+          'POST',
+          {
+            origin: 'https://app.example.com',
+            'content-type': 'application/json',
+          },
+          '{ invalid json',
+        ),
+        createInvocationContext(),
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.headers).toMatchObject({
+        'access-control-allow-origin': '*',
+      });
+    });
+  });
+});
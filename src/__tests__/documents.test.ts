@@ -0,0 +1,218 @@
+import { ApolloServer } from '@apollo/server';
+import { createHash } from 'node:crypto';
+import { mkdtemp, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  startServerAndCreateHandler,
+  type ApolloPersistedQueryManifest,
+  type TrustedDocumentsOptions,
+} from '..';
+import { createTestClient } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello(name: String): String
+    secret: String
+  }
+`;
+
+const resolvers = {
+  Query: {
+    hello: (_: unknown, { name }: { name?: string }) =>
+      `Hello, ${name ?? 'world'}!`,
+    secret: () => 'classified',
+  },
+};
+
+const hello = 'query Hello($name: String) { hello(name: $name) }';
+const helloId = createHash('sha256').update(hello).digest('hex');
+
+const apolloManifest: ApolloPersistedQueryManifest = {
+  format: 'apollo-persisted-query-manifest',
+  version: 1,
+  operations: [{ id: helloId, body: hello, name: 'Hello', type: 'query' }],
+};
+
+describe('trustedDocuments', () => {
+  let server: ApolloServer;
+
+  beforeEach(() => {
+    server = new ApolloServer({ typeDefs, resolvers });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  function createClient(trustedDocuments: TrustedDocumentsOptions) {
+    return createTestClient(
+      startServerAndCreateHandler(server, { trustedDocuments }),
+    );
+  }
+
+  it('should resolve Apollo persisted query hashes', async () => {
+    const client = createClient({ manifest: apolloManifest });
+
+    const response = await client.execute({
+      body: {
+        variables: { name: 'Azure' },
+        extensions: { persistedQuery: { version: 1, sha256Hash: helloId } },
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      kind: 'single',
+      singleResult: { data: { hello: 'Hello, Azure!' } },
+    });
+  });
+
+  it('should resolve document ids in GET requests', async () => {
+    const client = createClient({ manifest: apolloManifest });
+
+    const response = await client.execute({
+      method: 'GET',
+      url: `http://localhost:7071/api/graphql?documentId=sha256:${helloId}&variables=${encodeURIComponent(
+        '{"name":"GET"}',
+      )}`,
+      headers: { 'apollo-require-preflight': 'true' },
+    });
+
+    expect(response.body).toEqual({
+      kind: 'single',
+      singleResult: { data: { hello: 'Hello, GET!' } },
+    });
+  });
+
+  it('should resolve Relay document ids', async () => {
+    const client = createClient({ manifest: { abc123: '{ secret }' } });
+
+    const response = await client.execute({ body: { doc_id: 'abc123' } });
+
+    expect(response.body).toEqual({
+      kind: 'single',
+      singleResult: { data: { secret: 'classified' } },
+    });
+  });
+
+  it('should only allow free-form queries from the manifest in strict mode', async () => {
+    const client = createClient({ manifest: apolloManifest });
+
+    const trusted = await client.query(hello);
+    const untrusted = await client.query('{ secret }');
+    const unknownId = await client.execute({ body: { documentId: 'nope' } });
+
+    expect(trusted.body).toEqual({
+      kind: 'single',
+      singleResult: { data: { hello: 'Hello, world!' } },
+    });
+    expect(untrusted.status).toBe(400);
+    expect(JSON.parse(untrusted.text).errors[0].message).toBe(
+      'Only trusted documents may be executed',
+    );
+    expect(unknownId.status).toBe(400);
+    expect(JSON.parse(unknownId.text).errors[0].message).toBe(
+      'Unknown trusted document: nope',
+    );
+  });
+
+  it('should enforce trusted documents in batched requests', async () => {
+    const client = createClient({ manifest: apolloManifest });
+
+    const response = await client.execute({
+      body: [{ documentId: helloId }, { query: '{ secret }' }],
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should log untrusted operations in audit mode', async () => {
+    const client = createClient({ manifest: apolloManifest, mode: 'audit' });
+
+    const response = await client.query('query Secret { secret }', {
+      operationName: 'Secret',
+    });
+
+    expect(response.body).toEqual({
+      kind: 'single',
+      singleResult: { data: { secret: 'classified' } },
+    });
+    expect(response.context.logs).toEqual([
+      {
+        level: 'warning',
+        args: [
+          'Untrusted GraphQL operation',
+          {
+            operationName: 'Secret',
+            hash: createHash('sha256')
+              .update('query Secret { secret }')
+              .digest('hex'),
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should fail requests when the manifest cannot be loaded', async () => {
+    const client = createClient({
+      manifest: async () => {
+        throw new Error('storage unavailable');
+      },
+    });
+
+    const response = await client.query(hello);
+
+    expect(response.status).toBe(500);
+    expect(response.context.logs[0].args[1]).toMatchObject({
+      message: 'Failed to load trusted documents: storage unavailable',
+    });
+  });
+
+  describe('with a manifest file', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'trusted-documents-'));
+      file = join(dir, 'manifest.json');
+      await writeFile(file, JSON.stringify(apolloManifest));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should reload the manifest when the file changes', async () => {
+      const client = createClient({ manifest: file, reloadInterval: 0 });
+
+      const before = await client.execute({ body: { documentId: 'secret' } });
+      await writeFile(file, JSON.stringify({ secret: '{ secret }' }));
+      const later = new Date(Date.now() + 60_000);
+      await utimes(file, later, later);
+      const after = await client.execute({ body: { documentId: 'secret' } });
+
+      expect(before.status).toBe(400);
+      expect(after.body).toEqual({
+        kind: 'single',
+        singleResult: { data: { secret: 'classified' } },
+      });
+    });
+
+    it('should keep the previous manifest when a reload fails', async () => {
+      const client = createClient({ manifest: file, reloadInterval: 0 });
+
+      await client.query(hello);
+      await writeFile(file, '{ invalid json');
+      const later = new Date(Date.now() + 60_000);
+      await utimes(file, later, later);
+      const response = await client.query(hello);
+
+      expect(response.status).toBe(200);
+      expect(response.context.logs[0]).toMatchObject({
+        level: 'warning',
+        args: ['Failed to reload trusted documents', expect.any(SyntaxError)],
+      });
+    });
+  });
+});
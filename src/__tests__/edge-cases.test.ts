@@ -1,8 +1,7 @@
 import { ApolloServer, BaseContext } from '@apollo/server';
 import { gql } from 'graphql-tag';
-import { HttpMethod, HttpRequest, InvocationContext } from '@azure/functions';
-import { ReadableStream } from 'stream/web';
 import { startServerAndCreateHandler, _internal } from '..';
+import { createHttpRequest, createInvocationContext } from '../testing';
 
 const typeDefs = gql`
   type Query {
@@ -16,65 +15,6 @@ const resolvers = {
   },
 };
 
-function createMockRequest(options: {
-  method: HttpMethod | undefined;
-  url: string;
-  headers: Record<string, string>;
-  body?: string;
-}): HttpRequest {
-  const bodyContent = options.body ?? '';
-  const headers = new Headers();
-  for (const [key, value] of Object.entries(options.headers)) {
-    headers.set(key, value);
-  }
-
-  const createRequest = (): HttpRequest => ({
-    method: options.method as string,
-    url: options.url,
-    headers,
-    body: new ReadableStream({
-      start(controller) {
-        controller.enqueue(new TextEncoder().encode(bodyContent));
-        controller.close();
-      },
-    }),
-    query: new URLSearchParams(
-      options.url.includes('?') ? options.url.split('?')[1] : '',
-    ),
-    params: {},
-    user: null,
-    arrayBuffer: async () => {
-      return Buffer.from(bodyContent).buffer;
-    },
-    text: async () => {
-      return bodyContent;
-    },
-    json: async () => {
-      return JSON.parse(bodyContent);
-    },
-    blob: async () => {
-      throw new Error('Not implemented');
-    },
-    bodyUsed: false,
-    formData: async () => {
-      throw new Error('Not implemented');
-    },
-    clone: () => {
-      return createRequest();
-    },
-  });
-
-  return createRequest();
-}
-
-function createMockInvocationContext(): InvocationContext {
-  return new InvocationContext({
-    invocationId: 'test-mock',
-    functionName: 'test-mock',
-    logHandler: () => {}, // Silent logger for tests
-  });
-}
-
 describe('Azure Functions Edge Cases', () => {
   let server: ApolloServer<BaseContext>;
   let handler: ReturnType<typeof startServerAndCreateHandler>;
@@ -90,13 +30,12 @@ describe('Azure Functions Edge Cases', () => {
 
   describe('Error Handling', () => {
     it('should return 400 for malformed JSON body', async () => {
-      const req = createMockRequest({
+      const req = createHttpRequest({
         method: 'POST',
-        url: 'http://localhost:7071/api/graphql',
         headers: { 'content-type': 'application/json' },
         body: '{ invalid json',
       });
-      const context = createMockInvocationContext();
+      const context = createInvocationContext();
 
       const response = await handler(req, context);
 
@@ -105,13 +44,14 @@ describe('Azure Functions Edge Cases', () => {
     });
 
     it('should return 400 for invalid URL', async () => {
-      const req = createMockRequest({
+      const req = createHttpRequest({
         method: 'POST',
-        url: 'not a valid url',
         headers: { 'content-type': 'application/json' },
         body: JSON.stringify({ query: '{ hello }' }),
       });
-      const context = createMockInvocationContext();
+      // The Functions host never produces invalid URLs, so override it.
+      Object.defineProperty(req, 'url', { value: 'not a valid url' });
+      const context = createInvocationContext();
 
       const response = await handler(req, context);
 
@@ -134,13 +74,12 @@ describe('Azure Functions Edge Cases', () => {
       });
       const errorHandler = startServerAndCreateHandler(serverWithError);
 
-      const req = createMockRequest({
+      const req = createHttpRequest({
         method: 'POST',
-        url: 'http://localhost:7071/api/graphql',
         headers: { 'content-type': 'application/json' },
         body: JSON.stringify({ query: '{ hello }' }),
       });
-      const context = createMockInvocationContext();
+      const context = createInvocationContext();
 
       const response = await errorHandler(req, context);
 
@@ -153,18 +92,20 @@ describe('Azure Functions Edge Cases', () => {
     });
 
     it('should return 400 for missing method', async () => {
-      const req = createMockRequest({
-        method: undefined as any,
-        url: 'http://localhost:7071/api/graphql',
+      const req = createHttpRequest({
+        method: 'POST',
         headers: { 'content-type': 'application/json' },
         body: JSON.stringify({ query: '{ hello }' }),
       });
-      const context = createMockInvocationContext();
+      Object.defineProperty(req, 'method', { value: undefined });
+      const context = createInvocationContext();
 
       const response = await handler(req, context);
 
       expect(response.status).toBe(400);
-      expect(response.body).toBe('No method');
+      expect(JSON.parse(response.body as string).errors[0].message).toBe(
+        'No method',
+      );
     });
   });
 
@@ -172,13 +113,12 @@ describe('Azure Functions Edge Cases', () => {
     const testQuery = JSON.stringify({ query: '{ hello }' });
 
     it('should handle lowercase content-type', async () => {
-      const req = createMockRequest({
+      const req = createHttpRequest({
         method: 'POST',
-        url: 'http://localhost:7071/api/graphql',
         headers: { 'content-type': 'application/json' },
         body: testQuery,
       });
-      const context = createMockInvocationContext();
+      const context = createInvocationContext();
 
       const response = await handler(req, context);
 
@@ -188,13 +128,12 @@ describe('Azure Functions Edge Cases', () => {
     });
 
     it('should handle uppercase Content-Type', async () => {
-      const req = createMockRequest({
+      const req = createHttpRequest({
         method: 'POST',
-        url: 'http://localhost:7071/api/graphql',
         headers: { 'Content-Type': 'application/json' },
         body: testQuery,
       });
-      const context = createMockInvocationContext();
+      const context = createInvocationContext();
 
       const response = await handler(req, context);
 
@@ -204,13 +143,12 @@ describe('Azure Functions Edge Cases', () => {
     });
 
     it('should handle mixed case CONTENT-TYPE', async () => {
-      const req = createMockRequest({
+      const req = createHttpRequest({
         method: 'POST',
-        url: 'http://localhost:7071/api/graphql',
         headers: { 'CoNtEnT-TyPe': 'application/json' },
         body: testQuery,
       });
-      const context = createMockInvocationContext();
+      const context = createInvocationContext();
 
       const response = await handler(req, context);
 
@@ -220,13 +158,12 @@ describe('Azure Functions Edge Cases', () => {
     });
 
     it('should handle Content-Type with charset', async () => {
-      const req = createMockRequest({
+      const req = createHttpRequest({
         method: 'POST',
-        url: 'http://localhost:7071/api/graphql',
         headers: { 'content-type': 'APPLICATION/JSON; charset=utf-8' },
         body: testQuery,
       });
-      const context = createMockInvocationContext();
+      const context = createInvocationContext();
 
       const response = await handler(req, context);
 
@@ -302,13 +239,12 @@ describe('Azure Functions Edge Cases', () => {
 
   describe('Status Code Normalization', () => {
     it('should normalize status codes in responses', async () => {
-      const req = createMockRequest({
+      const req = createHttpRequest({
         method: 'POST',
-        url: 'http://localhost:7071/api/graphql',
         headers: { 'content-type': 'application/json' },
         body: JSON.stringify({ query: '{ hello }' }),
       });
-      const context = createMockInvocationContext();
+      const context = createInvocationContext();
 
       const response = await handler(req, context);
 
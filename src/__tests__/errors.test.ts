@@ -0,0 +1,162 @@
+import { ApolloServer } from '@apollo/server';
+import {
+  HttpError,
+  startServerAndCreateHandler,
+  type AzureFunctionsMiddlewareOptions,
+} from '..';
+import { negotiateErrorContentType } from '../errors';
+import { createTestClient } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+  }
+`;
+
+describe('error responses', () => {
+  let server: ApolloServer;
+
+  beforeEach(() => {
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: { Query: { hello: () => 'world' } },
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  function createClient(
+    error: unknown,
+    options: AzureFunctionsMiddlewareOptions<object> = {},
+  ) {
+    return createTestClient(
+      startServerAndCreateHandler(server, {
+        ...options,
+        middleware: [
+          ({ req }, next) => {
+            if (req.headers.get('x-fail')) {
+              throw error;
+            }
+            return next();
+          },
+        ],
+      }),
+    );
+  }
+
+  async function fail(client: ReturnType<typeof createClient>, accept = '') {
+    await client.query('{ hello }');
+    return client.query('{ hello }', {
+      headers: { 'x-fail': 'true', ...(accept ? { accept } : {}) },
+    });
+  }
+
+  it('should respond with GraphQL errors in JSON', async () => {
+    const response = await fail(
+      createClient(new HttpError('Teapot', 418, true, 'TEAPOT')),
+      'application/json',
+    );
+
+    expect(response.status).toBe(418);
+    expect(response.headers.get('content-type')).toBe(
+      'application/json; charset=utf-8',
+    );
+    expect(JSON.parse(response.text)).toEqual({
+      errors: [{ message: 'Teapot', extensions: { code: 'TEAPOT' } }],
+    });
+  });
+
+  it('should use application/graphql-response+json when accepted', async () => {
+    const response = await fail(
+      createClient(new HttpError('Teapot', 418, true)),
+      'application/graphql-response+json, application/json;q=0.9',
+    );
+
+    expect(response.headers.get('content-type')).toBe(
+      'application/graphql-response+json; charset=utf-8',
+    );
+  });
+
+  it('should hide messages that are not exposed', async () => {
+    const hidden = await fail(createClient(new HttpError('Upstream', 502)));
+    const unexpected = await fail(createClient(new Error('Database down')));
+
+    expect(hidden.status).toBe(502);
+    expect(JSON.parse(hidden.text).errors).toEqual([
+      { message: 'Bad Request', extensions: { code: 'INTERNAL_SERVER_ERROR' } },
+    ]);
+    expect(unexpected.status).toBe(500);
+    expect(JSON.parse(unexpected.text).errors).toEqual([
+      {
+        message: 'Internal Server Error',
+        extensions: { code: 'INTERNAL_SERVER_ERROR' },
+      },
+    ]);
+  });
+
+  it('should format errors with formatError', async () => {
+    const error = new Error('Database down');
+    const formatError = jest.fn((formatted, _, context) => ({
+      ...formatted,
+      extensions: {
+        ...formatted.extensions,
+        invocationId: context.invocationId,
+      },
+    }));
+
+    const response = await fail(createClient(error, { formatError }));
+
+    expect(formatError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Internal Server Error' }),
+      error,
+      expect.objectContaining({ invocationId: 'test-invocation' }),
+    );
+    expect(JSON.parse(response.text).errors).toEqual([
+      {
+        message: 'Internal Server Error',
+        extensions: {
+          code: 'INTERNAL_SERVER_ERROR',
+          invocationId: 'test-invocation',
+        },
+      },
+    ]);
+  });
+
+  it('should send the unformatted error if formatError throws', async () => {
+    const response = await fail(
+      createClient(new HttpError('Teapot', 418, true), {
+        formatError: () => {
+          throw new Error('Formatter failed');
+        },
+      }),
+    );
+
+    expect(JSON.parse(response.text).errors[0].message).toBe('Teapot');
+    expect(response.context.logs.at(-1)).toMatchObject({
+      level: 'error',
+      args: ['Failure formatting error response', expect.any(Error)],
+    });
+  });
+});
+
+describe('negotiateErrorContentType', () => {
+  it.each([
+    [null, 'application/json'],
+    ['*/*', 'application/json'],
+    ['application/json', 'application/json'],
+    ['application/graphql-response+json', 'application/graphql-response+json'],
+    [
+      'application/json, application/graphql-response+json',
+      'application/graphql-response+json',
+    ],
+    [
+      'application/json, application/graphql-response+json;q=0.5',
+      'application/json',
+    ],
+    ['application/graphql-response+json;q=0', 'application/json'],
+  ])('should pick a content type for %j', (accept, expected) => {
+    expect(negotiateErrorContentType(accept)).toBe(expected);
+  });
+});
@@ -0,0 +1,144 @@
+import { ApolloServer } from '@apollo/server';
+import {
+  startServerAndCreateHandler,
+  type AzureFunctionsMiddlewareOptions,
+} from '..';
+import { createTestClient } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+    fail: String
+  }
+`;
+
+describe('ETags', () => {
+  let server: ApolloServer;
+
+  beforeEach(() => {
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: {
+        Query: {
+          hello: () => 'world',
+          fail: () => {
+            throw new Error('Failed');
+          },
+        },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  function createClient(
+    options: AzureFunctionsMiddlewareOptions<object> = { etag: true },
+  ) {
+    return createTestClient(startServerAndCreateHandler(server, options));
+  }
+
+  it('should answer a matching If-None-Match with 304', async () => {
+    const client = createClient();
+
+    const first = await client.query('{ hello }', { method: 'GET' });
+    const etag = first.headers.get('etag');
+    const notModified = await client.query('{ hello }', {
+      method: 'GET',
+      headers: { 'if-none-match': `"other", ${etag}` },
+    });
+
+    expect(first.status).toBe(200);
+    expect(etag).toMatch(/^W\/"[\w-]+"$/);
+    expect(notModified.status).toBe(304);
+    expect(notModified.text).toBe('');
+    expect(notModified.headers.get('etag')).toBe(etag);
+    expect(notModified.headers.has('content-type')).toBe(false);
+    expect(notModified.headers.has('content-length')).toBe(false);
+  });
+
+  it('should send the response when If-None-Match does not match', async () => {
+    const response = await createClient().query('{ hello }', {
+      method: 'GET',
+      headers: { 'if-none-match': 'W/"stale"' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      singleResult: { data: { hello: 'world' } },
+    });
+  });
+
+  it('should skip POST requests and responses with errors', async () => {
+    const client = createClient();
+
+    const post = await client.query('{ hello }');
+    const failed = await client.query('{ fail }', {
+      method: 'GET',
+      headers: { 'if-none-match': '*' },
+    });
+
+    expect(post.headers.has('etag')).toBe(false);
+    expect(failed.status).toBe(200);
+    expect(failed.headers.has('etag')).toBe(false);
+  });
+
+  it('should tag each variant separately', async () => {
+    const client = createClient({
+      etag: true,
+      middleware: [
+        async (_, next) => {
+          const response = await next();
+          return {
+            ...response,
+            headers: { ...response.headers, vary: 'X-Tenant' },
+          };
+        },
+      ],
+    });
+    const asTenant = (tenant: string, headers = {}) =>
+      client.query('{ hello }', {
+        method: 'GET',
+        headers: { 'x-tenant': tenant, ...headers },
+      });
+
+    const a = await asTenant('a');
+    const b = await asTenant('b');
+    const other = await asTenant('b', {
+      'if-none-match': a.headers.get('etag') ?? '',
+    });
+
+    expect(a.headers.get('etag')).not.toBe(b.headers.get('etag'));
+    expect(other.status).toBe(200);
+  });
+
+  it('should send strong ETags for each encoding', async () => {
+    const client = createClient({
+      etag: { weak: false },
+      compression: { threshold: 0 },
+      cors: { origin: '*' },
+    });
+    const get = (headers: Record<string, string>) =>
+      client.query('{ hello }', {
+        method: 'GET',
+        headers: { origin: 'https://example.com', ...headers },
+      });
+
+    const gzip = await get({ 'accept-encoding': 'gzip' });
+    const identity = await get({ 'accept-encoding': 'identity' });
+    const notModified = await get({
+      'accept-encoding': 'gzip',
+      'if-none-match': gzip.headers.get('etag') ?? '',
+    });
+
+    expect(gzip.headers.get('etag')).toMatch(/^"[\w-]+"$/);
+    expect(gzip.headers.get('etag')).not.toBe(identity.headers.get('etag'));
+    expect(notModified.status).toBe(304);
+    expect(Object.fromEntries(notModified.headers)).toMatchObject({
+      vary: expect.stringContaining('Accept-Encoding'),
+      'access-control-allow-origin': '*',
+    });
+    expect(notModified.headers.has('content-encoding')).toBe(false);
+  });
+});
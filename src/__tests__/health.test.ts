@@ -0,0 +1,243 @@
+import { ApolloServer } from '@apollo/server';
+import type { HttpResponseInit } from '@azure/functions';
+import {
+  createHealthHandler,
+  startServerAndCreateHandler,
+  type HealthHandlerOptions,
+  type HealthReport,
+} from '..';
+import {
+  createHttpRequest,
+  createInvocationContext,
+  createTestClient,
+} from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+  }
+`;
+
+async function probe(
+  server: ApolloServer,
+  options?: HealthHandlerOptions,
+  context = createInvocationContext(),
+) {
+  const response = (await createHealthHandler(server, options)(
+    createHttpRequest({ method: 'GET' }),
+    context,
+  )) as HttpResponseInit;
+  return {
+    status: response.status,
+    headers: response.headers as Record<string, string>,
+    report: JSON.parse(response.body as string) as HealthReport,
+  };
+}
+
+describe('createHealthHandler', () => {
+  let server: ApolloServer;
+
+  beforeEach(() => {
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: { Query: { hello: () => 'world' } },
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  async function ready() {
+    await probe(server);
+    await server.executeOperation({ query: '{ hello }' });
+  }
+
+  it('should report a starting server as not ready', async () => {
+    const readiness = await probe(server);
+    const liveness = await probe(server, { probe: 'liveness' });
+
+    expect(readiness.status).toBe(503);
+    expect(readiness.report).toEqual({
+      status: 'fail',
+      server: 'starting',
+      checks: {},
+    });
+    expect(liveness.status).toBe(200);
+    await ready();
+  });
+
+  it('should let handlers created later set up the server', async () => {
+    const health = createHealthHandler(server);
+    const client = createTestClient(
+      startServerAndCreateHandler(server, { subscriptions: true }),
+    );
+
+    const { body } = await client.query('{ hello }');
+    await health(
+      createHttpRequest({ method: 'GET' }),
+      createInvocationContext(),
+    );
+
+    expect(body).toEqual({
+      kind: 'single',
+      singleResult: { data: { hello: 'world' } },
+    });
+    expect((await probe(server)).report.server).toBe('ready');
+  });
+
+  it('should report a started server as ready', async () => {
+    await ready();
+
+    const response = await probe(server);
+
+    expect(response.status).toBe(200);
+    expect(response.headers).toEqual({
+      'content-type': 'application/json; charset=utf-8',
+      'cache-control': 'no-store',
+    });
+    expect(response.report).toEqual({
+      status: 'pass',
+      server: 'ready',
+      checks: {},
+    });
+  });
+
+  it('should run dependency checks', async () => {
+    await ready();
+
+    const response = await probe(server, {
+      checks: {
+        database: async () => true,
+        cache: { check: () => undefined, timeout: 100 },
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.report.checks).toEqual({
+      database: {
+        status: 'pass',
+        durationMs: expect.any(Number),
+        critical: true,
+      },
+      cache: { status: 'pass', durationMs: expect.any(Number), critical: true },
+    });
+  });
+
+  it('should fail when a critical check fails', async () => {
+    await ready();
+    const context = createInvocationContext();
+
+    const response = await probe(
+      server,
+      {
+        timeout: 20,
+        checks: {
+          database: () => {
+            throw new Error('Connection refused');
+          },
+          storage: () => false,
+          queue: () => new Promise(() => {}),
+        },
+      },
+      context,
+    );
+
+    expect(response.status).toBe(503);
+    expect(response.report.status).toBe('fail');
+    expect(response.report.checks.database).toEqual({
+      status: 'fail',
+      durationMs: expect.any(Number),
+      critical: true,
+    });
+    expect(response.report.checks.storage.status).toBe('fail');
+    expect(response.report.checks.queue.durationMs).toBeGreaterThanOrEqual(15);
+    expect(context.logs.map(({ args }) => args[0])).toEqual(
+      expect.arrayContaining([
+        'Health check "database" failed',
+        'Health check "storage" failed',
+        'Health check "queue" failed',
+      ]),
+    );
+  });
+
+  it('should pass when only non-critical checks fail', async () => {
+    await ready();
+
+    const response = await probe(server, {
+      exposeErrors: true,
+      checks: {
+        analytics: {
+          check: async () => {
+            throw new Error('Unavailable');
+          },
+          critical: false,
+        },
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.report.checks.analytics).toEqual({
+      status: 'fail',
+      durationMs: expect.any(Number),
+      critical: false,
+      error: 'Unavailable',
+    });
+  });
+
+  it('should not run checks for liveness probes', async () => {
+    await ready();
+    const check = jest.fn(() => false);
+
+    const response = await probe(server, {
+      probe: 'liveness',
+      checks: { database: check },
+    });
+
+    expect(response.status).toBe(200);
+    expect(check).not.toHaveBeenCalled();
+  });
+
+  it('should report a stopping server as not ready', async () => {
+    await ready();
+    await server.stop();
+
+    const response = await probe(server);
+
+    expect(response.status).toBe(503);
+    expect(response.report.server).toBe('stopping');
+  });
+});
+
+describe('createHealthHandler with a failed server', () => {
+  it('should fail both probes', async () => {
+    const server = new ApolloServer({
+      typeDefs,
+      resolvers: { Query: { hello: () => 'world' } },
+      logger: { debug() {}, info() {}, warn() {}, error() {} },
+      plugins: [
+        {
+          async serverWillStart() {
+            throw new Error('Plugin failed');
+          },
+        },
+      ],
+    });
+    await probe(server);
+    await expect(
+      server.executeOperation({ query: '{ hello }' }),
+    ).rejects.toThrow();
+    const context = createInvocationContext();
+
+    const readiness = await probe(server, {}, context);
+    const liveness = await probe(server, { probe: 'liveness' });
+
+    expect(readiness.status).toBe(503);
+    expect(readiness.report.server).toBe('failed');
+    expect(liveness.status).toBe(503);
+    expect(context.logs[0]).toMatchObject({
+      level: 'error',
+      args: ['GraphQL server failed to start', expect.any(Error)],
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { ApolloServer } from '@apollo/server';
+import { output } from '@azure/functions';
+import { GraphQLError } from 'graphql';
+import {
+  createJobStatusHandler,
+  InMemoryJobStore,
+  startServerAndCreateHandler,
+  startServerAndCreateMessageHandler,
+  type Job,
+} from '..';
+import {
+  createHttpRequest,
+  createInvocationContext,
+  createTestClient,
+} from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+  }
+  type Mutation {
+    importCatalog(url: String!): Int
+    rename(name: String!): String
+  }
+`;
+
+const queue = output.storageQueue({
+  queueName: 'graphql-jobs',
+  connection: 'Storage',
+});
+
+describe('async operations', () => {
+  let server: ApolloServer;
+  let store: InMemoryJobStore;
+
+  beforeEach(() => {
+    store = new InMemoryJobStore();
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: {
+        Query: { hello: () => 'world' },
+        Mutation: {
+          importCatalog: (_, { url }) => {
+            if (!url.startsWith('https:')) {
+              throw new Error('Only HTTPS catalogs are supported');
+            }
+            return 42;
+          },
+          rename: (_, { name }) => name,
+        },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  function createClient(operations?: string[]) {
+    return createTestClient(
+      startServerAndCreateHandler(server, {
+        asyncOperations: { output: queue, store, operations },
+      }),
+    );
+  }
+
+  it('should queue mutations marked with the directive', async () => {
+    const response = await createClient().mutate(
+      'mutation Import($url: String!) @async { importCatalog(url: $url) }',
+      { variables: { url: 'https://example.com/catalog.csv' } },
+    );
+
+    const job = JSON.parse(response.text) as Job;
+    expect(response.status).toBe(202);
+    expect(job).toEqual({
+      id: expect.any(String),
+      status: 'pending',
+      operationName: 'Import',
+      createdAt: expect.any(String),
+    });
+    expect(await store.get(job.id)).toEqual(job);
+    expect(response.context.extraOutputs.get(queue)).toEqual({
+      jobId: job.id,
+      query: 'mutation Import($url: String!) {\n  importCatalog(url: $url)\n}',
+      variables: { url: 'https://example.com/catalog.csv' },
+    });
+  });
+
+  it('should queue mutations by name and execute others', async () => {
+    const client = createClient(['Import']);
+
+    const queued = await client.mutate(
+      'mutation Import { importCatalog(url: "https://example.com") }',
+    );
+    const executed = await client.mutate('mutation { rename(name: "a") }');
+    const query = await client.query('{ hello }');
+
+    expect(queued.status).toBe(202);
+    expect(executed.body).toMatchObject({
+      singleResult: { data: { rename: 'a' } },
+    });
+    expect(executed.context.extraOutputs.get(queue)).toBeUndefined();
+    expect(query.status).toBe(200);
+  });
+
+  it('should run the context function and send its auth payload', async () => {
+    const contextFunction = jest.fn(async ({ req }) => ({
+      user: req.headers.get('x-user'),
+    }));
+    const client = createTestClient(
+      startServerAndCreateHandler(server, {
+        context: contextFunction,
+        asyncOperations: {
+          output: queue,
+          store,
+          auth: ({ user }: { user?: string }) => ({ user }),
+        },
+      }),
+    );
+    const queueContext = jest.fn(async () => ({}));
+    const messageHandler = startServerAndCreateMessageHandler(server, {
+      context: queueContext,
+    });
+
+    const response = await client.mutate(
+      'mutation @async { rename(name: "b") }',
+      { headers: { 'x-user': 'ada' } },
+    );
+    const message = response.context.extraOutputs.get(queue);
+    await messageHandler(message, createInvocationContext());
+
+    expect(response.status).toBe(202);
+    expect(contextFunction).toHaveBeenCalledTimes(1);
+    expect(message).toMatchObject({ auth: { user: 'ada' } });
+    expect(queueContext).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: expect.objectContaining({ auth: { user: 'ada' } }),
+      }),
+    );
+  });
+
+  it('should apply CSRF prevention before queuing', async () => {
+    const response = await createClient().execute({
+      method: 'POST',
+      headers: {
+        accept: 'application/json',
+        'content-type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        query: 'mutation @async { rename(name: "c") }',
+      }).toString(),
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toContain('Cross-Site Request Forgery');
+    expect(response.context.extraOutputs.get(queue)).toBeUndefined();
+  });
+
+  it('should not queue operations rejected by the context function', async () => {
+    const client = createTestClient(
+      startServerAndCreateHandler(server, {
+        context: async () => {
+          throw new GraphQLError('Not signed in', {
+            extensions: { code: 'UNAUTHENTICATED', http: { status: 401 } },
+          });
+        },
+        asyncOperations: { output: queue, store },
+      }),
+    );
+
+    const response = await client.mutate(
+      'mutation @async { rename(name: "d") }',
+    );
+
+    expect(response.status).toBe(401);
+    expect(response.context.extraOutputs.get(queue)).toBeUndefined();
+  });
+
+  it('should record results and report them', async () => {
+    const client = createClient(['Import']);
+    const messageHandler = startServerAndCreateMessageHandler(server, {
+      jobStore: store,
+    });
+    const statusHandler = createJobStatusHandler(store);
+    const getStatus = (jobId: string) =>
+      statusHandler(
+        createHttpRequest({ params: { jobId } }),
+        createInvocationContext(),
+      );
+
+    const completed = await client.mutate(
+      'mutation Import { importCatalog(url: "https://example.com") }',
+    );
+    const failed = await client.mutate(
+      'mutation Import { importCatalog(url: "ftp://example.com") }',
+    );
+    const completedJob = JSON.parse(completed.text) as Job;
+    const failedJob = JSON.parse(failed.text) as Job;
+
+    expect(
+      JSON.parse((await getStatus(completedJob.id)).body as string),
+    ).toEqual(completedJob);
+
+    await messageHandler(
+      completed.context.extraOutputs.get(queue),
+      createInvocationContext(),
+    );
+    await messageHandler(
+      failed.context.extraOutputs.get(queue),
+      createInvocationContext(),
+    );
+
+    const completedStatus = await getStatus(completedJob.id);
+    expect(completedStatus.status).toBe(200);
+    expect(JSON.parse(completedStatus.body as string)).toEqual({
+      ...completedJob,
+      status: 'completed',
+      finishedAt: expect.any(String),
+      data: { importCatalog: 42 },
+    });
+    expect(
+      JSON.parse((await getStatus(failedJob.id)).body as string),
+    ).toMatchObject({
+      status: 'failed',
+      data: { importCatalog: null },
+      errors: [{ message: 'Only HTTPS catalogs are supported' }],
+    });
+  });
+  it('should only report jobs to callers authorized to read them', async () => {
+    const client = createTestClient(
+      startServerAndCreateHandler(server, {
+        context: async ({ req }) => ({ user: req.headers.get('x-user') }),
+        asyncOperations: {
+          output: queue,
+          store,
+          owner: ({ user }: { user?: string | null }) => user ?? undefined,
+        },
+      }),
+    );
+    const statusHandler = createJobStatusHandler(store, {
+      authorize: (req, job) => req.headers.get('x-user') === job.owner,
+    });
+    const getStatus = (jobId: string, user: string) =>
+      statusHandler(
+        createHttpRequest({ params: { jobId }, headers: { 'x-user': user } }),
+        createInvocationContext(),
+      );
+
+    const response = await client.mutate(
+      'mutation @async { rename(name: "e") }',
+      { headers: { 'x-user': 'ada' } },
+    );
+    const job = JSON.parse(response.text) as Job;
+
+    expect(job.owner).toBe('ada');
+    expect((await getStatus(job.id, 'ada')).status).toBe(200);
+    expect((await getStatus(job.id, 'grace')).status).toBe(404);
+  });
+
+  it('should leave jobs pending when failed operations are retried', async () => {
+    const client = createClient(['Import']);
+    const messageHandler = startServerAndCreateMessageHandler(server, {
+      jobStore: store,
+      throwOnError: true,
+    });
+
+    const response = await client.mutate(
+      'mutation Import { importCatalog(url: "ftp://example.com") }',
+    );
+    const job = JSON.parse(response.text) as Job;
+
+    await expect(
+      messageHandler(
+        response.context.extraOutputs.get(queue),
+        createInvocationContext(),
+      ),
+    ).rejects.toThrow('Only HTTPS catalogs are supported');
+    expect(await store.get(job.id)).toEqual(job);
+  });
+});
+
+describe('createJobStatusHandler', () => {
+  it('should respond 404 to unknown jobs', async () => {
+    const response = await createJobStatusHandler(new InMemoryJobStore())(
+      createHttpRequest({ url: 'http://localhost:7071/api/jobs?jobId=nope' }),
+      createInvocationContext(),
+    );
+
+    expect(response.status).toBe(404);
+    expect(JSON.parse(response.body as string)).toEqual({
+      errors: [{ message: 'Unknown job', extensions: { code: 'NOT_FOUND' } }],
+    });
+  });
+});
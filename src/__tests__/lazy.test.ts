@@ -0,0 +1,196 @@
+import { ApolloServer, type ApolloServerPlugin } from '@apollo/server';
+import {
+  createHealthHandler,
+  createWarmupHandler,
+  startServerAndCreateHandler,
+  startServerAndCreateMessageHandler,
+} from '..';
+import {
+  createHttpRequest,
+  createInvocationContext,
+  createTestClient,
+} from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+  }
+`;
+
+describe('lazy server factory', () => {
+  let servers: ApolloServer[];
+
+  beforeEach(() => {
+    servers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(
+      servers.map((server) => server.stop().catch(() => undefined)),
+    );
+  });
+
+  function createFactory(
+    plugins: ApolloServerPlugin[] = [],
+  ): jest.Mock<Promise<ApolloServer>> {
+    return jest.fn(async () => {
+      const server = new ApolloServer({
+        typeDefs,
+        resolvers: { Query: { hello: () => 'world' } },
+        logger: { debug() {}, info() {}, warn() {}, error() {} },
+        plugins,
+      });
+      servers.push(server);
+      return server;
+    });
+  }
+
+  it('should build the server on first invocation', async () => {
+    const factory = createFactory();
+    const client = createTestClient(startServerAndCreateHandler(factory));
+
+    expect(factory).not.toHaveBeenCalled();
+    const response = await client.query('{ hello }');
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      singleResult: { data: { hello: 'world' } },
+    });
+  });
+
+  it('should share one initialization across concurrent invocations', async () => {
+    const factory = createFactory();
+    const client = createTestClient(startServerAndCreateHandler(factory));
+
+    const responses = await Promise.all([
+      client.query('{ hello }'),
+      client.query('{ hello }'),
+      client.query('{ hello }'),
+    ]);
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(responses.map((response) => response.status)).toEqual([
+      200, 200, 200,
+    ]);
+  });
+
+  it('should share the server with the warmup handler', async () => {
+    const factory = createFactory();
+    const client = createTestClient(startServerAndCreateHandler(factory));
+
+    await createWarmupHandler(factory)({}, createInvocationContext());
+    const response = await client.query('{ hello }');
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(response.status).toBe(200);
+  });
+
+  it('should share the server with message and health handlers', async () => {
+    const factory = createFactory();
+    const client = createTestClient(startServerAndCreateHandler(factory));
+    const messageHandler = startServerAndCreateMessageHandler(factory);
+    const healthHandler = createHealthHandler(factory);
+
+    const health = await healthHandler(
+      createHttpRequest({ method: 'GET' }),
+      createInvocationContext(),
+    );
+    const result = await messageHandler(
+      { query: '{ hello }' },
+      createInvocationContext(),
+    );
+    const response = await client.query('{ hello }');
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(health.status).toBe(200);
+    expect(result).toEqual({ data: { hello: 'world' } });
+    expect(response.status).toBe(200);
+  });
+
+  it('should report factory failures to health probes and queues', async () => {
+    const factory = createFactory();
+    factory.mockRejectedValueOnce(new Error('Schema unavailable'));
+    factory.mockRejectedValueOnce(new Error('Schema unavailable'));
+    const context = createInvocationContext();
+
+    const health = await createHealthHandler(factory, { probe: 'liveness' })(
+      createHttpRequest({ method: 'GET' }),
+      context,
+    );
+    await expect(
+      startServerAndCreateMessageHandler(factory)(
+        { query: '{ hello }' },
+        context,
+      ),
+    ).rejects.toThrow('Schema unavailable');
+
+    expect(health.status).toBe(503);
+    expect(JSON.parse(health.body as string)).toMatchObject({
+      status: 'fail',
+      server: 'failed',
+    });
+    expect(context.logs).toMatchObject([
+      {
+        level: 'error',
+        args: ['GraphQL server failed to start', expect.any(Error)],
+      },
+      {
+        level: 'error',
+        args: ['Failure initializing the GraphQL server', expect.any(Error)],
+      },
+    ]);
+  });
+
+  it('should retry when the factory fails', async () => {
+    const factory = createFactory();
+    factory.mockRejectedValueOnce(new Error('Schema unavailable'));
+    const client = createTestClient(startServerAndCreateHandler(factory));
+
+    const failed = await client.query('{ hello }');
+    const response = await client.query('{ hello }');
+
+    expect(failed.status).toBe(500);
+    expect(failed.context.logs[0]).toMatchObject({
+      level: 'error',
+      args: ['Failure processing GraphQL request', expect.any(Error)],
+    });
+    expect(response.status).toBe(200);
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry when the server fails to start', async () => {
+    let attempts = 0;
+    const factory = createFactory([
+      {
+        async serverWillStart() {
+          if (attempts++ === 0) {
+            throw new Error('Plugin failed');
+          }
+        },
+      },
+    ]);
+    const client = createTestClient(startServerAndCreateHandler(factory));
+
+    const failed = await client.query('{ hello }');
+    const response = await client.query('{ hello }');
+
+    expect(failed.status).toBe(500);
+    expect(response.status).toBe(200);
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+
+  it('should rethrow warmup failures', async () => {
+    const factory = createFactory();
+    factory.mockRejectedValueOnce(new Error('Schema unavailable'));
+    const context = createInvocationContext();
+
+    await expect(createWarmupHandler(factory)({}, context)).rejects.toThrow(
+      'Schema unavailable',
+    );
+    expect(context.logs[0]).toMatchObject({
+      level: 'error',
+      args: ['Failure initializing the GraphQL server', expect.any(Error)],
+    });
+  });
+});
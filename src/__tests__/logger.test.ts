@@ -0,0 +1,146 @@
+import { ApolloServer, type ApolloServerPlugin } from '@apollo/server';
+import type { Logger } from '@apollo/utils.logger';
+import {
+  createInvocationLogger,
+  startServerAndCreateHandler,
+  startServerAndCreateMessageHandler,
+} from '..';
+import { createInvocationContext, createTestClient } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello(delay: Int): String
+  }
+`;
+
+describe('createInvocationLogger', () => {
+  let fallback: jest.Mocked<Logger>;
+  let server: ApolloServer;
+
+  beforeEach(() => {
+    fallback = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const logger = createInvocationLogger({ fallback });
+    const plugin: ApolloServerPlugin = {
+      async serverWillStart({ logger }) {
+        logger.info('starting');
+      },
+      async requestDidStart({ logger }) {
+        logger.debug('request started');
+        return {
+          async didEncounterErrors({ logger, errors }) {
+            logger.error(errors[0].message);
+          },
+        };
+      },
+    };
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: {
+        Query: {
+          hello: async (_: unknown, { delay }: { delay?: number }) => {
+            await new Promise((resolve) => setTimeout(resolve, delay ?? 0));
+            logger.warn('resolving hello');
+            return 'world';
+          },
+        },
+      },
+      logger,
+      plugins: [plugin],
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should write request logs to the invocation context', async () => {
+    const client = createTestClient(startServerAndCreateHandler(server), {
+      createContext: () =>
+        createInvocationContext({ invocationId: 'invocation-1' }),
+    });
+
+    const response = await client.query('query Hello { hello }', {
+      operationName: 'Hello',
+    });
+
+    const metadata = { invocationId: 'invocation-1', operationName: 'Hello' };
+    expect(response.context.logs).toEqual([
+      { level: 'debug', args: ['request started', metadata] },
+      { level: 'warning', args: ['resolving hello', metadata] },
+    ]);
+  });
+
+  it('should send startup logs to the fallback logger', async () => {
+    await createTestClient(startServerAndCreateHandler(server)).query(
+      '{ hello }',
+    );
+
+    expect(fallback.info).toHaveBeenCalledWith('starting');
+    expect(fallback.warn).not.toHaveBeenCalled();
+  });
+
+  it('should name operations from the query and log errors', async () => {
+    const client = createTestClient(startServerAndCreateHandler(server));
+
+    const named = await client.query('query Greeting { hello }', {
+      method: 'GET',
+    });
+    const invalid = await client.query('{ goodbye }');
+
+    expect(named.context.logs[0].args[1]).toEqual({
+      invocationId: 'test-invocation',
+      operationName: 'Greeting',
+    });
+    expect(invalid.context.logs.at(-1)).toEqual({
+      level: 'error',
+      args: [
+        'Cannot query field "goodbye" on type "Query".',
+        { invocationId: 'test-invocation' },
+      ],
+    });
+  });
+
+  it('should keep concurrent invocations apart', async () => {
+    const handler = startServerAndCreateHandler(server);
+    const slow = createTestClient(handler, {
+      createContext: () => createInvocationContext({ invocationId: 'slow' }),
+    });
+    const fast = createTestClient(handler, {
+      createContext: () => createInvocationContext({ invocationId: 'fast' }),
+    });
+
+    const [slowResponse, fastResponse] = await Promise.all([
+      slow.query('query Slow { hello(delay: 20) }'),
+      fast.query('query Fast { hello }'),
+    ]);
+
+    expect(slowResponse.context.logs.map(({ args }) => args[1])).toEqual([
+      { invocationId: 'slow', operationName: 'Slow' },
+      { invocationId: 'slow', operationName: 'Slow' },
+    ]);
+    expect(fastResponse.context.logs.map(({ args }) => args[1])).toEqual([
+      { invocationId: 'fast', operationName: 'Fast' },
+      { invocationId: 'fast', operationName: 'Fast' },
+    ]);
+  });
+
+  it('should write queue message logs to the invocation context', async () => {
+    const handler = startServerAndCreateMessageHandler(server);
+    const context = createInvocationContext({ invocationId: 'queue-1' });
+
+    await handler({ query: 'query Queued { hello }' }, context);
+
+    expect(context.logs.at(-1)).toEqual({
+      level: 'warning',
+      args: [
+        'resolving hello',
+        { invocationId: 'queue-1', operationName: 'Queued' },
+      ],
+    });
+  });
+});
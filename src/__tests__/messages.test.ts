@@ -0,0 +1,207 @@
+import { ApolloServer } from '@apollo/server';
+import { output } from '@azure/functions';
+import {
+  ServiceUnavailableError,
+  startServerAndCreateHandler,
+  startServerAndCreateMessageHandler,
+} from '..';
+import { createInvocationContext, createTestClient } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+    whoami: String
+    fail: String
+  }
+`;
+
+const resolvers = {
+  Query: {
+    hello: () => 'world',
+    whoami: (_: unknown, __: unknown, { source }: { source?: string }) =>
+      source,
+    fail: () => {
+      throw new Error('resolver failed');
+    },
+  },
+};
+
+const results = output.storageQueue({
+  queueName: 'graphql-results',
+  connection: 'Storage',
+});
+const errors = output.storageQueue({
+  queueName: 'graphql-errors',
+  connection: 'Storage',
+});
+
+describe('startServerAndCreateMessageHandler', () => {
+  let server: ApolloServer<{ source?: string }>;
+
+  beforeEach(() => {
+    server = new ApolloServer({ typeDefs, resolvers });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it.each([
+    ['an object', { query: '{ hello }' }],
+    ['a JSON string', JSON.stringify({ query: '{ hello }' })],
+    ['JSON bytes', Buffer.from(JSON.stringify({ query: '{ hello }' }))],
+  ])('should execute %s message', async (_, message) => {
+    const handler = startServerAndCreateMessageHandler(server, {
+      output: results,
+    });
+    const context = createInvocationContext({
+      triggerMetadata: { id: 'msg-1' },
+    });
+
+    const result = await handler(message, context);
+
+    expect(result).toEqual({ messageId: 'msg-1', data: { hello: 'world' } });
+    expect(context.extraOutputs.get(results)).toEqual(result);
+  });
+
+  it('should pass the message to the context function', async () => {
+    const handler = startServerAndCreateMessageHandler(server, {
+      context: async ({ operation, context }) => ({
+        source: `${context.functionName}:${operation.operationName}`,
+      }),
+    });
+
+    const result = await handler(
+      { query: 'query WhoAmI { whoami }', operationName: 'WhoAmI' },
+      createInvocationContext(),
+    );
+
+    expect(result).toMatchObject({
+      operationName: 'WhoAmI',
+      data: { whoami: 'test-function:WhoAmI' },
+    });
+  });
+
+  it('should send results with errors to the error output', async () => {
+    const handler = startServerAndCreateMessageHandler(server, {
+      output: results,
+      errorOutput: errors,
+    });
+    const context = createInvocationContext();
+
+    await handler({ query: '{ fail }' }, context);
+
+    expect(context.extraOutputs.get(results)).toBeUndefined();
+    expect(context.extraOutputs.get(errors)).toMatchObject({
+      data: { fail: null },
+      errors: [{ message: 'resolver failed' }],
+    });
+  });
+
+  it('should report invalid messages without exposing internals', async () => {
+    const handler = startServerAndCreateMessageHandler(server, {
+      output: results,
+    });
+    const context = createInvocationContext();
+
+    const invalid = await handler({ variables: {} }, context);
+
+    expect(invalid).toEqual({
+      errors: [
+        {
+          message: 'Queue message must contain a string `query`',
+          extensions: { code: 'BAD_REQUEST' },
+        },
+      ],
+    });
+    expect(context.logs[0]).toMatchObject({ level: 'error' });
+  });
+
+  it('should report the code of HTTP errors', async () => {
+    const handler = startServerAndCreateMessageHandler(server, {
+      context: async () => {
+        throw new ServiceUnavailableError('Catalog is being migrated');
+      },
+    });
+
+    const result = await handler(
+      { query: '{ hello }' },
+      createInvocationContext(),
+    );
+
+    expect(result).toEqual({
+      errors: [
+        {
+          message: 'Catalog is being migrated',
+          extensions: { code: 'SERVICE_UNAVAILABLE' },
+        },
+      ],
+    });
+  });
+
+  it('should throw on errors when throwOnError is set', async () => {
+    const handler = startServerAndCreateMessageHandler(server, {
+      output: results,
+      throwOnError: true,
+    });
+    const context = createInvocationContext();
+
+    await expect(handler({ query: '{ fail }' }, context)).rejects.toThrow(
+      'resolver failed',
+    );
+    await expect(handler('not json', context)).rejects.toThrow(
+      'Invalid JSON in queue message',
+    );
+    expect(context.extraOutputs.get(results)).toBeUndefined();
+  });
+
+  it('should execute batches of Service Bus messages', async () => {
+    const handler = startServerAndCreateMessageHandler(server, {
+      output: results,
+      errorOutput: errors,
+    });
+    const context = createInvocationContext({
+      triggerMetadata: { messageIdArray: ['a', 'b', 'c'] },
+    });
+
+    const batch = await handler(
+      [{ query: '{ hello }' }, { query: '{ fail }' }, { query: '{ hello }' }],
+      context,
+    );
+
+    expect(batch).toHaveLength(3);
+    expect(context.extraOutputs.get(results)).toEqual([
+      { messageId: 'a', data: { hello: 'world' } },
+      { messageId: 'c', data: { hello: 'world' } },
+    ]);
+    expect(context.extraOutputs.get(errors)).toMatchObject([
+      { messageId: 'b' },
+    ]);
+  });
+});
+
+describe('startServerAndCreateMessageHandler with a shared server', () => {
+  it('should share a server with the HTTP handler', async () => {
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const sharedServer = new ApolloServer({ typeDefs, resolvers, logger });
+    const httpHandler = startServerAndCreateHandler(sharedServer);
+    const messageHandler = startServerAndCreateMessageHandler(sharedServer);
+
+    const httpResult = await createTestClient(httpHandler).query('{ hello }');
+    const messageResult = await messageHandler(
+      { query: '{ hello }' },
+      createInvocationContext(),
+    );
+
+    expect(httpResult.status).toBe(200);
+    expect(messageResult).toMatchObject({ data: { hello: 'world' } });
+    expect(logger.error).not.toHaveBeenCalled();
+
+    await sharedServer.stop();
+  });
+});
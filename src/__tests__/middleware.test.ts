@@ -0,0 +1,235 @@
+import { ApolloServer } from '@apollo/server';
+import type { HttpResponseInit } from '@azure/functions';
+import {
+  BadRequestError,
+  startServerAndCreateHandler,
+  type AzureFunctionsMiddleware,
+} from '..';
+import {
+  createHttpRequest,
+  createInvocationContext,
+  createTestClient,
+} from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+  }
+
+  type Subscription {
+    countdown(from: Int!): Int
+  }
+`;
+
+describe('middleware', () => {
+  let server: ApolloServer;
+  let hello: jest.Mock;
+  let tenant: string | undefined;
+
+  beforeEach(() => {
+    hello = jest.fn(() => 'world');
+    tenant = undefined;
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: {
+        Query: { hello },
+        Subscription: {
+          countdown: {
+            subscribe: async function* (
+              _: unknown,
+              { from }: { from: number },
+            ) {
+              for (let i = from; i >= 0; i--) {
+                yield { countdown: i };
+              }
+            },
+          },
+        },
+      },
+      plugins: [
+        {
+          async requestDidStart({ request }) {
+            tenant = request.http?.headers.get('x-tenant');
+          },
+        },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should run middleware in order around execution', async () => {
+    const calls: string[] = [];
+    const trace =
+      (name: string): AzureFunctionsMiddleware =>
+      async (_, next) => {
+        calls.push(`${name}:before`);
+        const response = await next();
+        calls.push(`${name}:after`);
+        response.headers[`x-${name}`] = 'yes';
+        return response;
+      };
+    const client = createTestClient(
+      startServerAndCreateHandler(server, {
+        middleware: [trace('outer'), trace('inner')],
+      }),
+    );
+
+    const response = await client.query('{ hello }');
+
+    expect(calls).toEqual([
+      'outer:before',
+      'inner:before',
+      'inner:after',
+      'outer:after',
+    ]);
+    expect(response.headers.get('x-outer')).toBe('yes');
+    expect(response.headers.get('x-inner')).toBe('yes');
+    expect(response.body).toMatchObject({
+      singleResult: { data: { hello: 'world' } },
+    });
+  });
+
+  it('should receive the requests and invocation context', async () => {
+    const seen = jest.fn();
+    const client = createTestClient(
+      startServerAndCreateHandler(server, {
+        middleware: [
+          (arg, next) => {
+            seen(arg);
+            arg.request.headers.set('x-tenant', 'tenant-a');
+            return next();
+          },
+        ],
+      }),
+    );
+
+    await client.query('{ hello }', { headers: { 'x-custom': 'value' } });
+
+    const [{ req, request, context }] = seen.mock.calls[0];
+    expect(req.headers.get('x-custom')).toBe('value');
+    expect(request.body).toEqual({ query: '{ hello }' });
+    expect(context.invocationId).toBe('test-invocation');
+    expect(tenant).toBe('tenant-a');
+  });
+
+  it('should short-circuit with a response', async () => {
+    const client = createTestClient(
+      startServerAndCreateHandler(server, {
+        cors: { origin: '*' },
+        middleware: [
+          async ({ req }, next) =>
+            req.headers.get('x-api-key') === 'secret'
+              ? next()
+              : {
+                  status: 401,
+                  headers: new Headers({ 'WWW-Authenticate': 'ApiKey' }),
+                  body: 'Missing API key',
+                },
+        ],
+      }),
+    );
+
+    const rejected = await client.query('{ hello }', {
+      headers: { origin: 'https://example.com' },
+    });
+    const accepted = await client.query('{ hello }', {
+      headers: { 'x-api-key': 'secret' },
+    });
+
+    expect(rejected.status).toBe(401);
+    expect(rejected.text).toBe('Missing API key');
+    expect(rejected.headers.get('www-authenticate')).toBe('ApiKey');
+    expect(rejected.headers.get('access-control-allow-origin')).toBe('*');
+    expect(accepted.status).toBe(200);
+    expect(hello).toHaveBeenCalledTimes(1);
+  });
+
+  it('should post-process streamed responses', async () => {
+    const handler = startServerAndCreateHandler(server, {
+      subscriptions: true,
+      middleware: [
+        async (_, next) => {
+          const response = await next();
+          const body = response.body as AsyncIterable<Uint8Array>;
+          let chunks = 0;
+          return {
+            ...response,
+            headers: { ...response.headers, 'x-streamed': 'true' },
+            body: (async function* () {
+              for await (const chunk of body) {
+                chunks++;
+                yield chunk;
+              }
+              yield new TextEncoder().encode(`: ${chunks} chunks\n\n`);
+            })(),
+          };
+        },
+      ],
+    });
+
+    const response = (await handler(
+      createHttpRequest({
+        headers: { accept: 'text/event-stream' },
+        body: { query: 'subscription { countdown(from: 1) }' },
+      }),
+      createInvocationContext(),
+    )) as HttpResponseInit;
+    let text = '';
+    for await (const chunk of response.body as AsyncIterable<Uint8Array>) {
+      text += new TextDecoder().decode(chunk);
+    }
+
+    expect((response.headers as Record<string, string>)['x-streamed']).toBe(
+      'true',
+    );
+    expect(text).toContain('"countdown":1');
+    expect(text).toContain('"countdown":0');
+    expect(text).toMatch(/: \d+ chunks\n\n$/);
+  });
+
+  it('should handle errors thrown by middleware', async () => {
+    const client = createTestClient(
+      startServerAndCreateHandler(server, {
+        middleware: [
+          ({ request }, next) => {
+            if (request.headers.get('x-blocked')) {
+              throw new BadRequestError('Blocked');
+            }
+            return next();
+          },
+        ],
+      }),
+    );
+
+    await client.query('{ hello }');
+    const response = await client.query('{ hello }', {
+      headers: { 'x-blocked': 'true' },
+    });
+
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.text).errors[0].message).toBe('Blocked');
+  });
+
+  it('should reject calling next more than once', async () => {
+    const client = createTestClient(
+      startServerAndCreateHandler(server, {
+        middleware: [
+          async (_, next) => {
+            await next();
+            return next();
+          },
+        ],
+      }),
+    );
+
+    const response = await client.query('{ hello }');
+
+    expect(response.status).toBe(500);
+    expect(response.context.logs[0].args[1]).toMatchObject({
+      message: 'Middleware called next() more than once',
+    });
+  });
+});
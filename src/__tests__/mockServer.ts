@@ -2,11 +2,10 @@ import {
   HttpHandler,
   InvocationContext,
   type HttpMethod,
-  type HttpRequest,
 } from '@azure/functions';
 import type { IncomingMessage, Server, ServerResponse } from 'http';
 import type { AddressInfo } from 'net';
-import { ReadableStream } from 'stream/web';
+import { createHttpRequest } from '../testing';
 
 export function urlForHttpServer(httpServer: Server): string {
   const { address, port } = httpServer.address() as AddressInfo;
@@ -21,66 +20,27 @@ export function urlForHttpServer(httpServer: Server): string {
   return `http://${hostname}:${port}`;
 }
 
-function createHttpRequest(
-  method: HttpMethod,
-  url: string,
-  headers: Headers,
-  bodyContent: string,
-): HttpRequest {
-  const createRequest = (): HttpRequest => ({
-    method,
-    url,
-    headers,
-    body: new ReadableStream({
-      start(controller) {
-        controller.enqueue(new TextEncoder().encode(bodyContent));
-        controller.close();
-      },
-    }),
-    query: new URLSearchParams(new URL(url).search),
-    params: {},
-    user: null,
-    arrayBuffer: async () => {
-      return Buffer.from(bodyContent).buffer;
-    },
-    text: async () => {
-      return bodyContent;
-    },
-    json: async () => {
-      return JSON.parse(bodyContent);
-    },
-    blob: async () => {
-      throw new Error('Not implemented');
-    },
-    bodyUsed: false,
-    formData: async () => {
-      throw new Error('Not implemented');
-    },
-    clone: () => {
-      return createRequest();
-    },
-  });
-
-  return createRequest();
-}
-
 export const createMockServer = (handler: HttpHandler) => {
   return (req: IncomingMessage, res: ServerResponse) => {
     let body = '';
     req.on('data', (chunk) => (body += chunk));
 
     req.on('end', async () => {
-      const headers = new Headers();
+      const headers: Record<string, string> = {};
       for (const [key, value] of Object.entries(req.headers)) {
-        headers.set(key, value as string);
+        headers[key] = value as string;
       }
 
-      const azReq = createHttpRequest(
-        (req.method as HttpMethod) || null,
-        new URL(req.url || '', 'http://localhost').toString(),
+      const azReq = createHttpRequest({
+        method: req.method as HttpMethod,
+        url: new URL(req.url || '', 'http://localhost').toString(),
         headers,
-        body,
-      );
+        // Fetch-style requests can't carry a GET or HEAD body.
+        body:
+          req.method === 'GET' || req.method === 'HEAD'
+            ? undefined
+            : body || undefined,
+      });
 
       const context = new InvocationContext({
         invocationId: 'mock',
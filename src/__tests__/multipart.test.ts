@@ -0,0 +1,352 @@
+import { ApolloServer } from '@apollo/server';
+import { HttpRequest } from '@azure/functions';
+import { ReadableStream } from 'stream/web';
+import { startServerAndCreateHandler } from '..';
+import type { FileUpload, UploadOptions } from '..';
+import { createHttpRequest, createInvocationContext } from '../testing';
+
+const typeDefs = `#graphql
+  scalar Upload
+
+  type File {
+    filename: String!
+    mimetype: String!
+    content: String!
+  }
+
+  type Query {
+    hello: String
+  }
+
+  type Mutation {
+    upload(file: Upload!): File!
+    uploadMany(files: [Upload!]!): [File!]!
+  }
+`;
+
+async function readFile(upload: Promise<FileUpload>) {
+  const { filename, mimetype, createReadStream } = await upload;
+  const chunks: Buffer[] = [];
+  for await (const chunk of createReadStream()) {
+    chunks.push(chunk);
+  }
+  return { filename, mimetype, content: Buffer.concat(chunks).toString() };
+}
+
+const resolvers = {
+  Query: {
+    hello: () => 'world',
+  },
+  Mutation: {
+    upload: (_: unknown, { file }: { file: Promise<FileUpload> }) =>
+      readFile(file),
+    uploadMany: (_: unknown, { files }: { files: Promise<FileUpload>[] }) =>
+      Promise.all(files.map(readFile)),
+  },
+};
+
+const boundary = '----test-boundary';
+
+type Part =
+  | { name: string; value: string }
+  | { name: string; filename: string; type: string; value: string };
+
+function multipartBody(parts: Part[]): string {
+  return (
+    parts
+      .map((part) => {
+        const disposition =
+          'filename' in part
+            ? `form-data; name="${part.name}"; filename="${part.filename}"\r\nContent-Type: ${part.type}`
+            : `form-data; name="${part.name}"`;
+        return `--${boundary}\r\nContent-Disposition: ${disposition}\r\n\r\n${part.value}\r\n`;
+      })
+      .join('') + `--${boundary}--\r\n`
+  );
+}
+
+function createUploadRequest(body: string, chunkSize?: number): HttpRequest {
+  const req = createHttpRequest({
+    method: 'POST',
+    headers: {
+      'content-type': `multipart/form-data; boundary=${boundary}`,
+      'apollo-require-preflight': 'true',
+    },
+    body,
+  });
+  if (!chunkSize) {
+    return req;
+  }
+
+  // Deliver the body in small chunks so boundaries straddle chunk edges.
+  const bytes = new TextEncoder().encode(body);
+  Object.defineProperty(req, 'body', {
+    value: new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += chunkSize) {
+          controller.enqueue(bytes.subarray(i, i + chunkSize));
+        }
+        controller.close();
+      },
+    }),
+  });
+  return req;
+}
+
+const uploadOperation = JSON.stringify({
+  query:
+    'mutation ($file: Upload!) { upload(file: $file) { filename mimetype content } }',
+  variables: { file: null },
+});
+
+describe('Multipart uploads', () => {
+  let server: ApolloServer;
+
+  beforeEach(() => {
+    server = new ApolloServer({ typeDefs, resolvers });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  function createHandler(uploads: boolean | UploadOptions = true) {
+    return startServerAndCreateHandler(server, { uploads });
+  }
+
+  it.each([undefined, 1, 7])(
+    'should stream a file to the resolver (chunk size %s)',
+    async (chunkSize) => {
+      const body = multipartBody([
+        { name: 'operations', value: uploadOperation },
+        { name: 'map', value: JSON.stringify({ 0: ['variables.file'] }) },
+        {
+          name: '0',
+          filename: 'notes.txt',
+          type: 'text/plain',
+          value: 'hello\r\nworld',
+        },
+      ]);
+
+      const response = await createHandler()(
+        createUploadRequest(body, chunkSize),
+        createInvocationContext(),
+      );
+
+      expect(response.status).toBe(200);
+      expect(JSON.parse(response.body as string)).toEqual({
+        data: {
+          upload: {
+            filename: 'notes.txt',
+            mimetype: 'text/plain',
+            content: 'hello\r\nworld',
+          },
+        },
+      });
+    },
+  );
+
+  it('should support multiple files and list variables', async () => {
+    const body = multipartBody([
+      {
+        name: 'operations',
+        value: JSON.stringify({
+          query:
+            'mutation ($files: [Upload!]!) { uploadMany(files: $files) { filename content } }',
+          variables: { files: [null, null] },
+        }),
+      },
+      {
+        name: 'map',
+        value: JSON.stringify({
+          a: ['variables.files.0'],
+          b: ['variables.files.1'],
+        }),
+      },
+      { name: 'a', filename: 'a.txt', type: 'text/plain', value: 'first' },
+      { name: 'b', filename: 'b.txt', type: 'text/plain', value: 'second' },
+    ]);
+
+    const response = await createHandler()(
+      createUploadRequest(body),
+      createInvocationContext(),
+    );
+
+    expect(JSON.parse(response.body as string).data.uploadMany).toEqual([
+      { filename: 'a.txt', content: 'first' },
+      { filename: 'b.txt', content: 'second' },
+    ]);
+  });
+
+  it('should ignore multipart requests unless uploads are enabled', async () => {
+    const body = multipartBody([
+      { name: 'operations', value: uploadOperation },
+      { name: 'map', value: '{}' },
+    ]);
+    const handler = startServerAndCreateHandler(server);
+
+    const response = await handler(
+      createUploadRequest(body),
+      createInvocationContext(),
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.body).toContain('POST body missing');
+  });
+
+  it('should reject requests exceeding the file limit', async () => {
+    const body = multipartBody([
+      { name: 'operations', value: uploadOperation },
+      {
+        name: 'map',
+        value: JSON.stringify({ 0: ['variables.file'], 1: ['variables.file'] }),
+      },
+    ]);
+
+    const response = await createHandler({ maxFiles: 1 })(
+      createUploadRequest(body),
+      createInvocationContext(),
+    );
+
+    expect(response.status).toBe(413);
+    expect(response.body).toContain('file upload limit');
+  });
+
+  it('should limit the number of files by default', async () => {
+    const map = Object.fromEntries(
+      Array.from({ length: 11 }, (_, i) => [i, ['variables.file']]),
+    );
+    const body = multipartBody([
+      { name: 'operations', value: uploadOperation },
+      { name: 'map', value: JSON.stringify(map) },
+    ]);
+
+    const response = await createHandler()(
+      createUploadRequest(body),
+      createInvocationContext(),
+    );
+
+    expect(response.status).toBe(413);
+    expect(response.body).toContain('10 file upload limit');
+  });
+
+  it('should fail files exceeding the size limit', async () => {
+    const body = multipartBody([
+      { name: 'operations', value: uploadOperation },
+      { name: 'map', value: JSON.stringify({ 0: ['variables.file'] }) },
+      {
+        name: '0',
+        filename: 'big.txt',
+        type: 'text/plain',
+        value: 'x'.repeat(64),
+      },
+    ]);
+
+    const response = await createHandler({ maxFileSize: 16 })(
+      createUploadRequest(body),
+      createInvocationContext(),
+    );
+
+    const result = JSON.parse(response.body as string);
+    expect(result.errors[0].message).toContain('byte size limit');
+  });
+
+  it('should fail uploads missing from the request', async () => {
+    const body = multipartBody([
+      { name: 'operations', value: uploadOperation },
+      { name: 'map', value: JSON.stringify({ 0: ['variables.file'] }) },
+    ]);
+
+    const response = await createHandler()(
+      createUploadRequest(body),
+      createInvocationContext(),
+    );
+
+    const result = JSON.parse(response.body as string);
+    expect(result.errors[0].message).toBe('File missing in the request');
+  });
+
+  describe('malformed bodies', () => {
+    it.each([
+      [
+        'misordered fields',
+        multipartBody([
+          { name: 'map', value: '{}' },
+          { name: 'operations', value: uploadOperation },
+        ]),
+        'Misordered multipart fields',
+      ],
+      [
+        'invalid operations JSON',
+        multipartBody([
+          { name: 'operations', value: '{ nope' },
+          { name: 'map', value: '{}' },
+        ]),
+        'Invalid JSON in the "operations" multipart field',
+      ],
+      [
+        'invalid map paths',
+        multipartBody([
+          { name: 'operations', value: uploadOperation },
+          { name: 'map', value: JSON.stringify({ 0: ['variables.other'] }) },
+        ]),
+        'Invalid multipart map path',
+      ],
+      [
+        'truncated bodies',
+        `--${boundary}\r\nContent-Disposition: form-data; name="operations"\r\n\r\n{}`,
+        'Unexpected end of multipart body',
+      ],
+    ])('should reject %s with 400', async (_, body, message) => {
+      const response = await createHandler()(
+        createUploadRequest(body),
+        createInvocationContext(),
+      );
+
+      expect(response.status).toBe(400);
+      expect(JSON.parse(response.body as string).errors[0].message).toContain(
+        message,
+      );
+    });
+
+    it.each([
+      '__proto__.toString',
+      'constructor.prototype.toString',
+      'variables.file.__proto__',
+      'variables.constructor',
+    ])(
+      'should reject the map path %s without touching prototypes',
+      async (path) => {
+        const toString = Object.prototype.toString;
+        const body = multipartBody([
+          { name: 'operations', value: uploadOperation },
+          { name: 'map', value: JSON.stringify({ 0: [path] }) },
+        ]);
+
+        const response = await createHandler()(
+          createUploadRequest(body),
+          createInvocationContext(),
+        );
+
+        expect(response.status).toBe(400);
+        expect(Object.prototype.toString).toBe(toString);
+        expect(Object.prototype).not.toHaveProperty('0');
+      },
+    );
+
+    it('should reject a missing boundary with 400', async () => {
+      const req = createHttpRequest({
+        method: 'POST',
+        headers: { 'content-type': 'multipart/form-data' },
+        body: '',
+      });
+
+      const response = await createHandler()(req, createInvocationContext());
+
+      expect(response.status).toBe(400);
+      expect(JSON.parse(response.body as string).errors[0].message).toBe(
+        'Missing multipart boundary',
+      );
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { ApolloServer } from '@apollo/server';
+import { output } from '@azure/functions';
+import {
+  startServerAndCreateHandler,
+  type AzureFunctionsOutputs,
+  type OutputBinding,
+} from '..';
+import { createInvocationContext, createTestClient } from '../testing';
+
+interface Order {
+  id: string;
+}
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+  }
+  type Mutation {
+    placeOrder(id: String!, fail: Boolean): String
+    notify: Boolean
+  }
+`;
+
+const orders: OutputBinding<Order> = output.storageQueue({
+  queueName: 'orders',
+  connection: 'Storage',
+});
+const undeclared = output.storageQueue({
+  queueName: 'undeclared',
+  connection: 'Storage',
+});
+
+describe('output bindings', () => {
+  let server: ApolloServer<{ outputs: AzureFunctionsOutputs }>;
+
+  beforeEach(() => {
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: {
+        Query: { hello: () => 'world' },
+        Mutation: {
+          placeOrder: (_, { id, fail }, { outputs }) => {
+            outputs.push(orders, { id }, { id: `${id}-copy` });
+            if (fail) {
+              throw new Error('Payment declined');
+            }
+            return id;
+          },
+          notify: (_, __, { outputs }) => {
+            outputs.push(undeclared, 'hello');
+            return true;
+          },
+        },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  function createClient() {
+    return createTestClient(
+      startServerAndCreateHandler(server, {
+        context: async ({ outputs }) => ({ outputs }),
+      }),
+      {
+        createContext: () =>
+          createInvocationContext({ options: { extraOutputs: [orders] } }),
+      },
+    );
+  }
+
+  it('should write pushed values when the operation succeeds', async () => {
+    const response = await createClient().mutate(
+      'mutation { placeOrder(id: "1") }',
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.context.extraOutputs.get(orders)).toEqual([
+      { id: '1' },
+      { id: '1-copy' },
+    ]);
+  });
+
+  it('should keep values already set on the binding', async () => {
+    const client = createClient();
+    const context = createInvocationContext({
+      options: { extraOutputs: [orders] },
+    });
+    context.extraOutputs.set(orders, { id: 'existing' });
+
+    await client.execute(
+      {
+        method: 'POST',
+        headers: { accept: 'application/json' },
+        body: { query: 'mutation { placeOrder(id: "2") }' },
+      },
+      context,
+    );
+
+    expect(context.extraOutputs.get(orders)).toEqual([
+      { id: 'existing' },
+      { id: '2' },
+      { id: '2-copy' },
+    ]);
+  });
+
+  it('should discard pushed values when the operation fails', async () => {
+    const response = await createClient().mutate(
+      'mutation { placeOrder(id: "3", fail: true) }',
+    );
+
+    expect(response.body).toMatchObject({
+      singleResult: { errors: [{ message: 'Payment declined' }] },
+    });
+    expect(response.context.extraOutputs.get(orders)).toBeUndefined();
+  });
+
+  it('should reject bindings missing from extraOutputs', async () => {
+    const response = await createClient().mutate('mutation { notify }');
+
+    expect(response.body).toMatchObject({
+      singleResult: {
+        errors: [
+          {
+            message: `Output binding "${undeclared.name}" is not in the function's extraOutputs`,
+          },
+        ],
+      },
+    });
+    expect(response.context.extraOutputs.get(undeclared)).toBeUndefined();
+  });
+});
@@ -0,0 +1,197 @@
+import { ApolloServer } from '@apollo/server';
+import { startServerAndCreateHandler, type BodyParsers } from '..';
+import { createTestClient } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello(name: String): String
+  }
+`;
+
+describe('body parsers', () => {
+  let server: ApolloServer;
+
+  beforeEach(() => {
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: {
+        Query: { hello: (_, { name }) => `Hello ${name ?? 'world'}` },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  function createClient(bodyParsers?: BodyParsers) {
+    return createTestClient(
+      startServerAndCreateHandler(server, { bodyParsers }),
+    );
+  }
+
+  function post(
+    client: ReturnType<typeof createClient>,
+    contentType: string | undefined,
+    body: string | Uint8Array,
+  ) {
+    return client.execute({
+      method: 'POST',
+      headers: {
+        accept: 'application/json',
+        'apollo-require-preflight': 'true',
+        ...(contentType ? { 'content-type': contentType } : {}),
+      },
+      body,
+    });
+  }
+
+  it('should parse application/graphql bodies as the query', async () => {
+    const response = await post(
+      createClient(),
+      'application/graphql; charset=utf-8',
+      '{ hello }',
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      singleResult: { data: { hello: 'Hello world' } },
+    });
+  });
+
+  it('should parse application/graphql+json bodies', async () => {
+    const response = await post(
+      createClient(),
+      'application/graphql+json',
+      JSON.stringify({ query: '{ hello }' }),
+    );
+
+    expect(response.body).toMatchObject({
+      singleResult: { data: { hello: 'Hello world' } },
+    });
+  });
+
+  it('should parse form posts', async () => {
+    const response = await post(
+      createClient(),
+      'application/x-www-form-urlencoded',
+      new URLSearchParams({
+        query: 'query Hello($name: String) { hello(name: $name) }',
+        operationName: 'Hello',
+        variables: JSON.stringify({ name: 'form' }),
+      }).toString(),
+    );
+
+    expect(response.body).toMatchObject({
+      singleResult: { data: { hello: 'Hello form' } },
+    });
+  });
+
+  it('should apply CSRF prevention to form posts', async () => {
+    const response = await createClient().execute({
+      method: 'POST',
+      headers: {
+        accept: 'application/json',
+        'content-type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ query: '{ hello }' }).toString(),
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toContain('Cross-Site Request Forgery');
+  });
+
+  it('should reject form posts with invalid JSON fields', async () => {
+    const response = await post(
+      createClient(),
+      'application/x-www-form-urlencoded',
+      'query=%7B%20hello%20%7D&variables=%7B',
+    );
+
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.text).errors[0].message).toBe(
+      'Invalid JSON in form field `variables`',
+    );
+  });
+
+  it('should respond 415 to unsupported media types', async () => {
+    const client = createClient();
+    await client.query('{ hello }');
+
+    const unsupported = await post(client, 'application/xml', '<query/>');
+    // A string body would default to text/plain.
+    const missing = await post(
+      client,
+      undefined,
+      new TextEncoder().encode('{ hello }'),
+    );
+
+    expect(unsupported.status).toBe(415);
+    expect(JSON.parse(unsupported.text)).toEqual({
+      errors: [
+        {
+          message: 'Unsupported content-type: application/xml',
+          extensions: { code: 'UNSUPPORTED_MEDIA_TYPE' },
+        },
+      ],
+    });
+    expect(missing.status).toBe(415);
+    expect(JSON.parse(missing.text).errors[0].message).toBe(
+      'Missing content-type header',
+    );
+  });
+
+  it('should respond 415 to simple media types without CSRF prevention', async () => {
+    server = new ApolloServer({ typeDefs, csrfPrevention: false });
+    const client = createClient({ 'application/x-www-form-urlencoded': false });
+
+    const text = await post(client, 'text/plain', '{ hello }');
+    const form = await post(
+      client,
+      'application/x-www-form-urlencoded',
+      'query=%7B%20hello%20%7D',
+    );
+
+    expect(text.status).toBe(415);
+    expect(JSON.parse(text.text).errors[0].message).toBe(
+      'Unsupported content-type: text/plain',
+    );
+    expect(form.status).toBe(415);
+  });
+
+  it('should use custom parsers', async () => {
+    const client = createClient({
+      'Text/X-Hello': (body, req) => ({
+        query: `{ hello(name: ${JSON.stringify(
+          `${body} via ${req.method}`,
+        )}) }`,
+      }),
+      'application/graphql': false,
+    });
+
+    const response = await post(client, 'text/x-hello', 'custom');
+    const disabled = await post(client, 'application/graphql', '{ hello }');
+
+    expect(response.body).toMatchObject({
+      singleResult: { data: { hello: 'Hello custom via POST' } },
+    });
+    expect(disabled.status).toBe(415);
+  });
+
+  it('should respond 400 when a custom parser throws', async () => {
+    const response = await post(
+      createClient({
+        'application/yaml': () => {
+          throw new Error('Unexpected indentation');
+        },
+      }),
+      'application/yaml',
+      'query: {',
+    );
+
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.text).errors[0].message).toBe(
+      'Invalid request body: Unexpected indentation',
+    );
+  });
+});
@@ -0,0 +1,237 @@
+import { ApolloServer } from '@apollo/server';
+import {
+  startServerAndCreateHandler,
+  type ClientPrincipal,
+  type PrincipalOptions,
+} from '..';
+import { decodeClientPrincipal } from '../principal';
+import { createHttpRequest, createTestClient } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    me: String
+  }
+`;
+
+function encode(payload: unknown): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64');
+}
+
+const staticWebAppsHeaders = {
+  'x-ms-client-principal': encode({
+    identityProvider: 'github',
+    userId: 'd75b260a64504067bfc5b2905e3b8182',
+    userDetails: 'ada-lovelace',
+    userRoles: ['anonymous', 'authenticated', 'admin'],
+  }),
+};
+
+const easyAuthHeaders = {
+  'x-ms-client-principal': encode({
+    auth_typ: 'aad',
+    name_typ: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+    role_typ: 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role',
+    claims: [
+      {
+        typ: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+        val: 'ada@example.com',
+      },
+      {
+        typ: 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role',
+        val: 'Reader',
+      },
+      { typ: 'roles', val: 'Writer' },
+    ],
+  }),
+  'x-ms-client-principal-id': '6f8c4d51-0000-4000-8000-000000000000',
+  'x-ms-client-principal-idp': 'aad',
+};
+
+describe('decodeClientPrincipal', () => {
+  it('should decode a Static Web Apps principal', () => {
+    expect(
+      decodeClientPrincipal(
+        createHttpRequest({ headers: staticWebAppsHeaders }),
+      ),
+    ).toEqual({
+      identityProvider: 'github',
+      userId: 'd75b260a64504067bfc5b2905e3b8182',
+      userDetails: 'ada-lovelace',
+      claims: [],
+      roles: ['anonymous', 'authenticated', 'admin'],
+    });
+  });
+
+  it('should decode an Easy Auth principal', () => {
+    const principal = decodeClientPrincipal(
+      createHttpRequest({ headers: easyAuthHeaders }),
+    );
+
+    expect(principal).toMatchObject({
+      identityProvider: 'aad',
+      userId: '6f8c4d51-0000-4000-8000-000000000000',
+      userDetails: 'ada@example.com',
+      roles: ['Reader', 'Writer'],
+    });
+    expect(principal?.claims).toHaveLength(3);
+  });
+
+  it('should fall back to the id headers', () => {
+    expect(
+      decodeClientPrincipal(
+        createHttpRequest({
+          headers: {
+            'x-ms-client-principal-id': 'user-1',
+            'x-ms-client-principal-idp': 'aad',
+            'x-ms-client-principal-name': 'ada@example.com',
+          },
+        }),
+      ),
+    ).toEqual({
+      identityProvider: 'aad',
+      userId: 'user-1',
+      userDetails: 'ada@example.com',
+      claims: [],
+      roles: [],
+    });
+  });
+
+  it('should return undefined for anonymous requests', () => {
+    expect(decodeClientPrincipal(createHttpRequest())).toBeUndefined();
+  });
+});
+
+describe('principal option', () => {
+  let server: ApolloServer<{ principal?: ClientPrincipal }>;
+
+  beforeEach(() => {
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: {
+        Query: {
+          me: (_: unknown, __: unknown, { principal }) =>
+            principal
+              ? `${principal.identityProvider}:${principal.userId}`
+              : null,
+        },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  function createClient(principal: PrincipalOptions) {
+    return createTestClient(
+      startServerAndCreateHandler(server, {
+        principal,
+        context: async ({ principal }) => ({ principal }),
+      }),
+    );
+  }
+
+  it('should pass the principal to the context function', async () => {
+    const response = await createClient({ trustHeaders: true }).query(
+      '{ me }',
+      { headers: staticWebAppsHeaders },
+    );
+
+    expect(response.body).toEqual({
+      kind: 'single',
+      singleResult: {
+        data: { me: 'github:d75b260a64504067bfc5b2905e3b8182' },
+      },
+    });
+  });
+
+  it('should ignore principal headers unless trusted', async () => {
+    const client = createClient({ trustHeaders: false });
+
+    const response = await client.query('{ me }', {
+      headers: staticWebAppsHeaders,
+    });
+
+    expect(response.body).toEqual({
+      kind: 'single',
+      singleResult: { data: { me: null } },
+    });
+  });
+
+  it('should decide trust per request', async () => {
+    const client = createClient({
+      trustHeaders: (req) => req.headers.get('x-forwarded-host') === 'app.com',
+    });
+
+    const trusted = await client.query('{ me }', {
+      headers: { ...staticWebAppsHeaders, 'x-forwarded-host': 'app.com' },
+    });
+    const untrusted = await client.query('{ me }', {
+      headers: staticWebAppsHeaders,
+    });
+
+    expect(trusted.body).toEqual({
+      kind: 'single',
+      singleResult: {
+        data: { me: 'github:d75b260a64504067bfc5b2905e3b8182' },
+      },
+    });
+    expect(untrusted.body).toEqual({
+      kind: 'single',
+      singleResult: { data: { me: null } },
+    });
+  });
+
+  it('should reject anonymous requests when required', async () => {
+    const client = createClient({ trustHeaders: true, required: true });
+
+    const anonymous = await client.query('{ me }');
+    const spoofed = await createClient({
+      trustHeaders: false,
+      required: true,
+    }).query('{ me }', { headers: staticWebAppsHeaders });
+    const authenticated = await client.query('{ me }', {
+      headers: easyAuthHeaders,
+    });
+
+    expect(anonymous.status).toBe(401);
+    expect(JSON.parse(anonymous.text).errors).toEqual([
+      { message: 'Unauthorized', extensions: { code: 'UNAUTHENTICATED' } },
+    ]);
+    expect(spoofed.status).toBe(401);
+    expect(authenticated.status).toBe(200);
+  });
+
+  it('should reject principals without a required role', async () => {
+    const client = createClient({ trustHeaders: true, roles: ['admin'] });
+
+    const admin = await client.query('{ me }', {
+      headers: staticWebAppsHeaders,
+    });
+    const reader = await client.query('{ me }', { headers: easyAuthHeaders });
+    const anonymous = await client.query('{ me }');
+
+    expect(admin.status).toBe(200);
+    expect(reader.status).toBe(403);
+    expect(JSON.parse(reader.text).errors).toEqual([
+      { message: 'Forbidden', extensions: { code: 'FORBIDDEN' } },
+    ]);
+    expect(anonymous.status).toBe(401);
+  });
+
+  it('should reject malformed principal headers', async () => {
+    const response = await createClient({ trustHeaders: true }).query(
+      '{ me }',
+      {
+        headers: {
+          'x-ms-client-principal': Buffer.from('not json').toString('base64'),
+        },
+      },
+    );
+
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.text).errors[0].message).toBe(
+      'Invalid x-ms-client-principal header',
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import { ApolloServer, type ApolloServerPlugin } from '@apollo/server';
+import {
+  getRequestInfo,
+  startServerAndCreateHandler,
+  type AzureFunctionsContextFunctionArgument,
+  type AzureFunctionsRequestInfo,
+  type TrustedProxy,
+  type TrustedProxyOptions,
+} from '..';
+import { createTestClient } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+  }
+`;
+
+describe('request info', () => {
+  let server: ApolloServer;
+  let plugin: jest.Mock;
+
+  beforeEach(() => {
+    plugin = jest.fn();
+    const capture: ApolloServerPlugin = {
+      async requestDidStart({ request }) {
+        plugin(getRequestInfo(request.http));
+      },
+    };
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: { Query: { hello: () => 'world' } },
+      plugins: [capture],
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  async function resolve(
+    headers: Record<string, string>,
+    trustedProxy?: TrustedProxy | TrustedProxyOptions,
+  ) {
+    let argument: AzureFunctionsContextFunctionArgument | undefined;
+    const client = createTestClient(
+      startServerAndCreateHandler(server, {
+        trustedProxy,
+        context: async (arg) => {
+          argument = arg;
+          return {};
+        },
+      }),
+      { url: 'http://contoso.azurewebsites.net/api/acme/graphql?debug=1' },
+    );
+    await client.execute({
+      headers: { accept: 'application/json', ...headers },
+      body: { query: '{ hello }' },
+      params: { tenant: 'acme' },
+    });
+    return argument!;
+  }
+
+  const spoofed = {
+    'x-forwarded-for': '198.51.100.1, 203.0.113.7:51234',
+    'x-forwarded-host': 'evil.example.com',
+    'x-forwarded-proto': 'https',
+  };
+
+  it('should pass route params, query and request details', async () => {
+    const argument = await resolve(spoofed);
+
+    expect(argument.query.get('debug')).toBe('1');
+    expect(argument).toMatchObject({
+      params: { tenant: 'acme' },
+      clientIp: '203.0.113.7',
+      host: 'contoso.azurewebsites.net',
+      protocol: 'http',
+    });
+  });
+
+  it('should trust Front Door headers', async () => {
+    const frontDoor = {
+      ...spoofed,
+      'x-forwarded-for': '198.51.100.1, 192.0.2.10, 203.0.113.50:40000',
+      'x-azure-clientip': '192.0.2.10',
+      'x-azure-fdid': 'fd-123',
+      'x-forwarded-host': 'api.example.com',
+    };
+
+    const trusted = await resolve(frontDoor, {
+      proxy: 'front-door',
+      frontDoorId: 'fd-123',
+    });
+    const otherProfile = await resolve(frontDoor, {
+      proxy: 'front-door',
+      frontDoorId: 'fd-456',
+    });
+    const { 'x-azure-fdid': _, ...direct } = frontDoor;
+    const directHit = await resolve(direct, {
+      proxy: 'front-door',
+      frontDoorId: 'fd-123',
+    });
+
+    expect(trusted).toMatchObject({
+      clientIp: '192.0.2.10',
+      host: 'api.example.com',
+      protocol: 'https',
+    });
+    expect(otherProfile).toMatchObject({
+      clientIp: '203.0.113.50',
+      host: 'contoso.azurewebsites.net',
+    });
+    expect(directHit).toMatchObject({
+      clientIp: '203.0.113.50',
+      host: 'contoso.azurewebsites.net',
+    });
+  });
+
+  it('should trust Application Gateway headers', async () => {
+    const argument = await resolve(
+      {
+        'x-forwarded-for': '198.51.100.1, [2001:db8::1]:40000, 10.0.0.4:5000',
+        'x-original-host': 'api.example.com',
+        'x-forwarded-proto': 'https',
+      },
+      'app-gateway',
+    );
+
+    expect(argument).toMatchObject({
+      clientIp: '2001:db8::1',
+      host: 'api.example.com',
+      protocol: 'https',
+    });
+  });
+
+  it('should make request details available to plugins', async () => {
+    await resolve(spoofed);
+
+    expect(plugin).toHaveBeenCalledWith(
+      expect.objectContaining<Partial<AzureFunctionsRequestInfo>>({
+        clientIp: '203.0.113.7',
+        host: 'contoso.azurewebsites.net',
+      }),
+    );
+    expect(getRequestInfo(undefined)).toBeUndefined();
+  });
+});
+
+describe('trustedProxy', () => {
+  it('should require a Front Door id to trust Front Door', () => {
+    expect(() =>
+      startServerAndCreateHandler(new ApolloServer({ typeDefs }), {
+        trustedProxy: 'front-door',
+      }),
+    ).toThrow("The 'front-door' trusted proxy requires a frontDoorId");
+    expect(() =>
+      startServerAndCreateHandler(new ApolloServer({ typeDefs }), {
+        trustedProxy: { proxy: 'front-door' },
+      }),
+    ).toThrow("The 'front-door' trusted proxy requires a frontDoorId");
+  });
+});
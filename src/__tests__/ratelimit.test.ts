@@ -0,0 +1,282 @@
+import { ApolloServer } from '@apollo/server';
+import { createHash } from 'node:crypto';
+import {
+  InMemoryRateLimitStore,
+  startServerAndCreateHandler,
+  type AzureFunctionsMiddlewareOptions,
+  type RateLimitOptions,
+  type RateLimitStore,
+} from '..';
+import { createTestClient } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+  }
+  type Mutation {
+    touch: Boolean
+  }
+`;
+
+describe('rate limiting', () => {
+  let server: ApolloServer;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: {
+        Query: { hello: () => 'world' },
+        Mutation: { touch: () => true },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await server.stop();
+  });
+
+  function createClient(
+    rateLimit: RateLimitOptions,
+    options: AzureFunctionsMiddlewareOptions<object> = {},
+  ) {
+    return createTestClient(
+      startServerAndCreateHandler(server, { ...options, rateLimit }),
+      { headers: { 'x-forwarded-for': '203.0.113.7:51234' } },
+    );
+  }
+
+  it('should limit requests per fixed window', async () => {
+    const client = createClient({ limit: 2, window: 60_000 });
+
+    const first = await client.query('{ hello }');
+    await client.query('{ hello }');
+    now += 10_000;
+    const limited = await client.query('{ hello }', {
+      headers: { accept: 'application/json' },
+    });
+
+    expect(first.status).toBe(200);
+    expect(Object.fromEntries(first.headers)).toMatchObject({
+      'ratelimit-limit': '2',
+      'ratelimit-remaining': '1',
+      'ratelimit-reset': '60',
+      'ratelimit-policy': '2;w=60',
+    });
+    expect(first.headers.has('retry-after')).toBe(false);
+    expect(limited.status).toBe(429);
+    expect(Object.fromEntries(limited.headers)).toMatchObject({
+      'ratelimit-remaining': '0',
+      'ratelimit-reset': '50',
+      'retry-after': '50',
+    });
+    expect(JSON.parse(limited.text)).toEqual({
+      errors: [
+        {
+          message: 'Too many requests',
+          extensions: { code: 'TOO_MANY_REQUESTS' },
+        },
+      ],
+    });
+
+    now += 50_000;
+    expect((await client.query('{ hello }')).status).toBe(200);
+  });
+
+  it('should refill a token bucket', async () => {
+    const client = createClient({
+      limit: 2,
+      window: 2000,
+      algorithm: 'token-bucket',
+    });
+
+    await client.query('{ hello }');
+    await client.query('{ hello }');
+    const limited = await client.query('{ hello }');
+    now += 1000;
+    const refilled = await client.query('{ hello }');
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('1');
+    expect(refilled.status).toBe(200);
+    expect(refilled.headers.get('ratelimit-remaining')).toBe('0');
+  });
+
+  it('should limit each client separately', async () => {
+    const client = createClient({
+      limit: 1,
+      window: 60_000,
+      key: { header: 'x-api-key' },
+    });
+
+    const a = await client.query('{ hello }', {
+      headers: { 'x-api-key': 'a' },
+    });
+    const b = await client.query('{ hello }', {
+      headers: { 'x-api-key': 'b' },
+    });
+    const anonymous = await client.query('{ hello }');
+    const limited = await client.query('{ hello }', {
+      headers: { 'x-forwarded-for': '203.0.113.7:40000' },
+    });
+    const other = await client.query('{ hello }', {
+      headers: { 'x-forwarded-for': '[2001:db8::1]:40000' },
+    });
+
+    expect([a, b, anonymous, limited, other].map((r) => r.status)).toEqual([
+      200, 200, 200, 429, 200,
+    ]);
+  });
+
+  it('should limit by principal', async () => {
+    const client = createClient(
+      { limit: 1, window: 60_000, key: 'principal' },
+      { principal: { trustHeaders: true } },
+    );
+    const asUser = (userId: string) => ({
+      headers: {
+        'x-ms-client-principal-id': userId,
+        'x-ms-client-principal-idp': 'aad',
+      },
+    });
+
+    const first = await client.query('{ hello }', asUser('user-1'));
+    const second = await client.query('{ hello }', asUser('user-2'));
+    const limited = await client.query('{ hello }', asUser('user-1'));
+
+    expect([first, second, limited].map((r) => r.status)).toEqual([
+      200, 200, 429,
+    ]);
+  });
+
+  it('should weight operations', async () => {
+    const cost = jest.fn(({ type }) => (type === 'mutation' ? 2 : 1));
+    const client = createClient({ limit: 3, window: 60_000, cost });
+
+    const mutation = await client.mutate('mutation Touch { touch }');
+    const query = await client.query('{ hello }');
+    const limited = await client.query('{ hello }');
+
+    expect(cost).toHaveBeenCalledWith({ type: 'mutation', name: 'Touch' });
+    expect(mutation.headers.get('ratelimit-remaining')).toBe('1');
+    expect(query.status).toBe(200);
+    expect(limited.status).toBe(429);
+  });
+
+  it('should charge batched requests for each operation', async () => {
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: { Query: { hello: () => 'world' } },
+      allowBatchedHttpRequests: true,
+    });
+    const client = createClient({ limit: 4, window: 60_000 });
+    const batch = () =>
+      client.execute({
+        headers: { accept: 'application/json' },
+        body: [
+          { query: '{ hello }' },
+          { query: '{ hello }' },
+          { query: '{ hello }' },
+        ],
+      });
+
+    const first = await batch();
+    const limited = await batch();
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get('ratelimit-remaining')).toBe('1');
+    expect(limited.status).toBe(429);
+  });
+
+  it('should hash header keys', async () => {
+    const store: RateLimitStore = {
+      consume: jest.fn(async (_, __, { limit }) => ({
+        allowed: true,
+        limit,
+        remaining: limit - 1,
+        reset: 1000,
+      })),
+    };
+    const client = createClient({
+      limit: 5,
+      window: 1000,
+      key: { header: 'X-API-Key' },
+      store,
+    });
+
+    await client.query('{ hello }', { headers: { 'x-api-key': 'secret' } });
+
+    expect(store.consume).toHaveBeenCalledWith(
+      `x-api-key:${createHash('sha256').update('secret').digest('hex')}`,
+      1,
+      expect.anything(),
+    );
+  });
+
+  it('should pass the key, cost and policy to the store', async () => {
+    const store: RateLimitStore = {
+      consume: jest.fn(async (_, __, { limit }) => ({
+        allowed: true,
+        limit,
+        remaining: limit - 1,
+        reset: 1000,
+      })),
+    };
+    const client = createClient({
+      limit: 5,
+      window: 1000,
+      key: ({ req }) => req.headers.get('x-tenant'),
+      store,
+    });
+
+    await client.query('{ hello }', { headers: { 'x-tenant': 'tenant-a' } });
+
+    expect(store.consume).toHaveBeenCalledWith('tenant-a', 1, {
+      algorithm: 'fixed-window',
+      limit: 5,
+      window: 1000,
+    });
+  });
+
+  it('should allow requests when the store fails', async () => {
+    const client = createClient({
+      limit: 1,
+      window: 1000,
+      store: {
+        consume: async () => {
+          throw new Error('Connection refused');
+        },
+      },
+    });
+
+    const response = await client.query('{ hello }');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.has('ratelimit-limit')).toBe(false);
+    expect(response.context.logs).toContainEqual({
+      level: 'warning',
+      args: ['Failure checking the rate limit', expect.any(Error)],
+    });
+  });
+});
+
+describe('InMemoryRateLimitStore', () => {
+  it('should not count rejected requests in a fixed window', async () => {
+    const store = new InMemoryRateLimitStore();
+    const policy = {
+      algorithm: 'fixed-window' as const,
+      limit: 3,
+      window: 1000,
+    };
+
+    await store.consume('key', 2, policy);
+    const rejected = await store.consume('key', 2, policy);
+    const allowed = await store.consume('key', 1, policy);
+
+    expect(rejected).toMatchObject({ allowed: false, remaining: 1 });
+    expect(allowed).toMatchObject({ allowed: true, remaining: 0 });
+  });
+});
@@ -0,0 +1,247 @@
+import { ApolloServer } from '@apollo/server';
+import { app, type HttpResponseInit } from '@azure/functions';
+import {
+  createHealthHandler,
+  enableGracefulShutdown,
+  startServerAndCreateHandler,
+  startServerAndCreateMessageHandler,
+} from '..';
+import {
+  createHttpRequest,
+  createInvocationContext,
+  createTestClient,
+} from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+    slow: String
+  }
+`;
+
+type Hook = () => unknown;
+
+describe('enableGracefulShutdown', () => {
+  let server: ApolloServer;
+  let release: () => void;
+  let appStart: Hook;
+  let appTerminate: Hook;
+  let serverWillStop: jest.Mock;
+  let warn: jest.Mock;
+
+  beforeEach(() => {
+    serverWillStop = jest.fn();
+    warn = jest.fn();
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: {
+        Query: {
+          hello: () => 'world',
+          slow: () =>
+            new Promise<string>((resolve) => {
+              release = () => resolve('done');
+            }),
+        },
+      },
+      logger: { debug() {}, info() {}, warn, error() {} },
+      plugins: [
+        {
+          async serverWillStart() {
+            return { serverWillStop };
+          },
+        },
+      ],
+    });
+    jest.spyOn(app.hook, 'appStart').mockImplementation((handler) => {
+      appStart = handler as Hook;
+      return { dispose: jest.fn() } as never;
+    });
+    jest.spyOn(app.hook, 'appTerminate').mockImplementation((handler) => {
+      appTerminate = handler as Hook;
+      return { dispose: jest.fn() } as never;
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await server.stop();
+  });
+
+  it('should register app lifecycle hooks', () => {
+    const disposable = enableGracefulShutdown(server);
+    appStart();
+
+    expect(app.hook.appStart).toHaveBeenCalledTimes(1);
+    expect(app.hook.appTerminate).toHaveBeenCalledTimes(1);
+    disposable.dispose();
+    for (const spy of [app.hook.appStart, app.hook.appTerminate]) {
+      const hook = jest.mocked(spy).mock.results[0].value;
+      expect(hook.dispose).toHaveBeenCalled();
+    }
+  });
+
+  it('should wait for in-flight requests before stopping', async () => {
+    enableGracefulShutdown(server);
+    const client = createTestClient(startServerAndCreateHandler(server));
+    await client.query('{ hello }');
+
+    const inFlight = client.query('{ slow }');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const terminated = Promise.resolve(appTerminate());
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(serverWillStop).not.toHaveBeenCalled();
+    release();
+    const response = await inFlight;
+    await terminated;
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      singleResult: { data: { slow: 'done' } },
+    });
+    expect(serverWillStop).toHaveBeenCalledTimes(1);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should stop the server built by a factory', async () => {
+    const factory = jest.fn(async () => server);
+    enableGracefulShutdown(factory);
+    const client = createTestClient(startServerAndCreateHandler(factory));
+
+    appStart();
+    const response = await client.query('{ hello }');
+    await appTerminate();
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(response.status).toBe(200);
+    expect(serverWillStop).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject new requests while draining', async () => {
+    enableGracefulShutdown(server);
+    const handler = startServerAndCreateHandler(server);
+    const client = createTestClient(handler);
+    await client.query('{ hello }');
+    const inFlight = client.query('{ slow }');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const terminated = Promise.resolve(appTerminate());
+
+    const response = await client.query('{ hello }', {
+      headers: { accept: 'application/json' },
+    });
+    const health = (await createHealthHandler(server)(
+      createHttpRequest({ method: 'GET' }),
+      createInvocationContext(),
+    )) as HttpResponseInit;
+
+    expect(response.status).toBe(503);
+    expect(JSON.parse(response.text)).toEqual({
+      errors: [
+        {
+          message: 'Server is shutting down',
+          extensions: { code: 'SERVICE_UNAVAILABLE' },
+        },
+      ],
+    });
+    expect(health.status).toBe(503);
+    expect(JSON.parse(health.body as string).server).toBe('draining');
+    release();
+    await inFlight;
+    await terminated;
+  });
+
+  it('should stop after the drain timeout', async () => {
+    enableGracefulShutdown(server, { drainTimeout: 20 });
+    const client = createTestClient(startServerAndCreateHandler(server));
+    await client.query('{ hello }');
+    const inFlight = client.query('{ slow }');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await appTerminate();
+
+    expect(serverWillStop).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      'Stopped the server with 1 request(s) still in flight after 20 ms',
+    );
+    release();
+    await inFlight;
+  });
+
+  async function startStream() {
+    let finish!: () => void;
+    const finished = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    const handler = startServerAndCreateHandler(server, {
+      middleware: [
+        async () => ({
+          status: 200,
+          headers: { 'content-type': 'text/event-stream' },
+          body: (async function* () {
+            yield new TextEncoder().encode(': open\n\n');
+            await finished;
+            yield new TextEncoder().encode(': done\n\n');
+          })(),
+        }),
+      ],
+    });
+    await createTestClient(startServerAndCreateHandler(server)).query(
+      '{ hello }',
+    );
+    const response = (await handler(
+      createHttpRequest({ body: { query: '{ hello }' } }),
+      createInvocationContext(),
+    )) as HttpResponseInit;
+    const iterator = (response.body as AsyncIterable<Uint8Array>)[
+      Symbol.asyncIterator
+    ]();
+    await iterator.next();
+    return { iterator, finish };
+  }
+
+  it('should wait for streamed responses before stopping', async () => {
+    enableGracefulShutdown(server);
+    const { iterator, finish } = await startStream();
+
+    const terminated = Promise.resolve(appTerminate());
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(serverWillStop).not.toHaveBeenCalled();
+    finish();
+    expect(await iterator.next()).toMatchObject({ done: false });
+    expect(await iterator.next()).toMatchObject({ done: true });
+    await terminated;
+    expect(serverWillStop).toHaveBeenCalledTimes(1);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should stop once a streamed response is cancelled', async () => {
+    enableGracefulShutdown(server);
+    const { iterator } = await startStream();
+
+    const terminated = Promise.resolve(appTerminate());
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(serverWillStop).not.toHaveBeenCalled();
+    await iterator.return!();
+    await terminated;
+    expect(serverWillStop).toHaveBeenCalledTimes(1);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should leave queue messages on the queue while draining', async () => {
+    enableGracefulShutdown(server);
+    const handler = startServerAndCreateMessageHandler(server);
+    const client = createTestClient(startServerAndCreateHandler(server));
+    await client.query('{ hello }');
+    const inFlight = handler({ query: '{ slow }' }, createInvocationContext());
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const terminated = Promise.resolve(appTerminate());
+
+    await expect(
+      handler({ query: '{ hello }' }, createInvocationContext()),
+    ).rejects.toThrow('Server is shutting down');
+    release();
+    await expect(inFlight).resolves.toMatchObject({ data: { slow: 'done' } });
+    await terminated;
+  });
+});
@@ -0,0 +1,410 @@
+import { ApolloServer } from '@apollo/server';
+import { GraphQLError } from 'graphql';
+import { HttpResponse, type HttpResponseInit } from '@azure/functions';
+import {
+  InMemoryPubSub,
+  startServerAndCreateHandler,
+  type PubSubEngine,
+} from '..';
+import {
+  createHttpRequest,
+  createInvocationContext,
+  createTestClient,
+} from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+  }
+
+  type Mutation {
+    send(text: String!): String
+  }
+
+  type Subscription {
+    messageAdded: String
+    countdown(from: Int!): Int
+  }
+`;
+
+interface Context {
+  pubsub?: PubSubEngine;
+}
+
+let cleanedUp: boolean;
+
+const resolvers = {
+  Query: {
+    hello: () => 'world',
+  },
+  Mutation: {
+    send: async (
+      _: unknown,
+      { text }: { text: string },
+      { pubsub }: Context,
+    ) => {
+      await pubsub!.publish('MESSAGE_ADDED', { messageAdded: text });
+      return text;
+    },
+  },
+  Subscription: {
+    messageAdded: {
+      subscribe: (_: unknown, __: unknown, { pubsub }: Context) =>
+        pubsub!.subscribe('MESSAGE_ADDED'),
+    },
+    countdown: {
+      subscribe: async function* (_: unknown, { from }: { from: number }) {
+        try {
+          for (let i = from; i >= 0; i--) {
+            yield { countdown: i };
+          }
+        } finally {
+          cleanedUp = true;
+        }
+      },
+    },
+  },
+};
+
+const sseHeaders = { accept: 'text/event-stream' };
+
+function streamOf(response: HttpResponseInit | HttpResponse) {
+  const body = (response as HttpResponseInit).body as AsyncIterable<Uint8Array>;
+  const iterator = body[Symbol.asyncIterator]();
+  const decoder = new TextDecoder();
+  return {
+    async next(): Promise<string> {
+      const { value } = await iterator.next();
+      return decoder.decode(value);
+    },
+    close: () => iterator.return?.(),
+  };
+}
+
+describe('subscriptions over Server-Sent Events', () => {
+  let server: ApolloServer<Context>;
+
+  beforeEach(() => {
+    cleanedUp = false;
+    server = new ApolloServer({ typeDefs, resolvers });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should stream events published by mutations', async () => {
+    const handler = startServerAndCreateHandler(server, {
+      context: async ({ pubsub }) => ({ pubsub }),
+      subscriptions: { keepAliveInterval: 0 },
+    });
+
+    const response = await handler(
+      createHttpRequest({
+        headers: sseHeaders,
+        body: { query: 'subscription { messageAdded }' },
+      }),
+      createInvocationContext(),
+    );
+    const stream = streamOf(response);
+
+    expect(response).toMatchObject({
+      status: 200,
+      headers: {
+        'content-type': 'text/event-stream; charset=utf-8',
+        'cache-control': 'no-cache',
+      },
+    });
+    expect(await stream.next()).toBe(':\n\n');
+
+    const client = createTestClient(handler);
+    await client.mutate('mutation { send(text: "hi") }');
+    await client.mutate('mutation { send(text: "there") }');
+
+    expect(await stream.next()).toBe(
+      'event: next\ndata: {"data":{"messageAdded":"hi"}}\n\n',
+    );
+    expect(await stream.next()).toBe(
+      'event: next\ndata: {"data":{"messageAdded":"there"}}\n\n',
+    );
+    await stream.close();
+  });
+
+  it('should complete the stream when the subscription ends', async () => {
+    const handler = startServerAndCreateHandler(server, {
+      subscriptions: true,
+    });
+
+    const response = await handler(
+      createHttpRequest({
+        method: 'GET',
+        url: `http://localhost:7071/api/graphql?query=${encodeURIComponent(
+          'subscription ($from: Int!) { countdown(from: $from) }',
+        )}&variables=${encodeURIComponent('{"from":1}')}`,
+        headers: { ...sseHeaders, 'apollo-require-preflight': 'true' },
+      }),
+      createInvocationContext(),
+    );
+
+    expect(await new HttpResponse(response).text()).toBe(
+      ':\n\n' +
+        'event: next\ndata: {"data":{"countdown":1}}\n\n' +
+        'event: next\ndata: {"data":{"countdown":0}}\n\n' +
+        'event: complete\ndata:\n\n',
+    );
+    expect(cleanedUp).toBe(true);
+  });
+
+  it('should stop the subscription when the client disconnects', async () => {
+    const handler = startServerAndCreateHandler(server, {
+      subscriptions: true,
+    });
+
+    const stream = streamOf(
+      await handler(
+        createHttpRequest({
+          headers: sseHeaders,
+          body: { query: 'subscription { countdown(from: 100) }' },
+        }),
+        createInvocationContext(),
+      ),
+    );
+    await stream.next();
+    await stream.next();
+    await stream.close();
+
+    expect(cleanedUp).toBe(true);
+  });
+
+  it('should send keep-alive comments while idle', async () => {
+    const handler = startServerAndCreateHandler(server, {
+      context: async ({ pubsub }) => ({ pubsub }),
+      subscriptions: { keepAliveInterval: 10 },
+    });
+
+    const stream = streamOf(
+      await handler(
+        createHttpRequest({
+          headers: sseHeaders,
+          body: { query: 'subscription { messageAdded }' },
+        }),
+        createInvocationContext(),
+      ),
+    );
+
+    expect(await stream.next()).toBe(':\n\n');
+    expect(await stream.next()).toBe(':\n\n');
+    await stream.close();
+  });
+
+  it('should stream query results as a single event', async () => {
+    const client = createTestClient(
+      startServerAndCreateHandler(server, { subscriptions: true }),
+    );
+
+    const response = await client.execute({
+      headers: sseHeaders,
+      body: { query: '{ hello }' },
+    });
+
+    expect(response.text).toBe(
+      ':\n\n' +
+        'event: next\ndata: {"data":{"hello":"world"}}\n\n' +
+        'event: complete\ndata:\n\n',
+    );
+  });
+
+  it('should reject invalid operations before streaming', async () => {
+    const client = createTestClient(
+      startServerAndCreateHandler(server, { subscriptions: true }),
+    );
+
+    const invalid = await client.execute({
+      headers: sseHeaders,
+      body: { query: 'subscription { unknown }' },
+    });
+    const mutationOverGet = await client.execute({
+      method: 'GET',
+      url: `http://localhost:7071/api/graphql?query=${encodeURIComponent(
+        'mutation { send(text: "hi") }',
+      )}`,
+      headers: { ...sseHeaders, 'apollo-require-preflight': 'true' },
+    });
+
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toMatchObject({
+      singleResult: {
+        errors: [
+          {
+            message: 'Cannot query field "unknown" on type "Subscription".',
+          },
+        ],
+      },
+    });
+    expect(mutationOverGet.status).toBe(405);
+  });
+
+  it('should apply CSRF prevention', async () => {
+    const subscribed = jest.fn();
+    const client = createTestClient(
+      startServerAndCreateHandler(server, {
+        context: async () => {
+          subscribed();
+          return {};
+        },
+        subscriptions: true,
+      }),
+    );
+
+    const simple = await client.execute({
+      headers: { ...sseHeaders, 'content-type': 'text/plain' },
+      body: JSON.stringify({ query: '{ hello }' }),
+    });
+    const form = await client.execute({
+      headers: {
+        ...sseHeaders,
+        'content-type': 'application/x-www-form-urlencoded',
+      },
+      body: `query=${encodeURIComponent('mutation { send(text: "hi") }')}`,
+    });
+    const get = await client.execute({
+      method: 'GET',
+      url: `http://localhost:7071/api/graphql?query=${encodeURIComponent(
+        'subscription { countdown(from: 1) }',
+      )}`,
+      headers: sseHeaders,
+    });
+
+    for (const response of [simple, form, get]) {
+      expect(response.status).toBe(400);
+      expect(response.text).toContain('Cross-Site Request Forgery');
+    }
+    expect(subscribed).not.toHaveBeenCalled();
+  });
+
+  it('should run plugins and format errors', async () => {
+    const requestDidStart = jest.fn();
+    server = new ApolloServer<Context>({
+      typeDefs,
+      resolvers: {
+        ...resolvers,
+        Query: {
+          hello: () => {
+            throw new Error('Database password is hunter2');
+          },
+        },
+        Subscription: {
+          ...resolvers.Subscription,
+          messageAdded: {
+            subscribe: async function* () {
+              yield { messageAdded: 'hi' };
+              yield { messageAdded: 'secret' };
+            },
+            resolve: ({ messageAdded }: { messageAdded: string }) => {
+              if (messageAdded === 'secret') {
+                throw new Error('Database password is hunter2');
+              }
+              throw new GraphQLError('Not allowed', {
+                extensions: { http: { status: 403 } },
+              });
+            },
+          },
+        },
+      },
+      formatError: (formattedError) =>
+        formattedError.message.startsWith('Database')
+          ? { message: 'Internal server error' }
+          : formattedError,
+      plugins: [{ requestDidStart }],
+    });
+    const client = createTestClient(
+      startServerAndCreateHandler(server, { subscriptions: true }),
+    );
+
+    const query = await client.execute({
+      headers: sseHeaders,
+      body: { query: '{ hello }' },
+    });
+    const subscription = await client.execute({
+      headers: sseHeaders,
+      body: { query: 'subscription { messageAdded }' },
+    });
+
+    expect(requestDidStart).toHaveBeenCalledTimes(2);
+    expect(query.text).toContain(
+      'data: {"errors":[{"message":"Internal server error"}],"data":{"hello":null}}',
+    );
+    expect(subscription.text).toContain(
+      'data: {"errors":[{"message":"Not allowed","locations":[{"line":1,"column":16}],"path":["messageAdded"],"extensions":{"code":"INTERNAL_SERVER_ERROR"}}],"data":{"messageAdded":null}}',
+    );
+    expect(subscription.text).toContain(
+      'data: {"errors":[{"message":"Internal server error"}],"data":{"messageAdded":null}}',
+    );
+    expect(subscription.text).not.toContain('hunter2');
+  });
+
+  it('should leave other requests to Apollo Server', async () => {
+    const client = createTestClient(
+      startServerAndCreateHandler(server, { subscriptions: true }),
+    );
+
+    const response = await client.query('{ hello }');
+
+    expect(response.headers.get('content-type')).toMatch(/json/);
+    expect(response.body).toEqual({
+      kind: 'single',
+      singleResult: { data: { hello: 'world' } },
+    });
+  });
+
+  it('should use a custom pub/sub engine', async () => {
+    const pubsub = new InMemoryPubSub();
+    const publish = jest.spyOn(pubsub, 'publish');
+    const client = createTestClient(
+      startServerAndCreateHandler(server, {
+        context: async ({ pubsub }) => ({ pubsub }),
+        subscriptions: { pubsub },
+      }),
+    );
+
+    await client.mutate('mutation { send(text: "hi") }');
+
+    expect(publish).toHaveBeenCalledWith('MESSAGE_ADDED', {
+      messageAdded: 'hi',
+    });
+  });
+});
+
+describe('subscriptions on a started server', () => {
+  it('should require subscriptions to be enabled before the server starts', async () => {
+    const server = new ApolloServer({ typeDefs, resolvers });
+    const handler = startServerAndCreateHandler(server);
+    await createTestClient(handler).query('{ hello }');
+
+    expect(() =>
+      startServerAndCreateHandler(server, { subscriptions: true }),
+    ).toThrow(
+      'Subscriptions must be enabled before the ApolloServer is started',
+    );
+
+    await server.stop();
+  });
+});
+
+describe('InMemoryPubSub', () => {
+  it('should deliver events to subscribers of any of their topics', async () => {
+    const pubsub = new InMemoryPubSub();
+    const events = pubsub.subscribe<number>(['a', 'b']);
+
+    await pubsub.publish('a', 1);
+    await pubsub.publish('c', 2);
+    await pubsub.publish('b', 3);
+
+    expect(await events.next()).toEqual({ value: 1, done: false });
+    expect(await events.next()).toEqual({ value: 3, done: false });
+
+    const pending = events.next();
+    await events.return!();
+    expect(await pending).toEqual({ value: undefined, done: true });
+  });
+});
@@ -0,0 +1,199 @@
+import { ApolloServer } from '@apollo/server';
+import { createTenantRouter, type TenantRouterOptions } from '..';
+import { createTestClient } from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    tenant: String
+  }
+`;
+
+interface TenantContext {
+  tenant: string;
+}
+
+describe('createTenantRouter', () => {
+  let servers: ApolloServer<TenantContext>[];
+
+  beforeEach(() => {
+    servers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(
+      servers.map((server) => server.stop().catch(() => undefined)),
+    );
+  });
+
+  function createServer(serverWillStop?: () => Promise<void>) {
+    const server = new ApolloServer<TenantContext>({
+      typeDefs,
+      resolvers: {
+        Query: { tenant: (_, __, { tenant }) => tenant },
+      },
+      plugins: serverWillStop
+        ? [
+            {
+              async serverWillStart() {
+                return { serverWillStop };
+              },
+            },
+          ]
+        : [],
+    });
+    servers.push(server);
+    return server;
+  }
+
+  function createRouter(
+    options: Partial<TenantRouterOptions<TenantContext>> = {},
+  ) {
+    return createTestClient(
+      createTenantRouter({
+        tenants: {
+          'tenant-a': {
+            server: createServer(),
+            options: { context: async () => ({ tenant: 'a' }) },
+          },
+          'tenant-b': {
+            server: createServer(),
+            options: { context: async () => ({ tenant: 'b' }) },
+          },
+        },
+        ...options,
+      }),
+    );
+  }
+
+  it('should route by route parameter', async () => {
+    const client = createRouter();
+
+    const [a, b] = await Promise.all(
+      ['tenant-a', 'tenant-b'].map((tenant) =>
+        client.execute({
+          body: { query: '{ tenant }' },
+          params: { tenant },
+        }),
+      ),
+    );
+
+    expect(a.body).toMatchObject({ singleResult: { data: { tenant: 'a' } } });
+    expect(b.body).toMatchObject({ singleResult: { data: { tenant: 'b' } } });
+  });
+
+  it('should route by header', async () => {
+    const client = createRouter({ tenantKey: { header: 'x-tenant-id' } });
+
+    const response = await client.query('{ tenant }', {
+      headers: { 'x-tenant-id': 'tenant-b' },
+    });
+
+    expect(response.body).toMatchObject({
+      singleResult: { data: { tenant: 'b' } },
+    });
+  });
+
+  it('should route by host name', async () => {
+    const client = createTestClient(
+      createTenantRouter({
+        tenantKey: 'host',
+        tenants: {
+          'a.example.com': {
+            server: createServer(),
+            options: { context: async () => ({ tenant: 'a' }) },
+          },
+        },
+      }),
+      { url: 'https://a.example.com:8443/api/graphql' },
+    );
+
+    const response = await client.query('{ tenant }');
+
+    expect(response.body).toMatchObject({
+      singleResult: { data: { tenant: 'a' } },
+    });
+  });
+
+  it('should route with a function', async () => {
+    const client = createRouter({
+      tenantKey: (req) => new URL(req.url).searchParams.get('t'),
+    });
+
+    const response = await client.execute({
+      url: 'http://localhost:7071/api/graphql?t=tenant-a',
+      body: { query: '{ tenant }' },
+    });
+
+    expect(response.body).toMatchObject({
+      singleResult: { data: { tenant: 'a' } },
+    });
+  });
+
+  it('should respond 404 to unknown tenants', async () => {
+    const client = createRouter();
+
+    const unknown = await client.execute({
+      body: { query: '{ tenant }' },
+      params: { tenant: 'tenant-z' },
+      headers: { accept: 'application/json' },
+    });
+    const missing = await client.execute({ body: { query: '{ tenant }' } });
+
+    expect(unknown.status).toBe(404);
+    expect(JSON.parse(unknown.text)).toEqual({
+      errors: [
+        { message: 'Unknown tenant', extensions: { code: 'NOT_FOUND' } },
+      ],
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it('should evict the least recently used lazy tenant', async () => {
+    const stopped: string[] = [];
+    const createFactory = (tenant: string) =>
+      jest.fn(async () =>
+        createServer(async () => {
+          stopped.push(tenant);
+        }),
+      );
+    const factories = {
+      'tenant-a': createFactory('a'),
+      'tenant-b': createFactory('b'),
+      'tenant-c': createFactory('c'),
+    };
+    const client = createTestClient(
+      createTenantRouter({
+        maxLoadedTenants: 2,
+        tenants: Object.fromEntries(
+          Object.entries(factories).map(([key, server]) => [
+            key,
+            {
+              server,
+              options: { context: async () => ({ tenant: key }) },
+            },
+          ]),
+        ),
+      }),
+    );
+    const query = (tenant: string) =>
+      client.execute({ body: { query: '{ tenant }' }, params: { tenant } });
+
+    await query('tenant-a');
+    await query('tenant-b');
+    await query('tenant-a');
+    const response = await query('tenant-c');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(response.body).toMatchObject({
+      singleResult: { data: { tenant: 'tenant-c' } },
+    });
+    expect(stopped).toEqual(['b']);
+
+    await query('tenant-b');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(factories['tenant-b']).toHaveBeenCalledTimes(2);
+    expect(factories['tenant-a']).toHaveBeenCalledTimes(1);
+    expect(stopped).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,228 @@
+import { ApolloServer } from '@apollo/server';
+import type { HttpHandler } from '@azure/functions';
+import { startServerAndCreateHandler } from '..';
+import {
+  createHttpRequest,
+  createInvocationContext,
+  createTestClient,
+} from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello(name: String): String
+    whoami: String
+  }
+
+  type Mutation {
+    increment(by: Int!): Int
+  }
+`;
+
+describe('testing', () => {
+  describe('createHttpRequest', () => {
+    it('should create a GET request by default', () => {
+      const req = createHttpRequest();
+
+      expect(req.method).toBe('GET');
+      expect(req.url).toBe('http://localhost:7071/api/graphql');
+      expect(req.body).toBeNull();
+    });
+
+    it('should serialize object bodies as JSON', async () => {
+      const req = createHttpRequest({ body: { query: '{ hello }' } });
+
+      expect(req.method).toBe('POST');
+      expect(req.headers.get('content-type')).toBe('application/json');
+      expect(await req.json()).toEqual({ query: '{ hello }' });
+    });
+
+    it('should support clone() with an unconsumed body', async () => {
+      const req = createHttpRequest({ body: 'raw', params: { tenant: 'a' } });
+      const clone = req.clone();
+
+      expect(await req.text()).toBe('raw');
+      expect(req.bodyUsed).toBe(true);
+      expect(await clone.text()).toBe('raw');
+      expect(clone.params).toEqual({ tenant: 'a' });
+    });
+
+    it('should parse the query string', () => {
+      const req = createHttpRequest({
+        url: 'http://localhost:7071/api/graphql?query=%7Bhello%7D',
+      });
+
+      expect(req.query.get('query')).toBe('{hello}');
+    });
+  });
+
+  describe('createInvocationContext', () => {
+    it('should capture log calls', () => {
+      const context = createInvocationContext({ invocationId: 'abc' });
+
+      context.log('one', 1);
+      context.warn('two');
+      context.error(new Error('three'));
+
+      expect(context.invocationId).toBe('abc');
+      expect(context.logs.map(({ level }) => level)).toEqual([
+        'information',
+        'warning',
+        'error',
+      ]);
+      expect(context.logs[0].args).toEqual(['one', 1]);
+    });
+  });
+
+  describe('createTestClient', () => {
+    let server: ApolloServer<{ user?: string }>;
+    let count: number;
+
+    beforeEach(() => {
+      count = 0;
+      server = new ApolloServer({
+        typeDefs,
+        resolvers: {
+          Query: {
+            hello: (_: unknown, { name }: { name?: string }) =>
+              `Hello, ${name ?? 'world'}!`,
+            whoami: (_: unknown, __: unknown, { user }: { user?: string }) =>
+              user,
+          },
+          Mutation: {
+            increment: (_: unknown, { by }: { by: number }) => (count += by),
+          },
+        },
+      });
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('should run queries through the handler and context function', async () => {
+      const client = createTestClient(
+        startServerAndCreateHandler(server, {
+          context: async ({ req, context }) => {
+            context.log('creating context');
+            return { user: req.headers.get('x-user') ?? undefined };
+          },
+        }),
+        { headers: { 'x-user': 'alice' } },
+      );
+
+      const response = await client.query<{ whoami: string }>('{ whoami }');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        kind: 'single',
+        singleResult: { data: { whoami: 'alice' } },
+      });
+      expect(response.context.logs[0].args).toEqual(['creating context']);
+    });
+
+    it('should send variables with GET queries', async () => {
+      const client = createTestClient(startServerAndCreateHandler(server));
+
+      const response = await client.query(
+        'query Hello($name: String) { hello(name: $name) }',
+        {
+          method: 'GET',
+          variables: { name: 'Azure' },
+          operationName: 'Hello',
+        },
+      );
+
+      expect(response.body).toEqual({
+        kind: 'single',
+        singleResult: { data: { hello: 'Hello, Azure!' } },
+      });
+    });
+
+    it('should run mutations', async () => {
+      const client = createTestClient(startServerAndCreateHandler(server));
+
+      await client.mutate('mutation { increment(by: 2) }');
+      const response = await client.mutate(
+        'mutation ($by: Int!) { increment(by: $by) }',
+        { variables: { by: 3 } },
+      );
+
+      expect(response.body).toEqual({
+        kind: 'single',
+        singleResult: { data: { increment: 5 } },
+      });
+    });
+
+    it('should decode request errors', async () => {
+      const client = createTestClient(startServerAndCreateHandler(server));
+
+      const response = await client.execute({
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: '{ invalid json',
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        kind: 'single',
+        singleResult: {
+          errors: [
+            expect.objectContaining({
+              message: expect.stringContaining('Invalid JSON'),
+            }),
+          ],
+        },
+      });
+    });
+  });
+
+  describe('createTestClient with non-GraphQL responses', () => {
+    it('should expose non-GraphQL responses as text', async () => {
+      const client = createTestClient(async () => ({
+        status: 503,
+        body: 'Service Unavailable',
+      }));
+
+      const response = await client.query('{ hello }');
+
+      expect(response.status).toBe(503);
+      expect(response.body).toBeUndefined();
+      expect(response.text).toBe('Service Unavailable');
+    });
+  });
+
+  describe('createTestClient with chunked responses', () => {
+    it('should decode incremental delivery payloads', async () => {
+      const encoder = new TextEncoder();
+      const handler: HttpHandler = async () => ({
+        status: 200,
+        headers: {
+          'content-type': 'multipart/mixed; boundary="-"; deferSpec=20220824',
+        },
+        body: (async function* () {
+          yield encoder.encode(
+            '\r\n---\r\ncontent-type: application/json; charset=utf-8\r\n\r\n{"data":{"hello":"world"},"hasNext":true}',
+          );
+          yield encoder.encode(
+            '\r\n---\r\ncontent-type: application/json; charset=utf-8\r\n\r\n{"incremental":[{"data":{"slow":"---"},"path":[]}],"hasNext":false}\r\n-----\r\n',
+          );
+        })(),
+      });
+
+      const response = await createTestClient(handler).query(
+        '{ hello ... @defer { slow } }',
+      );
+
+      expect(response.body).toEqual({
+        kind: 'incremental',
+        initialResult: { data: { hello: 'world' }, hasNext: true },
+        subsequentResults: [
+          {
+            incremental: [{ data: { slow: '---' }, path: [] }],
+            hasNext: false,
+          },
+        ],
+      });
+    });
+  });
+});
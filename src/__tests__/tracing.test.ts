@@ -0,0 +1,262 @@
+import { ApolloServer } from '@apollo/server';
+import * as api from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from '@opentelemetry/sdk-trace-base';
+import { startServerAndCreateHandler, type TracingOptions } from '..';
+import { parseTraceParent } from '../tracing';
+import { createInvocationContext, createTestClient } from '../testing';
+
+const typeDefs = `#graphql
+  type Author {
+    name: String
+  }
+  type Book {
+    title: String
+    author: Author
+  }
+  type Query {
+    books: [Book]
+    broken: String
+  }
+`;
+
+const resolvers = {
+  Query: {
+    books: () => [{ title: 'Dune', author: { name: 'Frank Herbert' } }],
+    broken: () => {
+      throw new Error('Resolver failed');
+    },
+  },
+};
+
+const TRACE_ID = '0af7651916cd43dd8448eb211c80319c';
+const PARENT_SPAN_ID = 'b7ad6b7169203331';
+
+describe('tracing', () => {
+  let server: ApolloServer;
+  let exporter: InMemorySpanExporter;
+  let tracerProvider: BasicTracerProvider;
+
+  beforeEach(() => {
+    server = new ApolloServer({ typeDefs, resolvers });
+    exporter = new InMemorySpanExporter();
+    tracerProvider = new BasicTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)],
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await tracerProvider.shutdown();
+  });
+
+  function createClient(
+    options: Partial<TracingOptions> = {},
+    createContext = () => createInvocationContext(),
+  ) {
+    return createTestClient(
+      startServerAndCreateHandler(server, {
+        tracing: { tracerProvider, ...options },
+      }),
+      { createContext },
+    );
+  }
+
+  function findSpan(name: string, path?: string): ReadableSpan {
+    const span = exporter
+      .getFinishedSpans()
+      .find(
+        (span) =>
+          span.name === name &&
+          (path === undefined ||
+            span.attributes['graphql.field.path'] === path),
+      );
+    if (!span) {
+      throw new Error(`No span named ${name} ${path ?? ''}`);
+    }
+    return span;
+  }
+
+  function parentOf(span: ReadableSpan): string | undefined {
+    return span.parentSpanContext?.spanId;
+  }
+
+  it('should create a request span with a child span per phase', async () => {
+    await createClient().query(
+      'query Library { books { title author { name } } }',
+    );
+
+    const request = findSpan('query Library');
+    expect(request.kind).toBe(api.SpanKind.SERVER);
+    expect(request.attributes).toMatchObject({
+      'faas.trigger': 'http',
+      'faas.invocation_id': 'test-invocation',
+      'http.request.method': 'POST',
+      'http.response.status_code': 200,
+      'graphql.operation.type': 'query',
+      'graphql.operation.name': 'Library',
+    });
+    expect(parentOf(request)).toBeUndefined();
+
+    const requestId = request.spanContext().spanId;
+    for (const phase of ['graphql.parse', 'graphql.validate']) {
+      expect(parentOf(findSpan(phase))).toBe(requestId);
+    }
+    const execute = findSpan('graphql.execute');
+    expect(parentOf(execute)).toBe(requestId);
+
+    const books = findSpan('graphql.resolve', 'books');
+    expect(books.attributes).toMatchObject({
+      'graphql.field.name': 'books',
+      'graphql.field.type': '[Book]',
+      'graphql.parent.type': 'Query',
+    });
+    expect(parentOf(books)).toBe(execute.spanContext().spanId);
+    const author = findSpan('graphql.resolve', 'books.0.author');
+    expect(parentOf(author)).toBe(books.spanContext().spanId);
+    expect(parentOf(findSpan('graphql.resolve', 'books.0.author.name'))).toBe(
+      author.spanContext().spanId,
+    );
+  });
+
+  it('should parent the request span from the invocation trace context', async () => {
+    await createClient({}, () =>
+      createInvocationContext({
+        traceContext: {
+          traceParent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`,
+          traceState: 'vendor=value',
+        },
+      }),
+    ).query('{ books { title } }', {
+      headers: { traceparent: `00-${'1'.repeat(32)}-${'2'.repeat(16)}-01` },
+    });
+
+    const request = findSpan('query');
+    expect(request.spanContext().traceId).toBe(TRACE_ID);
+    expect(parentOf(request)).toBe(PARENT_SPAN_ID);
+    expect(request.spanContext().traceState?.get('vendor')).toBe('value');
+    expect(findSpan('graphql.execute').spanContext().traceId).toBe(TRACE_ID);
+  });
+
+  it('should parent the request span from the traceparent header', async () => {
+    await createClient().query('{ books { title } }', {
+      headers: { traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01` },
+    });
+
+    const request = findSpan('query');
+    expect(request.spanContext().traceId).toBe(TRACE_ID);
+    expect(parentOf(request)).toBe(PARENT_SPAN_ID);
+  });
+
+  it('should record resolver errors', async () => {
+    await createClient().query('query Broken { broken }');
+
+    const resolver = findSpan('graphql.resolve', 'broken');
+    expect(resolver.status).toEqual({
+      code: api.SpanStatusCode.ERROR,
+      message: 'Resolver failed',
+    });
+    expect(resolver.events[0]).toMatchObject({
+      name: 'exception',
+      attributes: { 'exception.message': 'Resolver failed' },
+    });
+
+    const request = findSpan('query Broken');
+    expect(request.status.code).toBe(api.SpanStatusCode.ERROR);
+    expect(request.attributes['graphql.errors.count']).toBe(1);
+  });
+
+  it('should record validation errors', async () => {
+    const response = await createClient().query('{ missing }');
+
+    expect(response.status).toBe(400);
+    expect(findSpan('graphql.validate').status.code).toBe(
+      api.SpanStatusCode.ERROR,
+    );
+    expect(findSpan('GraphQL Operation').attributes).toMatchObject({
+      'http.response.status_code': 400,
+      'graphql.errors.count': 1,
+    });
+  });
+
+  it('should skip resolver spans when disabled', async () => {
+    await createClient({ resolverSpans: false }).query('{ books { title } }');
+
+    expect(findSpan('graphql.execute')).toBeDefined();
+    expect(
+      exporter.getFinishedSpans().filter((s) => s.name === 'graphql.resolve'),
+    ).toHaveLength(0);
+  });
+
+  it('should make the request span active for downstream calls', async () => {
+    let activeSpanId: string | undefined;
+    const contextManager = new (class implements api.ContextManager {
+      private current = api.ROOT_CONTEXT;
+      active() {
+        return this.current;
+      }
+      with<A extends unknown[], F extends (...args: A) => ReturnType<F>>(
+        context: api.Context,
+        fn: F,
+        thisArg?: ThisParameterType<F>,
+        ...args: A
+      ): ReturnType<F> {
+        const previous = this.current;
+        this.current = context;
+        try {
+          // The first context entered is the handler's.
+          activeSpanId ??= api.trace.getSpan(context)?.spanContext().spanId;
+          return fn.call(thisArg, ...args);
+        } finally {
+          this.current = previous;
+        }
+      }
+      bind<T>(_context: api.Context, target: T): T {
+        return target;
+      }
+      enable() {
+        return this;
+      }
+      disable() {
+        return this;
+      }
+    })();
+    api.context.setGlobalContextManager(contextManager);
+    try {
+      await createClient().query('{ books { title } }');
+    } finally {
+      api.context.disable();
+    }
+
+    expect(activeSpanId).toBe(findSpan('query').spanContext().spanId);
+  });
+});
+
+describe('parseTraceParent', () => {
+  it('should parse a valid traceparent', () => {
+    expect(
+      parseTraceParent(api, `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`),
+    ).toMatchObject({
+      traceId: TRACE_ID,
+      spanId: PARENT_SPAN_ID,
+      traceFlags: 1,
+      isRemote: true,
+    });
+  });
+
+  it.each([
+    undefined,
+    '',
+    'garbage',
+    `ff-${TRACE_ID}-${PARENT_SPAN_ID}-01`,
+    `00-${'0'.repeat(32)}-${PARENT_SPAN_ID}-01`,
+    `00-${TRACE_ID}-${'0'.repeat(16)}-01`,
+    `00-${TRACE_ID}-${PARENT_SPAN_ID}`,
+  ])('should ignore %j', (traceParent) => {
+    expect(parseTraceParent(api, traceParent)).toBeUndefined();
+  });
+});
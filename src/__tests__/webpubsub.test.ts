@@ -0,0 +1,461 @@
+import { ApolloServer } from '@apollo/server';
+import type { InvocationContext } from '@azure/functions';
+import { GraphQLError } from 'graphql';
+import {
+  InMemorySubscriptionStore,
+  startServerAndCreateHandler,
+  startServerAndCreateWebPubSubBridge,
+  type PubSubEngine,
+  type WebPubSubBridge,
+} from '..';
+import {
+  createInvocationContext,
+  createTestClient,
+  createWebPubSubInvocationContext,
+} from '../testing';
+
+const typeDefs = `#graphql
+  type Query {
+    hello: String
+  }
+
+  type Mutation {
+    send(room: String!, text: String!): String
+  }
+
+  type Subscription {
+    messageAdded(room: String!): Message
+    countdown: Int
+  }
+
+  type Message {
+    room: String
+    text: String
+    viewer: String
+  }
+`;
+
+interface Context {
+  pubsub?: PubSubEngine;
+  user?: string;
+}
+
+const resolvers = {
+  Query: {
+    hello: () => 'world',
+  },
+  Mutation: {
+    send: async (
+      _: unknown,
+      { room, text }: { room: string; text: string },
+      { pubsub }: Context,
+    ) => {
+      await pubsub!.publish(`room:${room}`, { messageAdded: { room, text } });
+      return text;
+    },
+  },
+  Subscription: {
+    messageAdded: {
+      subscribe: (
+        _: unknown,
+        { room }: { room: string },
+        { pubsub }: Context,
+      ) => pubsub!.subscribe(`room:${room}`),
+    },
+    countdown: {
+      subscribe: async function* () {
+        yield { countdown: 1 };
+      },
+    },
+  },
+  Message: {
+    viewer: (_: unknown, __: unknown, { user }: Context) => user,
+  },
+};
+
+function sent(bridge: WebPubSubBridge, context: InvocationContext) {
+  return (
+    (context.extraOutputs.get(bridge.output) ?? []) as Array<
+      Record<string, string>
+    >
+  ).map((action) =>
+    action.actionName === 'sendToConnection'
+      ? { to: action.connectionId, ...JSON.parse(action.data) }
+      : action,
+  );
+}
+
+describe('startServerAndCreateWebPubSubBridge', () => {
+  let server: ApolloServer<Context>;
+  let store: InMemorySubscriptionStore;
+  let bridge: WebPubSubBridge;
+
+  async function message(connectionId: string, data: unknown) {
+    const context = createWebPubSubInvocationContext({
+      eventName: 'message',
+      connectionId,
+      userId: `user-${connectionId}`,
+      data: typeof data === 'string' ? data : JSON.stringify(data),
+    });
+    await bridge.message.handler(context.triggerMetadata!.data, context);
+    return sent(bridge, context);
+  }
+
+  async function connect(connectionId: string) {
+    const context = createWebPubSubInvocationContext({
+      eventName: 'connect',
+      connectionId,
+      userId: `user-${connectionId}`,
+      subprotocols: ['graphql-transport-ws'],
+    });
+    await bridge.connect.handler({}, context);
+    await message(connectionId, { type: 'connection_init' });
+  }
+
+  beforeEach(() => {
+    server = new ApolloServer({ typeDefs, resolvers });
+    store = new InMemorySubscriptionStore();
+    bridge = startServerAndCreateWebPubSubBridge(server, {
+      hub: 'graphql',
+      store,
+      context: async ({ connection, pubsub }) => ({
+        pubsub,
+        user: connection.userId,
+      }),
+      onConnect: ({ connection }) =>
+        connection.connectionParams?.token !== 'revoked',
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should describe the Web PubSub functions', () => {
+    expect(bridge.connect).toMatchObject({
+      hub: 'graphql',
+      eventType: 'system',
+      eventName: 'connect',
+    });
+    expect(bridge.message).toMatchObject({
+      hub: 'graphql',
+      eventType: 'user',
+      eventName: 'message',
+      extraOutputs: [bridge.output],
+    });
+    expect(bridge.disconnected).toMatchObject({
+      eventType: 'system',
+      eventName: 'disconnected',
+    });
+    expect(bridge.output).toMatchObject({ type: 'webPubSub', hub: 'graphql' });
+  });
+
+  it('should negotiate the graphql-ws subprotocol on connect', async () => {
+    const accepted = await bridge.connect.handler(
+      {},
+      createWebPubSubInvocationContext({
+        eventName: 'connect',
+        connectionId: 'a',
+        subprotocols: ['graphql-transport-ws'],
+      }),
+    );
+    const rejected = await bridge.connect.handler(
+      {},
+      createWebPubSubInvocationContext({
+        eventName: 'connect',
+        connectionId: 'b',
+        subprotocols: ['graphql-ws'],
+      }),
+    );
+
+    expect(accepted).toEqual({ subprotocol: 'graphql-transport-ws' });
+    expect(rejected).toMatchObject({ code: 'userError' });
+  });
+
+  it('should acknowledge connections and answer pings', async () => {
+    const init = await message('a', { type: 'connection_init' });
+    const ping = await message('a', { type: 'ping' });
+    const duplicate = await message('a', { type: 'connection_init' });
+
+    expect(init).toEqual([{ to: 'a', type: 'connection_ack' }]);
+    expect(ping).toEqual([{ to: 'a', type: 'pong' }]);
+    expect(duplicate).toEqual([
+      {
+        actionName: 'closeConnection',
+        connectionId: 'a',
+        reason: '4429: Too many initialisation requests',
+      },
+    ]);
+    expect(await store.getConnection('a')).toBeUndefined();
+  });
+
+  it('should close connections rejected by onConnect', async () => {
+    const rejected = await message('a', {
+      type: 'connection_init',
+      payload: { token: 'revoked' },
+    });
+
+    expect(rejected).toEqual([
+      {
+        actionName: 'closeConnection',
+        connectionId: 'a',
+        reason: '4403: Forbidden',
+      },
+    ]);
+    expect(await store.getConnection('a')).toBeUndefined();
+  });
+
+  it('should execute queries and complete them', async () => {
+    await connect('a');
+
+    const result = await message('a', {
+      type: 'subscribe',
+      id: '1',
+      payload: { query: '{ hello }' },
+    });
+
+    expect(result).toEqual([
+      { to: 'a', type: 'next', id: '1', payload: { data: { hello: 'world' } } },
+      { to: 'a', type: 'complete', id: '1' },
+    ]);
+  });
+
+  it('should fan out mutations from the HTTP handler to subscribers', async () => {
+    await connect('a');
+    await connect('b');
+    await connect('c');
+    const subscription =
+      'subscription ($room: String!) { messageAdded(room: $room) { text viewer } }';
+    expect(
+      await message('a', {
+        type: 'subscribe',
+        id: '1',
+        payload: { query: subscription, variables: { room: 'azure' } },
+      }),
+    ).toEqual([]);
+    await message('b', {
+      type: 'subscribe',
+      id: '7',
+      payload: { query: subscription, variables: { room: 'azure' } },
+    });
+    await message('c', {
+      type: 'subscribe',
+      id: '1',
+      payload: { query: subscription, variables: { room: 'other' } },
+    });
+
+    const context = createInvocationContext();
+    const client = createTestClient(
+      startServerAndCreateHandler(server, {
+        context: async ({ pubsub }) => ({ pubsub }),
+        webPubSub: bridge,
+      }),
+      { createContext: () => context },
+    );
+    const response = await client.mutate(
+      'mutation { send(room: "azure", text: "hi") }',
+    );
+
+    expect(response.body).toEqual({
+      kind: 'single',
+      singleResult: { data: { send: 'hi' } },
+    });
+    expect(sent(bridge, context)).toEqual([
+      {
+        to: 'a',
+        type: 'next',
+        id: '1',
+        payload: { data: { messageAdded: { text: 'hi', viewer: 'user-a' } } },
+      },
+      {
+        to: 'b',
+        type: 'next',
+        id: '7',
+        payload: { data: { messageAdded: { text: 'hi', viewer: 'user-b' } } },
+      },
+    ]);
+  });
+
+  it('should stop sending events after complete and disconnect', async () => {
+    await connect('a');
+    await connect('b');
+    const payload = {
+      query: 'subscription { messageAdded(room: "x") { text } }',
+    };
+    await message('a', { type: 'subscribe', id: '1', payload });
+    await message('b', { type: 'subscribe', id: '1', payload });
+
+    await message('a', { type: 'complete', id: '1' });
+    await bridge.disconnected.handler(
+      {},
+      createWebPubSubInvocationContext({
+        eventName: 'disconnected',
+        connectionId: 'b',
+      }),
+    );
+
+    expect(await store.getSubscriptionsByTopic('room:x')).toEqual([]);
+    expect(await store.getConnection('b')).toBeUndefined();
+  });
+
+  it('should report invalid subscriptions to the client', async () => {
+    await connect('a');
+
+    const invalid = await message('a', {
+      type: 'subscribe',
+      id: '1',
+      payload: { query: 'subscription { unknown }' },
+    });
+    const withoutPubSub = await message('a', {
+      type: 'subscribe',
+      id: '2',
+      payload: { query: 'subscription { countdown }' },
+    });
+
+    expect(invalid).toEqual([
+      {
+        to: 'a',
+        type: 'error',
+        id: '1',
+        payload: [
+          expect.objectContaining({
+            message: 'Cannot query field "unknown" on type "Subscription".',
+          }),
+        ],
+      },
+    ]);
+    expect(withoutPubSub).toMatchObject([
+      {
+        type: 'error',
+        id: '2',
+        payload: [
+          {
+            message:
+              'Subscriptions over Web PubSub must subscribe with `pubsub.subscribe()`',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should apply the server's validation rules and error formatting", async () => {
+    await server.stop();
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: {
+        ...resolvers,
+        Message: {
+          ...resolvers.Message,
+          text: ({ text }: { text: string }) => {
+            if (text === 'secret') {
+              throw new Error('Database password is hunter2');
+            }
+            return text;
+          },
+        },
+      },
+      validationRules: [
+        (context) => ({
+          Field(node) {
+            if (node.name.value === 'countdown') {
+              context.reportError(new GraphQLError('countdown is disabled'));
+            }
+          },
+        }),
+      ],
+      formatError: (formattedError) =>
+        formattedError.message.includes('hunter2')
+          ? { message: 'Internal server error' }
+          : formattedError,
+    });
+    bridge = startServerAndCreateWebPubSubBridge(server, {
+      hub: 'graphql',
+      store,
+      context: async ({ pubsub }) => ({ pubsub }),
+    });
+    await connect('a');
+
+    const rejected = await message('a', {
+      type: 'subscribe',
+      id: '1',
+      payload: { query: 'subscription { countdown }' },
+    });
+    await message('a', {
+      type: 'subscribe',
+      id: '2',
+      payload: { query: 'subscription { messageAdded(room: "x") { text } }' },
+    });
+    const context = createInvocationContext();
+    await bridge
+      .createPubSub(context)
+      .publish('room:x', { messageAdded: { room: 'x', text: 'secret' } });
+
+    expect(rejected).toMatchObject([
+      {
+        type: 'error',
+        id: '1',
+        payload: [
+          {
+            message: 'countdown is disabled',
+            extensions: { code: 'GRAPHQL_VALIDATION_FAILED' },
+          },
+        ],
+      },
+    ]);
+    expect(sent(bridge, context)).toEqual([
+      {
+        to: 'a',
+        type: 'next',
+        id: '2',
+        payload: {
+          errors: [{ message: 'Internal server error' }],
+          data: { messageAdded: { text: null } },
+        },
+      },
+    ]);
+  });
+
+  it.each([
+    [
+      'subscribe before connection_init',
+      [{ type: 'subscribe', id: '1', payload: { query: '{ hello }' } }],
+      '4401: Unauthorized',
+    ],
+    ['invalid JSON', ['{ invalid'], '4400: Invalid message received'],
+    [
+      'an unknown message type',
+      [{ type: 'connection_init' }, { type: 'unknown' }],
+      '4400: Invalid message received',
+    ],
+    [
+      'a duplicate subscription id',
+      [
+        { type: 'connection_init' },
+        {
+          type: 'subscribe',
+          id: '1',
+          payload: {
+            query: 'subscription { messageAdded(room: "x") { text } }',
+          },
+        },
+        {
+          type: 'subscribe',
+          id: '1',
+          payload: {
+            query: 'subscription { messageAdded(room: "x") { text } }',
+          },
+        },
+      ],
+      '4409: Subscriber for 1 already exists',
+    ],
+  ])('should close the connection on %s', async (_, messages, reason) => {
+    let result: unknown[] = [];
+    for (const data of messages) {
+      result = await message('a', data);
+    }
+
+    expect(result).toEqual([
+      { actionName: 'closeConnection', connectionId: 'a', reason },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { HttpRequest } from '@azure/functions';
+import { PayloadTooLargeError } from './errors';
+
+/**
+ * Rejects a request up front when its `Content-Length` header already
+ * exceeds the body size limit, before any of the body is read.
+ *
+ * @param req - The Azure Functions HTTP request
+ * @param maxBodySize - The maximum body size, in bytes
+ * @throws {PayloadTooLargeError} If the declared length exceeds the limit
+ * @internal
+ */
+export function assertContentLength(
+  req: HttpRequest,
+  maxBodySize: number,
+): void {
+  const contentLength = Number(req.headers.get('content-length'));
+  if (Number.isFinite(contentLength) && contentLength > maxBodySize) {
+    throw new PayloadTooLargeError(
+      `Request body exceeds the ${maxBodySize} byte size limit`,
+    );
+  }
+}
+
+/**
+ * Iterates over the request body stream, counting bytes as they arrive.
+ * Reading stops as soon as the limit is exceeded, which cancels the
+ * underlying stream.
+ *
+ * @param req - The Azure Functions HTTP request
+ * @param maxBodySize - The maximum body size, in bytes (unlimited if omitted)
+ * @returns An async iterable of body chunks
+ * @throws {PayloadTooLargeError} If the body exceeds the limit
+ * @internal
+ */
+export async function* readBodyChunks(
+  req: HttpRequest,
+  maxBodySize = Infinity,
+): AsyncIterable<Uint8Array> {
+  if (!req.body) {
+    return;
+  }
+
+  let size = 0;
+  for await (const chunk of req.body as AsyncIterable<Uint8Array>) {
+    size += chunk.byteLength;
+    if (size > maxBodySize) {
+      throw new PayloadTooLargeError(
+        `Request body exceeds the ${maxBodySize} byte size limit`,
+      );
+    }
+    yield chunk;
+  }
+}
+
+/**
+ * Reads the whole request body as UTF-8 text, enforcing the size limit.
+ *
+ * @param req - The Azure Functions HTTP request
+ * @param maxBodySize - The maximum body size, in bytes
+ * @returns The request body text
+ * @throws {PayloadTooLargeError} If the body exceeds the limit
+ * @internal
+ */
+export async function readBodyText(
+  req: HttpRequest,
+  maxBodySize: number,
+): Promise<string> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of readBodyChunks(req, maxBodySize)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Reads the whole request body, enforcing the size limit, and returns a
+ * copy of the request carrying the read body. Cloning the copy then never
+ * buffers more than the limit, whatever the `Content-Length` header says.
+ *
+ * @param req - The Azure Functions HTTP request
+ * @param maxBodySize - The maximum body size, in bytes
+ * @returns The request with its body read
+ * @throws {PayloadTooLargeError} If the body exceeds the limit
+ * @internal
+ */
+export async function bufferRequestBody(
+  req: HttpRequest,
+  maxBodySize: number,
+): Promise<HttpRequest> {
+  if (!req.body) {
+    return req;
+  }
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of readBodyChunks(req, maxBodySize)) {
+    chunks.push(chunk);
+  }
+  return new HttpRequest({
+    method: req.method,
+    url: req.url,
+    headers: Object.fromEntries(req.headers),
+    params: req.params,
+    body: { bytes: Buffer.concat(chunks) },
+  });
+}
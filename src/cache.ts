@@ -0,0 +1,348 @@
+import {
+  HeaderMap,
+  type ApolloServer,
+  type BaseContext,
+  type HTTPGraphQLRequest,
+} from '@apollo/server';
+import type { KeyValueCache } from '@apollo/utils.keyvaluecache';
+import type { InvocationContext } from '@azure/functions';
+import { parse, print } from 'graphql';
+import { createHash } from 'node:crypto';
+import { appendVary } from './cors';
+import type { AzureFunctionsMiddlewareResponse } from './middleware';
+import type { ClientPrincipal } from './principal';
+
+export interface ResponseCacheOptions {
+  /**
+   * Where responses are stored. Use a cache backed by a shared store such
+   * as Redis to share responses across instances. Defaults to an
+   * {@link InMemoryResponseCache}.
+   */
+  cache?: KeyValueCache<string>;
+  /**
+   * Request headers responses depend on, e.g. `Accept-Language`. Their
+   * values are part of the cache key and they are added to the `Vary`
+   * header.
+   */
+  vary?: string[];
+}
+
+/**
+ * A {@link KeyValueCache} that keeps values in memory, evicting the least
+ * recently used one when it is full. Each Functions instance has its own
+ * cache, emptied when it restarts.
+ */
+export class InMemoryResponseCache implements KeyValueCache<string> {
+  private readonly entries = new Map<
+    string,
+    { value: string; expires: number }
+  >();
+  private readonly maxEntries: number;
+
+  /**
+   * @param options - `maxEntries` caps how many values are kept. Defaults
+   * to 1000.
+   */
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expires <= Date.now()) {
+      return undefined;
+    }
+    // Re-insert to mark the entry as most recently used.
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(
+    key: string,
+    value: string,
+    options?: { ttl?: number | null },
+  ): Promise<void> {
+    const ttl = options?.ttl;
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expires: ttl != null ? Date.now() + ttl * 1000 : Infinity,
+    });
+    while (this.entries.size > this.maxEntries) {
+      // Maps iterate in insertion order, so the first key is the oldest.
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+}
+
+/**
+ * A response as stored in the cache.
+ * @internal
+ */
+interface CachedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  /**
+   * When the response was stored, in milliseconds.
+   */
+  time: number;
+}
+
+/**
+ * The freshness of a response, from the `Cache-Control` header Apollo
+ * Server's cache control plugin sets.
+ * @internal
+ */
+interface CachePolicy {
+  maxAge: number;
+  scope: 'PUBLIC' | 'PRIVATE';
+}
+
+/**
+ * Returns the cache policy of a response, or undefined if it must not be
+ * cached.
+ * @internal
+ */
+function getCachePolicy(
+  response: AzureFunctionsMiddlewareResponse,
+): CachePolicy | undefined {
+  const cacheControl = response.headers['cache-control']?.toLowerCase();
+  if (
+    response.status !== 200 ||
+    typeof response.body !== 'string' ||
+    !cacheControl ||
+    /\b(no-store|no-cache)\b/.test(cacheControl)
+  ) {
+    return undefined;
+  }
+  const maxAge = Number(/\bmax-age=(\d+)/.exec(cacheControl)?.[1] ?? 0);
+  if (!(maxAge > 0)) {
+    return undefined;
+  }
+  return {
+    maxAge,
+    scope: /\bprivate\b/.test(cacheControl) ? 'PRIVATE' : 'PUBLIC',
+  };
+}
+
+/**
+ * Parses a JSON search parameter and serializes it with sorted keys, so
+ * equivalent values produce the same key.
+ * @internal
+ */
+function normalizeJson(value: string | null): string {
+  if (!value) {
+    return '';
+  }
+  return JSON.stringify(JSON.parse(value), (_, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+        )
+      : v,
+  );
+}
+
+/**
+ * Computes the cache key of a GET request, or returns undefined if it is
+ * invalid and left for Apollo Server to reject.
+ * @internal
+ */
+function getCacheKey(
+  request: HTTPGraphQLRequest,
+  vary: string[],
+  principal: ClientPrincipal | undefined,
+): string | undefined {
+  const params = new URLSearchParams(request.search);
+  const query = params.get('query');
+  let parts: string[];
+  try {
+    parts = [
+      query ? print(parse(query, { noLocation: true })) : '',
+      params.get('operationName') ?? '',
+      normalizeJson(params.get('variables')),
+      normalizeJson(params.get('extensions')),
+    ];
+  } catch {
+    return undefined;
+  }
+  for (const name of vary) {
+    parts.push(`${name}:${request.headers.get(name) ?? ''}`);
+  }
+  if (principal) {
+    parts.push(`principal:${principal.identityProvider}:${principal.userId}`);
+  }
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+/**
+ * Serves a GET request from the cache, or executes it and stores the
+ * response if it is cacheable. The cache is only read once Apollo Server
+ * has accepted the request, so CSRF prevention, the context function and
+ * plugins run for cached responses too.
+ * @internal
+ */
+export type ResponseCache = (
+  arg: {
+    request: HTTPGraphQLRequest;
+    context: InvocationContext;
+    principal?: ClientPrincipal;
+  },
+  execute: () => Promise<AzureFunctionsMiddlewareResponse>,
+) => Promise<AzureFunctionsMiddlewareResponse>;
+
+/**
+ * Reads the cached response of a request being executed, returning true on
+ * a hit.
+ * @internal
+ */
+type CacheLookup = () => Promise<boolean>;
+
+/**
+ * Cache lookups of requests being executed, by the request passed to
+ * Apollo Server.
+ * @internal
+ */
+const cacheLookups = new WeakMap<object, CacheLookup>();
+
+const cachedServers = new WeakSet<object>();
+
+/**
+ * Registers a plugin that answers operations from the response cache
+ * instead of executing them. Must be called before the server starts.
+ *
+ * @param server - The Apollo Server instance
+ * @throws {Error} If the server has already been started
+ * @internal
+ */
+export function addResponseCachePlugin<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): void {
+  if (cachedServers.has(server)) {
+    return;
+  }
+  try {
+    server.addPlugin({
+      async requestDidStart({ request }) {
+        const lookup = request.http && cacheLookups.get(request.http);
+        if (!lookup) {
+          return;
+        }
+        return {
+          async responseForOperation() {
+            if (!(await lookup())) {
+              return null;
+            }
+            // Replaced by the cached response.
+            return {
+              http: { status: 200, headers: new HeaderMap() },
+              body: { kind: 'single', singleResult: {} },
+            };
+          },
+        };
+      },
+    });
+  } catch (e) {
+    throw new Error(
+      'The responseCache option requires a server that has not been started yet',
+      { cause: e },
+    );
+  }
+  cachedServers.add(server);
+}
+
+/**
+ * Creates a cache of whole GET responses, keyed on the normalized query,
+ * variables, operation name, extensions and `vary` headers. Responses are
+ * cached for the `max-age` of their cache policy: `PUBLIC` ones for
+ * everyone, `PRIVATE` ones for each principal. Cache failures are logged
+ * as warnings and the request is executed. Pass the server to
+ * {@link addResponseCachePlugin} for responses to be served from the cache.
+ *
+ * @param options - The cache and the headers responses vary on
+ * @returns The response cache
+ * @internal
+ */
+export function createResponseCache(
+  options: ResponseCacheOptions,
+): ResponseCache {
+  const cache = options.cache ?? new InMemoryResponseCache();
+  // The response's content type is negotiated from `Accept`.
+  const vary = [
+    ...new Set(['accept', ...(options.vary ?? [])].map((h) => h.toLowerCase())),
+  ];
+  const varyHeader = appendVary(undefined, ...(options.vary ?? []));
+  const withVary = (headers: Record<string, string>) =>
+    varyHeader
+      ? { ...headers, vary: appendVary(headers['vary'], varyHeader) }
+      : headers;
+
+  const read = async (key: string, context: InvocationContext) => {
+    try {
+      const value = await cache.get(key);
+      return value ? (JSON.parse(value) as CachedResponse) : undefined;
+    } catch (e) {
+      context.warn('Failure reading the response cache', e);
+      return undefined;
+    }
+  };
+
+  return async ({ request, context, principal }, execute) => {
+    const publicKey = getCacheKey(request, vary, undefined);
+    if (!publicKey) {
+      return await execute();
+    }
+    const privateKey = principal && getCacheKey(request, vary, principal);
+
+    let cached: CachedResponse | undefined;
+    cacheLookups.set(request, async () => {
+      cached =
+        (await read(publicKey, context)) ??
+        (privateKey ? await read(privateKey, context) : undefined);
+      return cached !== undefined;
+    });
+    const response = await execute();
+    if (cached) {
+      return {
+        status: cached.status,
+        headers: withVary({
+          ...cached.headers,
+          age: String(
+            Math.max(0, Math.floor((Date.now() - cached.time) / 1000)),
+          ),
+          'x-cache': 'HIT',
+        }),
+        body: cached.body,
+      };
+    }
+
+    const policy = getCachePolicy(response);
+    const key = policy?.scope === 'PRIVATE' ? privateKey : publicKey;
+    if (policy && key) {
+      const entry: CachedResponse = {
+        status: response.status,
+        headers: response.headers,
+        body: response.body as string,
+        time: Date.now(),
+      };
+      try {
+        await cache.set(key, JSON.stringify(entry), { ttl: policy.maxAge });
+      } catch (e) {
+        context.warn('Failure writing the response cache', e);
+      }
+    }
+    return {
+      ...response,
+      headers: withVary({ ...response.headers, 'x-cache': 'MISS' }),
+    };
+  };
+}
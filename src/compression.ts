@@ -0,0 +1,232 @@
+import type { HttpResponseInit } from '@azure/functions';
+import { promisify } from 'node:util';
+import {
+  brotliCompress,
+  constants,
+  createBrotliCompress,
+  createDeflate,
+  createGzip,
+  deflate,
+  gzip,
+  type BrotliCompress,
+  type Deflate,
+  type Gzip,
+} from 'node:zlib';
+import { appendVary } from './cors';
+
+/**
+ * A content coding supported by {@link CompressionOptions}.
+ */
+export type CompressionEncoding = 'br' | 'gzip' | 'deflate';
+
+export interface CompressionOptions {
+  /**
+   * Minimum size, in bytes, of buffered responses to compress. Smaller
+   * bodies are sent as-is. Defaults to 1024. Chunked responses are always
+   * compressed.
+   */
+  threshold?: number;
+  /**
+   * The encodings to offer, in order of preference when the client accepts
+   * several with the same quality. Defaults to `['br', 'gzip', 'deflate']`.
+   */
+  encodings?: CompressionEncoding[];
+}
+
+const DEFAULT_THRESHOLD = 1024;
+const DEFAULT_ENCODINGS: CompressionEncoding[] = ['br', 'gzip', 'deflate'];
+
+const compressors: Record<
+  CompressionEncoding,
+  (body: Buffer) => Promise<Buffer>
+> = {
+  br: promisify(brotliCompress),
+  gzip: promisify(gzip),
+  deflate: promisify(deflate),
+};
+
+/**
+ * A response that may be compressed.
+ * @internal
+ */
+export type CompressibleResponse = HttpResponseInit & {
+  status: number;
+  headers: Record<string, string>;
+};
+
+/**
+ * Checks whether a response body is a string, bytes or a stream of bytes.
+ * @internal
+ */
+function isCompressibleBody(
+  body: HttpResponseInit['body'],
+): body is string | Uint8Array | AsyncIterable<Uint8Array> {
+  return (
+    typeof body === 'string' ||
+    body instanceof Uint8Array ||
+    (body != null && Symbol.asyncIterator in body)
+  );
+}
+
+/**
+ * Picks the encoding to use from an `Accept-Encoding` header. The encoding
+ * with the highest quality wins; ties go to the first in `encodings`.
+ *
+ * @param acceptEncoding - The `Accept-Encoding` request header
+ * @param encodings - The supported encodings, in order of preference
+ * @returns The encoding to use, or undefined to send the body as-is
+ * @internal
+ */
+export function negotiateEncoding(
+  acceptEncoding: string | null,
+  encodings: CompressionEncoding[] = DEFAULT_ENCODINGS,
+): CompressionEncoding | undefined {
+  if (!acceptEncoding) {
+    return undefined;
+  }
+
+  const qualities = new Map<string, number>();
+  for (const entry of acceptEncoding.split(',')) {
+    const [name, ...params] = entry.trim().toLowerCase().split(';');
+    if (!name) {
+      continue;
+    }
+    const q = params
+      .map((param) => /^\s*q=([0-9.]+)\s*$/.exec(param)?.[1])
+      .find((value) => value !== undefined);
+    qualities.set(name, q === undefined ? 1 : Number(q) || 0);
+  }
+
+  let best: CompressionEncoding | undefined;
+  let bestQuality = 0;
+  for (const encoding of encodings) {
+    const quality = qualities.get(encoding) ?? qualities.get('*') ?? 0;
+    if (quality > bestQuality) {
+      best = encoding;
+      bestQuality = quality;
+    }
+  }
+  return best;
+}
+
+/**
+ * Creates a streaming compressor for an encoding.
+ * @internal
+ */
+function createCompressor(
+  encoding: CompressionEncoding,
+): BrotliCompress | Gzip | Deflate {
+  switch (encoding) {
+    case 'br':
+      return createBrotliCompress();
+    case 'gzip':
+      return createGzip();
+    case 'deflate':
+      return createDeflate();
+  }
+}
+
+/**
+ * Compresses a stream chunk by chunk, flushing after each chunk so every
+ * part of an incremental delivery response reaches the client as soon as
+ * it is produced.
+ *
+ * @param source - The uncompressed chunks
+ * @param encoding - The encoding to use
+ * @returns The compressed chunks
+ * @internal
+ */
+async function* compressStream(
+  source: AsyncIterable<Uint8Array>,
+  encoding: CompressionEncoding,
+): AsyncIterable<Uint8Array> {
+  const compressor = createCompressor(encoding);
+  const output: Buffer[] = [];
+  compressor.on('data', (chunk: Buffer) => output.push(chunk));
+  const flushKind =
+    encoding === 'br'
+      ? constants.BROTLI_OPERATION_FLUSH
+      : constants.Z_SYNC_FLUSH;
+
+  try {
+    for await (const chunk of source) {
+      compressor.write(chunk);
+      await new Promise<void>((resolve) =>
+        compressor.flush(flushKind, () => resolve()),
+      );
+      if (output.length > 0) {
+        yield Buffer.concat(output.splice(0));
+      }
+    }
+    await new Promise<void>((resolve, reject) => {
+      compressor.once('end', resolve);
+      compressor.once('error', reject);
+      compressor.end();
+    });
+    if (output.length > 0) {
+      yield Buffer.concat(output.splice(0));
+    }
+  } finally {
+    compressor.destroy();
+  }
+}
+
+/**
+ * Compresses a response body with the best encoding the client accepts.
+ * Buffered bodies are compressed if they reach the size threshold, with
+ * `content-length` recomputed; chunked bodies are compressed incrementally.
+ * `Vary: Accept-Encoding` is always added, since the response depends on it.
+ * Event streams and other bodies, such as `jsonBody`, are sent as-is.
+ *
+ * @param response - The response to compress
+ * @param acceptEncoding - The `Accept-Encoding` request header
+ * @param options - The compression options
+ * @returns The response, compressed if possible
+ * @internal
+ */
+export async function compressResponse(
+  response: CompressibleResponse,
+  acceptEncoding: string | null,
+  options: CompressionOptions,
+): Promise<CompressibleResponse> {
+  const headers: Record<string, string> = {
+    ...response.headers,
+    vary: appendVary(response.headers['vary'], 'Accept-Encoding'),
+  };
+  const encoding = negotiateEncoding(acceptEncoding, options.encodings);
+  const { body: source } = response;
+  if (
+    !encoding ||
+    headers['content-encoding'] ||
+    response.status === 204 ||
+    response.status === 304 ||
+    response.jsonBody !== undefined ||
+    !isCompressibleBody(source) ||
+    headers['content-type']?.startsWith('text/event-stream')
+  ) {
+    return { ...response, headers };
+  }
+
+  if (typeof source !== 'string' && !(source instanceof Uint8Array)) {
+    return {
+      ...response,
+      headers: { ...headers, 'content-encoding': encoding },
+      body: compressStream(source, encoding),
+    };
+  }
+
+  const body = Buffer.from(source);
+  if (body.byteLength < (options.threshold ?? DEFAULT_THRESHOLD)) {
+    return { ...response, headers };
+  }
+  const compressed = await compressors[encoding](body);
+  return {
+    ...response,
+    headers: {
+      ...headers,
+      'content-encoding': encoding,
+      'content-length': compressed.byteLength.toString(),
+    },
+    body: compressed,
+  };
+}
@@ -0,0 +1,227 @@
+import type { HttpRequest, HttpResponseInit } from '@azure/functions';
+
+/**
+ * A single allowed origin, matched either exactly or by regular expression.
+ */
+export type CorsOriginMatcher = string | RegExp;
+
+/**
+ * Decides whether a request origin is allowed.
+ *
+ * - `'*'` allows any origin
+ * - a string or RegExp allows matching origins
+ * - an array allows origins matching any of its entries
+ * - a function is called with the origin and the request and returns whether
+ *   the origin is allowed
+ */
+export type CorsOrigin =
+  | CorsOriginMatcher
+  | CorsOriginMatcher[]
+  | ((origin: string, req: HttpRequest) => boolean | Promise<boolean>);
+
+export interface CorsOptions {
+  /**
+   * Origins allowed to make cross-origin requests. Defaults to `'*'`.
+   */
+  origin?: CorsOrigin;
+  /**
+   * Methods advertised in preflight responses. Defaults to `GET`, `POST` and
+   * `OPTIONS`.
+   */
+  methods?: string[];
+  /**
+   * Request headers advertised in preflight responses. When omitted, the
+   * headers listed in `Access-Control-Request-Headers` are reflected.
+   */
+  allowedHeaders?: string[];
+  /**
+   * Response headers the browser is allowed to read.
+   */
+  exposedHeaders?: string[];
+  /**
+   * Whether to send `Access-Control-Allow-Credentials: true`. When enabled,
+   * the request origin is always reflected instead of `*`.
+   */
+  credentials?: boolean;
+  /**
+   * How long, in seconds, the browser may cache a preflight response.
+   */
+  maxAge?: number;
+}
+
+const DEFAULT_METHODS = ['GET', 'POST', 'OPTIONS'];
+
+/**
+ * Checks whether an origin is allowed by the configured matcher.
+ * @internal
+ */
+async function isOriginAllowed(
+  allowed: CorsOrigin,
+  origin: string,
+  req: HttpRequest,
+): Promise<boolean> {
+  if (typeof allowed === 'function') {
+    return allowed(origin, req);
+  }
+  const matchers = Array.isArray(allowed) ? allowed : [allowed];
+  return matchers.some((matcher) =>
+    typeof matcher === 'string'
+      ? matcher === '*' || matcher === origin
+      : matcher.test(origin),
+  );
+}
+
+/**
+ * Adds values to a `Vary` header, skipping values already present.
+ *
+ * @param existing - The current `Vary` header value, if any
+ * @param values - The header names to add
+ * @returns The merged `Vary` header value
+ * @internal
+ */
+export function appendVary(
+  existing: string | undefined,
+  ...values: string[]
+): string {
+  const current = (existing ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (current.includes('*')) {
+    return '*';
+  }
+  const lower = current.map((value) => value.toLowerCase());
+  for (const value of values) {
+    if (!lower.includes(value.toLowerCase())) {
+      current.push(value);
+      lower.push(value.toLowerCase());
+    }
+  }
+  return current.join(', ');
+}
+
+/**
+ * Computes the `Access-Control-*` headers shared by preflight and actual
+ * responses. Unless any origin is allowed, the headers depend on the request
+ * origin, so `Vary: Origin` is set even when the request has no `Origin`
+ * header or the origin is not allowed; otherwise a shared cache could serve
+ * a response without `Access-Control-*` headers to an allowed origin.
+ * @internal
+ */
+async function computeOriginHeaders(
+  options: CorsOptions,
+  req: HttpRequest,
+): Promise<Record<string, string>> {
+  const origin = req.headers.get('origin');
+  const allowed = options.origin ?? '*';
+  const reflected = allowed !== '*' || !!options.credentials;
+  const headers: Record<string, string> = reflected ? { vary: 'Origin' } : {};
+  if (!origin || !(await isOriginAllowed(allowed, origin, req))) {
+    return headers;
+  }
+
+  headers['access-control-allow-origin'] = reflected ? origin : '*';
+  if (options.credentials) {
+    headers['access-control-allow-credentials'] = 'true';
+  }
+  return headers;
+}
+
+/**
+ * Returns true if the request is a CORS preflight request.
+ * @internal
+ */
+export function isPreflightRequest(req: HttpRequest): boolean {
+  return (
+    req.method === 'OPTIONS' &&
+    req.headers.has('origin') &&
+    req.headers.has('access-control-request-method')
+  );
+}
+
+/**
+ * Builds the response to a CORS preflight request. Disallowed origins get a
+ * bodiless 204 without `Access-Control-*` headers, which the browser treats
+ * as a rejection.
+ *
+ * @param options - The CORS configuration
+ * @param req - The preflight request
+ * @returns The preflight response
+ * @internal
+ */
+export async function createPreflightResponse(
+  options: CorsOptions,
+  req: HttpRequest,
+): Promise<HttpResponseInit> {
+  const headers = await computeOriginHeaders(options, req);
+  if (!headers['access-control-allow-origin']) {
+    return headers['vary'] ? { status: 204, headers } : { status: 204 };
+  }
+
+  headers['access-control-allow-methods'] = (
+    options.methods ?? DEFAULT_METHODS
+  ).join(', ');
+
+  if (options.allowedHeaders) {
+    headers['access-control-allow-headers'] = options.allowedHeaders.join(', ');
+  } else {
+    const requested = req.headers.get('access-control-request-headers');
+    if (requested) {
+      headers['access-control-allow-headers'] = requested;
+    }
+    headers['vary'] = appendVary(
+      headers['vary'],
+      'Access-Control-Request-Headers',
+    );
+  }
+
+  if (options.maxAge != null) {
+    headers['access-control-max-age'] = String(options.maxAge);
+  }
+
+  return {
+    status: 204,
+    headers: { ...headers, 'content-length': '0' },
+  };
+}
+
+/**
+ * Computes the CORS headers to add to a non-preflight response.
+ *
+ * @param options - The CORS configuration
+ * @param req - The incoming request
+ * @returns The headers to merge into the response
+ * @internal
+ */
+export async function createCorsHeaders(
+  options: CorsOptions,
+  req: HttpRequest,
+): Promise<Record<string, string>> {
+  const headers = await computeOriginHeaders(options, req);
+  if (headers['access-control-allow-origin'] && options.exposedHeaders) {
+    headers['access-control-expose-headers'] =
+      options.exposedHeaders.join(', ');
+  }
+  return headers;
+}
+
+/**
+ * Merges CORS headers into response headers, combining `Vary` values instead
+ * of overwriting them.
+ *
+ * @param headers - The response headers (keys lowercased)
+ * @param corsHeaders - The CORS headers to add
+ * @returns The merged headers
+ * @internal
+ */
+export function mergeCorsHeaders(
+  headers: Record<string, string>,
+  corsHeaders: Record<string, string>,
+): Record<string, string> {
+  const { vary, ...rest } = corsHeaders;
+  const merged = { ...headers, ...rest };
+  if (vary) {
+    merged['vary'] = appendVary(headers['vary'], ...vary.split(', '));
+  }
+  return merged;
+}
@@ -0,0 +1,327 @@
+import type { HTTPGraphQLRequest } from '@apollo/server';
+import type { InvocationContext } from '@azure/functions';
+import { createHash } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+import { BadRequestError, InternalServerError } from './errors';
+import { getErrorMessage } from './utils';
+
+/**
+ * A manifest in the format generated by `@apollo/generate-persisted-query-manifest`.
+ */
+export interface ApolloPersistedQueryManifest {
+  format: 'apollo-persisted-query-manifest';
+  version: 1;
+  operations: Array<{
+    id: string;
+    body: string;
+    name?: string;
+    type?: string;
+  }>;
+}
+
+/**
+ * A trusted document manifest: an Apollo persisted query manifest, or a
+ * Relay-style object mapping each document id (hash) to its text.
+ */
+export type TrustedDocumentManifest =
+  | ApolloPersistedQueryManifest
+  | Record<string, string>;
+
+export interface TrustedDocumentsOptions {
+  /**
+   * The manifest: a path to a JSON manifest file, the manifest itself, or a
+   * function that loads it (e.g. from blob storage).
+   */
+  manifest:
+    | string
+    | TrustedDocumentManifest
+    | (() => TrustedDocumentManifest | Promise<TrustedDocumentManifest>);
+  /**
+   * `strict` (the default) rejects operations that are not in the manifest.
+   * `audit` runs them but logs a warning, to find untrusted operations
+   * before enforcing.
+   */
+  mode?: 'strict' | 'audit';
+  /**
+   * Interval, in milliseconds, at which the manifest is checked for
+   * changes. Manifest files are reloaded when their modification time
+   * changes and loader functions are called again. Disabled by default, so
+   * the manifest is loaded once per instance.
+   */
+  reloadInterval?: number;
+}
+
+/**
+ * The documents of a loaded manifest.
+ * @internal
+ */
+interface LoadedManifest {
+  byId: Map<string, string>;
+  bodies: Set<string>;
+}
+
+/**
+ * Parses a manifest in either supported format.
+ *
+ * @param manifest - The manifest contents
+ * @returns The documents by id, and the set of document texts
+ * @throws {Error} If the manifest is in neither format
+ * @internal
+ */
+function parseManifest(manifest: unknown): LoadedManifest {
+  const byId = new Map<string, string>();
+  if (manifest === null || typeof manifest !== 'object') {
+    throw new Error('Trusted document manifest must be a JSON object');
+  }
+
+  if ('format' in manifest || 'operations' in manifest) {
+    const { format, operations } = manifest as ApolloPersistedQueryManifest;
+    if (
+      format !== 'apollo-persisted-query-manifest' ||
+      !Array.isArray(operations)
+    ) {
+      throw new Error('Unsupported persisted query manifest format');
+    }
+    for (const { id, body } of operations) {
+      if (typeof id !== 'string' || typeof body !== 'string') {
+        throw new Error(
+          'Persisted query manifest operations need an id and body',
+        );
+      }
+      byId.set(id, body);
+    }
+  } else {
+    for (const [id, body] of Object.entries(manifest)) {
+      if (typeof body !== 'string') {
+        throw new Error(`Trusted document ${id} must be a string`);
+      }
+      byId.set(id, body);
+    }
+  }
+
+  return { byId, bodies: new Set(byId.values()) };
+}
+
+/**
+ * Loads a trusted document manifest and keeps it up to date.
+ * @internal
+ */
+export class TrustedDocumentStore {
+  private manifest?: Promise<LoadedManifest>;
+  private version?: number;
+  private checkedAt = 0;
+
+  constructor(readonly options: TrustedDocumentsOptions) {}
+
+  /**
+   * Returns the current manifest, loading or reloading it as needed. When a
+   * reload fails, the previous manifest is kept.
+   *
+   * @param context - Used to log reload failures
+   * @returns The loaded manifest
+   * @throws {InternalServerError} If the manifest can't be loaded
+   */
+  async get(context: InvocationContext): Promise<LoadedManifest> {
+    const { reloadInterval } = this.options;
+    const current = this.manifest;
+    if (
+      current &&
+      !(reloadInterval != null && Date.now() - this.checkedAt >= reloadInterval)
+    ) {
+      return current;
+    }
+    this.checkedAt = Date.now();
+
+    const next = this.load(current);
+    this.manifest = next;
+    try {
+      return await next;
+    } catch (e) {
+      if (!current) {
+        // Retry on the next request rather than failing every request.
+        this.manifest = undefined;
+        throw new InternalServerError(
+          `Failed to load trusted documents: ${getErrorMessage(e, 'Unknown error')}`,
+        );
+      }
+      context.warn('Failed to reload trusted documents', e);
+      this.manifest = current;
+      return current;
+    }
+  }
+
+  private async load(
+    current: Promise<LoadedManifest> | undefined,
+  ): Promise<LoadedManifest> {
+    const { manifest } = this.options;
+    if (typeof manifest === 'function') {
+      return parseManifest(await manifest());
+    }
+    if (typeof manifest !== 'string') {
+      return current ?? parseManifest(manifest);
+    }
+
+    const { mtimeMs } = await stat(manifest);
+    if (current && mtimeMs === this.version) {
+      return current;
+    }
+    const loaded = parseManifest(JSON.parse(await readFile(manifest, 'utf8')));
+    this.version = mtimeMs;
+    return loaded;
+  }
+}
+
+/**
+ * Reads the document id of a request in any of the supported conventions:
+ * `documentId` (GraphQL over HTTP), `doc_id` or `id` (Relay), or the
+ * `persistedQuery` extension (Apollo). A `sha256:` prefix is ignored.
+ * @internal
+ */
+function getDocumentId(params: Record<string, unknown>): string | undefined {
+  const extensions = params.extensions as
+    | { persistedQuery?: { sha256Hash?: unknown } }
+    | undefined;
+  const id =
+    params.documentId ??
+    params.doc_id ??
+    params.id ??
+    extensions?.persistedQuery?.sha256Hash;
+  if (typeof id !== 'string') {
+    return undefined;
+  }
+  return id.startsWith('sha256:') ? id.slice('sha256:'.length) : id;
+}
+
+/**
+ * Resolves the operation of a single request against the manifest.
+ *
+ * @param params - The GraphQL request parameters
+ * @returns The parameters with the trusted document as `query`
+ * @throws {BadRequestError} If the operation isn't trusted in strict mode
+ * @internal
+ */
+function resolveParams(
+  params: Record<string, unknown>,
+  manifest: LoadedManifest,
+  options: TrustedDocumentsOptions,
+  context: InvocationContext,
+): Record<string, unknown> {
+  const strict = options.mode !== 'audit';
+  const id = getDocumentId(params);
+
+  if (id !== undefined) {
+    const document = manifest.byId.get(id);
+    if (document !== undefined) {
+      const { documentId, doc_id, id: _, extensions, ...rest } = params;
+      const { persistedQuery, ...otherExtensions } = (extensions ??
+        {}) as Record<string, unknown>;
+      return {
+        ...rest,
+        query: document,
+        ...(Object.keys(otherExtensions).length > 0
+          ? { extensions: otherExtensions }
+          : {}),
+      };
+    }
+    // Clients may send the full query with an unknown hash (e.g. automatic
+    // persisted queries); it is then checked like a free-form query.
+    if (typeof params.query !== 'string') {
+      if (strict) {
+        throw new BadRequestError(`Unknown trusted document: ${id}`);
+      }
+      context.warn(`Unknown trusted document: ${id}`);
+      return params;
+    }
+  }
+
+  const { query } = params;
+  if (typeof query === 'string' && !isTrustedQuery(query, manifest)) {
+    if (strict) {
+      throw new BadRequestError('Only trusted documents may be executed');
+    }
+    context.warn('Untrusted GraphQL operation', {
+      operationName: params.operationName,
+      hash: sha256(query),
+    });
+  }
+  return params;
+}
+
+/**
+ * Free-form queries are trusted if their text is in the manifest, or if
+ * their SHA-256 hash is a document id.
+ * @internal
+ */
+function isTrustedQuery(query: string, manifest: LoadedManifest): boolean {
+  return manifest.bodies.has(query) || manifest.byId.has(sha256(query));
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Enforces trusted documents on a normalized request. Operations sent by id
+ * are replaced with the document text from the manifest; free-form queries
+ * must match a document. Handles GET parameters, JSON and multipart bodies,
+ * and batched operations.
+ *
+ * @param request - The normalized request
+ * @param store - The manifest store
+ * @param context - Used to log untrusted operations in audit mode
+ * @returns The request with trusted documents resolved
+ * @throws {BadRequestError} If an operation isn't trusted in strict mode
+ * @throws {InternalServerError} If the manifest can't be loaded
+ * @internal
+ */
+export async function resolveTrustedDocuments(
+  request: HTTPGraphQLRequest,
+  store: TrustedDocumentStore,
+  context: InvocationContext,
+): Promise<HTTPGraphQLRequest> {
+  const manifest = await store.get(context);
+  const resolve = (params: Record<string, unknown>) =>
+    resolveParams(params, manifest, store.options, context);
+
+  if (request.method === 'GET') {
+    const search = new URLSearchParams(request.search);
+    const params: Record<string, unknown> = Object.fromEntries(search);
+    if (typeof params.extensions === 'string') {
+      try {
+        params.extensions = JSON.parse(params.extensions);
+      } catch {
+        throw new BadRequestError(
+          '`extensions` in the query string must be JSON',
+        );
+      }
+    }
+    const resolved = resolve(params);
+    if (resolved === params) {
+      return request;
+    }
+    const next = new URLSearchParams();
+    for (const [key, value] of Object.entries(resolved)) {
+      if (value !== undefined) {
+        next.set(
+          key,
+          typeof value === 'string' ? value : JSON.stringify(value),
+        );
+      }
+    }
+    return { ...request, search: `?${next}` };
+  }
+
+  const { body } = request;
+  if (Array.isArray(body)) {
+    return {
+      ...request,
+      body: body.map((entry) =>
+        entry && typeof entry === 'object' ? resolve(entry) : entry,
+      ),
+    };
+  }
+  if (body && typeof body === 'object') {
+    return { ...request, body: resolve(body as Record<string, unknown>) };
+  }
+  return request;
+}
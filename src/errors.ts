@@ -1,15 +1,44 @@
+import type { InvocationContext } from '@azure/functions';
+import type { GraphQLFormattedError } from 'graphql';
+
+/**
+ * Default `extensions.code` values for error responses, by status code.
+ * @internal
+ */
+const ERROR_CODES: Record<number, string> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHENTICATED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  405: 'METHOD_NOT_ALLOWED',
+  413: 'PAYLOAD_TOO_LARGE',
+  415: 'UNSUPPORTED_MEDIA_TYPE',
+  429: 'TOO_MANY_REQUESTS',
+  500: 'INTERNAL_SERVER_ERROR',
+  503: 'SERVICE_UNAVAILABLE',
+};
+
 /**
  * Custom error class for HTTP-specific errors with status codes.
  * Allows control over whether error messages are exposed to clients.
+ * The `code` is sent as the error's `extensions.code`; it defaults to one
+ * derived from the status code, e.g. `BAD_REQUEST`.
  */
 export class HttpError extends Error {
+  public readonly code: string;
+
   constructor(
     message: string,
     public readonly statusCode: number,
     public readonly exposeMessage: boolean = false,
+    code?: string,
   ) {
     super(message);
     this.name = this.constructor.name;
+    this.code =
+      code ??
+      ERROR_CODES[statusCode] ??
+      (statusCode >= 500 ? 'INTERNAL_SERVER_ERROR' : 'BAD_REQUEST');
   }
 }
 
@@ -32,3 +61,172 @@ export class InternalServerError extends HttpError {
     super(message, 500, false);
   }
 }
+
+/**
+ * Error class for 413 Payload Too Large responses.
+ * By default, the error message is safe to expose to clients.
+ */
+export class PayloadTooLargeError extends HttpError {
+  constructor(
+    message: string = 'Payload too large',
+    exposeMessage: boolean = true,
+  ) {
+    super(message, 413, exposeMessage);
+  }
+}
+
+/**
+ * Error class for 401 Unauthorized responses.
+ * By default, the error message is safe to expose to clients.
+ */
+export class UnauthorizedError extends HttpError {
+  constructor(message: string = 'Unauthorized', exposeMessage: boolean = true) {
+    super(message, 401, exposeMessage);
+  }
+}
+
+/**
+ * Error class for 403 Forbidden responses.
+ * By default, the error message is safe to expose to clients.
+ */
+export class ForbiddenError extends HttpError {
+  constructor(message: string = 'Forbidden', exposeMessage: boolean = true) {
+    super(message, 403, exposeMessage);
+  }
+}
+
+/**
+ * Error class for 404 Not Found responses.
+ * By default, the error message is safe to expose to clients.
+ */
+export class NotFoundError extends HttpError {
+  constructor(message: string = 'Not found', exposeMessage: boolean = true) {
+    super(message, 404, exposeMessage);
+  }
+}
+
+/**
+ * Error class for 415 Unsupported Media Type responses, for request bodies
+ * no parser is registered for.
+ * By default, the error message is safe to expose to clients.
+ */
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(message: string, exposeMessage: boolean = true) {
+    super(message, 415, exposeMessage);
+  }
+}
+
+/**
+ * Error class for 429 Too Many Requests responses.
+ * By default, the error message is safe to expose to clients.
+ */
+export class TooManyRequestsError extends HttpError {
+  constructor(
+    message: string = 'Too many requests',
+    exposeMessage: boolean = true,
+  ) {
+    super(message, 429, exposeMessage);
+  }
+}
+
+/**
+ * Error class for 503 Service Unavailable responses, e.g. while the server
+ * is shutting down. By default, the error message is safe to expose to
+ * clients.
+ */
+export class ServiceUnavailableError extends HttpError {
+  constructor(
+    message: string = 'Service unavailable',
+    exposeMessage: boolean = true,
+  ) {
+    super(message, 503, exposeMessage);
+  }
+}
+
+/**
+ * Formats the errors the handler responds with itself, such as invalid
+ * request bodies or rejected requests. Receives the error as it will be
+ * sent, the original error and the invocation context, and returns the
+ * error to send.
+ */
+export type AzureFunctionsErrorFormatter = (
+  formattedError: GraphQLFormattedError,
+  error: unknown,
+  context: InvocationContext,
+) => GraphQLFormattedError;
+
+/**
+ * Picks the content type of an error response from the `Accept` header:
+ * `application/graphql-response+json` if the client prefers it, otherwise
+ * `application/json`.
+ *
+ * @param accept - The `Accept` request header
+ * @returns The content type
+ * @internal
+ */
+export function negotiateErrorContentType(accept: string | null): string {
+  let graphqlQuality = 0;
+  let jsonQuality = 0;
+  for (const entry of (accept ?? '').split(',')) {
+    const [type, ...params] = entry.trim().toLowerCase().split(';');
+    const q = params
+      .map((param) => /^\s*q=([0-9.]+)\s*$/.exec(param)?.[1])
+      .find((value) => value !== undefined);
+    const quality = q === undefined ? 1 : Number(q) || 0;
+    if (type === 'application/graphql-response+json') {
+      graphqlQuality = quality;
+    } else if (type === 'application/json') {
+      jsonQuality = quality;
+    }
+  }
+  return graphqlQuality > 0 && graphqlQuality >= jsonQuality
+    ? 'application/graphql-response+json'
+    : 'application/json';
+}
+
+/**
+ * Creates the JSON response for an error caught by the handler. Messages
+ * of {@link HttpError}s are only sent when `exposeMessage` is set;
+ * otherwise `Bad Request` is sent instead, and `Internal Server Error` for
+ * unexpected errors.
+ *
+ * @param error - The caught error
+ * @param accept - The `Accept` request header
+ * @param context - The invocation context
+ * @param formatError - Formats the error before it is sent
+ * @returns The status, headers and body of the response
+ * @internal
+ */
+export function createErrorResponse(
+  error: unknown,
+  accept: string | null,
+  context: InvocationContext,
+  formatError?: AzureFunctionsErrorFormatter,
+): { status: number; headers: Record<string, string>; body: string } {
+  const status = error instanceof HttpError ? error.statusCode : 500;
+  let formattedError: GraphQLFormattedError = {
+    message:
+      error instanceof HttpError && error.exposeMessage
+        ? error.message
+        : error instanceof HttpError
+          ? 'Bad Request'
+          : 'Internal Server Error',
+    extensions: {
+      code: error instanceof HttpError ? error.code : 'INTERNAL_SERVER_ERROR',
+    },
+  };
+  if (formatError) {
+    try {
+      formattedError = formatError(formattedError, error, context);
+    } catch (e) {
+      context.error('Failure formatting error response', e);
+    }
+  }
+  return {
+    status,
+    headers: {
+      'content-type': `${negotiateErrorContentType(accept)}; charset=utf-8`,
+    },
+    body: JSON.stringify({ errors: [formattedError] }),
+  };
+}
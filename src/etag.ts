@@ -0,0 +1,129 @@
+import type { HttpRequest } from '@azure/functions';
+import { createHash } from 'node:crypto';
+import type { AzureFunctionsMiddlewareResponse } from './middleware';
+
+export interface ETagOptions {
+  /**
+   * Sends weak (`W/"..."`) ETags, which only promise equivalent content.
+   * Use them when responses are compressed, since a strong ETag identifies
+   * the exact bytes. Defaults to true.
+   */
+  weak?: boolean;
+}
+
+/**
+ * Headers a 304 response repeats from the response it stands for, as
+ * required by RFC 9110.
+ * @internal
+ */
+const NOT_MODIFIED_HEADERS = [
+  'cache-control',
+  'content-location',
+  'date',
+  'etag',
+  'expires',
+  'vary',
+];
+
+/**
+ * Returns true if an `If-None-Match` header matches the ETag, using the
+ * weak comparison RFC 9110 requires for `If-None-Match`.
+ * @internal
+ */
+function matchesETag(ifNoneMatch: string, etag: string): boolean {
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch
+    .split(',')
+    .some((tag) => tag.trim() === '*' || opaque(tag) === opaque(etag));
+}
+
+/**
+ * Returns true if the response can get an ETag: a successful, buffered
+ * response without GraphQL errors that does not vary on everything. GET
+ * requests cannot run mutations, so they are skipped by the caller.
+ * @internal
+ */
+function isTaggable(
+  response: AzureFunctionsMiddlewareResponse,
+): response is AzureFunctionsMiddlewareResponse & { body: string } {
+  if (
+    response.status !== 200 ||
+    typeof response.body !== 'string' ||
+    response.headers['etag'] ||
+    response.headers['vary']?.trim() === '*'
+  ) {
+    return false;
+  }
+  try {
+    const result = JSON.parse(response.body);
+    return result != null && typeof result === 'object' && !result.errors;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Computes an ETag from the body and the request headers the response
+ * varies on, so each variant of a response gets its own tag.
+ * @internal
+ */
+function computeETag(
+  body: string,
+  req: HttpRequest,
+  vary: string[],
+  weak: boolean,
+): string {
+  const hash = createHash('sha1').update(body);
+  for (const name of vary) {
+    hash.update(`\n${name}:${req.headers.get(name) ?? ''}`);
+  }
+  const etag = `"${hash.digest('base64url')}"`;
+  return weak ? `W/${etag}` : etag;
+}
+
+/**
+ * Adds an ETag to a cacheable GET response, and replaces it with a
+ * bodiless 304 response when the request's `If-None-Match` matches.
+ *
+ * @param response - The response to the GET request
+ * @param req - The Azure Functions HTTP request
+ * @param options - Whether to send weak ETags
+ * @param vary - Request headers the response will also vary on, e.g.
+ * `Accept-Encoding` when it is compressed later
+ * @returns The response with an ETag, a 304 response, or the response
+ * unchanged if it cannot get an ETag
+ * @internal
+ */
+export function applyETag(
+  response: AzureFunctionsMiddlewareResponse,
+  req: HttpRequest,
+  options: ETagOptions,
+  vary: string[] = [],
+): AzureFunctionsMiddlewareResponse {
+  if (!isTaggable(response)) {
+    return response;
+  }
+  const varyOn = [...(response.headers['vary'] ?? '').split(','), ...vary]
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  const etag = computeETag(
+    response.body,
+    req,
+    [...new Set(varyOn)].sort(),
+    options.weak ?? true,
+  );
+  const headers: Record<string, string> = { ...response.headers, etag };
+
+  const ifNoneMatch = req.headers.get('if-none-match');
+  if (ifNoneMatch && matchesETag(ifNoneMatch, etag)) {
+    return {
+      status: 304,
+      headers: Object.fromEntries(
+        Object.entries(headers).filter(([name]) =>
+          NOT_MODIFIED_HEADERS.includes(name),
+        ),
+      ),
+    };
+  }
+  return { ...response, headers };
+}
@@ -0,0 +1,205 @@
+import type { ApolloServer, BaseContext } from '@apollo/server';
+import {
+  GraphQLError,
+  specifiedRules,
+  validate,
+  type DocumentNode,
+  type ExecutionResult,
+  type FormattedExecutionResult,
+  type GraphQLFormattedError,
+  type GraphQLSchema,
+  type ValidationRule,
+} from 'graphql';
+
+/**
+ * The Apollo Server options that apply to operations executed outside of
+ * its request pipeline, such as subscription events.
+ * @internal
+ */
+export interface ServerExecutionOptions {
+  formatError?: (
+    formattedError: GraphQLFormattedError,
+    error: unknown,
+  ) => GraphQLFormattedError;
+  includeStacktraceInErrorResponses: boolean;
+  dangerouslyDisableValidation?: boolean;
+  /**
+   * Rules run after the specified rules, including those of the
+   * `validationRules` option.
+   */
+  validationRules: ValidationRule[];
+  /**
+   * Rules run once the others pass, when Apollo Server limits recursive
+   * selections.
+   */
+  laterValidationRules?: ValidationRule[];
+  validationOptions?: Parameters<typeof validate>[3];
+}
+
+/**
+ * Reads the execution options an Apollo Server was created with. Apollo
+ * Server does not expose its configuration, so they are read from its
+ * internal state.
+ *
+ * @param server - The Apollo Server instance
+ * @returns The options
+ * @internal
+ */
+export function getExecutionOptions<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): ServerExecutionOptions {
+  const {
+    formatError,
+    includeStacktraceInErrorResponses,
+    dangerouslyDisableValidation,
+    validationRules,
+    laterValidationRules,
+    validationOptions,
+  } = server['internals'];
+  return {
+    formatError,
+    includeStacktraceInErrorResponses,
+    dangerouslyDisableValidation,
+    validationRules,
+    laterValidationRules,
+    validationOptions,
+  };
+}
+
+/**
+ * Returns true if the server prevents CSRF by requiring a header that forces
+ * a CORS preflight on requests browsers could otherwise send without one.
+ * Read from its internal state, as with {@link getExecutionOptions}.
+ *
+ * @param server - The Apollo Server instance
+ * @returns Whether the `csrfPrevention` option is enabled
+ * @internal
+ */
+export function hasCsrfPrevention<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): boolean {
+  return server['internals'].csrfPreventionRequestHeaders !== null;
+}
+
+/**
+ * Returns a copy of a GraphQL error with an `extensions.code`, as Apollo
+ * Server reports parse and validation errors.
+ *
+ * @param error - The error
+ * @param code - The code, e.g. `GRAPHQL_VALIDATION_FAILED`
+ * @returns The error with the code
+ * @internal
+ */
+export function withErrorCode(error: GraphQLError, code: string): GraphQLError {
+  return new GraphQLError(error.message, {
+    nodes: error.nodes,
+    source: error.source,
+    positions: error.positions,
+    path: error.path,
+    originalError: error.originalError ?? error,
+    extensions: { ...error.extensions, code },
+  });
+}
+
+/**
+ * Validates a document as Apollo Server does, with the server's validation
+ * rules such as depth or cost limits.
+ *
+ * @param schema - The schema
+ * @param document - The parsed operation
+ * @param options - The server's execution options
+ * @returns The validation errors, with the `GRAPHQL_VALIDATION_FAILED` code
+ * @internal
+ */
+export function validateDocument(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  options: ServerExecutionOptions,
+): GraphQLError[] {
+  if (options.dangerouslyDisableValidation) {
+    return [];
+  }
+  let errors = validate(
+    schema,
+    document,
+    [...specifiedRules, ...options.validationRules],
+    options.validationOptions,
+  );
+  if (errors.length === 0 && options.laterValidationRules) {
+    errors = validate(schema, document, options.laterValidationRules);
+  }
+  return errors.map((error) =>
+    withErrorCode(error, 'GRAPHQL_VALIDATION_FAILED'),
+  );
+}
+
+/**
+ * Formats errors the way Apollo Server formats the errors of a response:
+ * with an `extensions.code`, without the `extensions.http` it reads the
+ * response status from, with a stack trace if enabled, and through the
+ * server's `formatError`.
+ *
+ * @param errors - The errors to format
+ * @param options - The server's execution options
+ * @returns The errors to send
+ * @internal
+ */
+export function formatErrors(
+  errors: ReadonlyArray<unknown>,
+  options: ServerExecutionOptions,
+): GraphQLFormattedError[] {
+  const enrich = (maybeError: unknown): GraphQLFormattedError => {
+    const error =
+      maybeError instanceof GraphQLError
+        ? maybeError
+        : new GraphQLError(
+            maybeError instanceof Error
+              ? maybeError.message
+              : `Unexpected error value: ${String(maybeError)}`,
+            { originalError: maybeError instanceof Error ? maybeError : null },
+          );
+    const { http: _, ...extensions } = error.extensions;
+    return {
+      ...error.toJSON(),
+      extensions: {
+        ...extensions,
+        code: extensions.code ?? 'INTERNAL_SERVER_ERROR',
+        ...(options.includeStacktraceInErrorResponses
+          ? { stacktrace: error.stack?.split('\n') }
+          : {}),
+      },
+    };
+  };
+
+  return errors.map((error) => {
+    try {
+      return options.formatError
+        ? options.formatError(enrich(error), error)
+        : enrich(error);
+    } catch (formattingError) {
+      return options.includeStacktraceInErrorResponses
+        ? enrich(formattingError)
+        : {
+            message: 'Internal server error',
+            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+          };
+    }
+  });
+}
+
+/**
+ * Formats the errors of an execution result with {@link formatErrors}.
+ *
+ * @param result - The execution result
+ * @param options - The server's execution options
+ * @returns The result to send
+ * @internal
+ */
+export function formatExecutionResult(
+  result: ExecutionResult,
+  options: ServerExecutionOptions,
+): FormattedExecutionResult {
+  return result.errors
+    ? { ...result, errors: formatErrors(result.errors, options) }
+    : result;
+}
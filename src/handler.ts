@@ -0,0 +1,808 @@
+import {
+  ApolloServer,
+  BaseContext,
+  ContextFunction,
+  HTTPGraphQLRequest,
+  HeaderMap,
+} from '@apollo/server';
+import type {
+  HttpHandler,
+  HttpRequest,
+  InvocationContext,
+} from '@azure/functions';
+
+import type { WithRequired } from '@apollo/utils.withrequired';
+import {
+  AzureFunctionsErrorFormatter,
+  BadRequestError,
+  createErrorResponse,
+  HttpError,
+  InternalServerError,
+  ServiceUnavailableError,
+  TooManyRequestsError,
+  UnsupportedMediaTypeError,
+} from './errors';
+import { assertContentLength, bufferRequestBody, readBodyText } from './body';
+import {
+  addResponseCachePlugin,
+  createResponseCache,
+  type ResponseCacheOptions,
+} from './cache';
+import { createOutputCollector, type AzureFunctionsOutputs } from './outputs';
+import {
+  assertTrustedProxy,
+  resolveRequestInfo,
+  setRequestInfo,
+  type AzureFunctionsRequestInfo,
+  type TrustedProxy,
+  type TrustedProxyOptions,
+} from './proxy';
+import {
+  addAsyncOperationsPlugin,
+  createAsyncOperationDispatcher,
+  type AsyncOperationOptions,
+} from './jobs';
+import { compressResponse, CompressionOptions } from './compression';
+import { applyETag, type ETagOptions } from './etag';
+import { hasCsrfPrevention } from './execution';
+import {
+  resolveTrustedDocuments,
+  TrustedDocumentsOptions,
+  TrustedDocumentStore,
+} from './documents';
+import {
+  CorsOptions,
+  createCorsHeaders,
+  createPreflightResponse,
+  isPreflightRequest,
+  mergeCorsHeaders,
+} from './cors';
+import { ApolloServerFactory, createServerLoader } from './lazy';
+import { runInInvocationScope } from './logger';
+import {
+  AzureFunctionsMiddleware,
+  AzureFunctionsMiddlewareResponse,
+  runMiddleware,
+} from './middleware';
+import { parseMultipartBody, UploadOptions } from './multipart';
+import {
+  BodyParser,
+  BodyParsers,
+  createBodyParsers,
+  getMediaType,
+  isSimpleMediaType,
+} from './parsers';
+import {
+  authenticatePrincipal,
+  ClientPrincipal,
+  PrincipalOptions,
+} from './principal';
+import { createRateLimiter, RateLimitOptions } from './ratelimit';
+import { beginRequest, endRequestWithStream, isShuttingDown } from './server';
+import {
+  acceptsEventStream,
+  captureSchema,
+  executeEventStreamRequest,
+  InMemoryPubSub,
+  PubSubEngine,
+  SubscriptionOptions,
+} from './subscriptions';
+import {
+  addTracingPlugin,
+  createRequestTracer,
+  TracingOptions,
+} from './tracing';
+import type { WebPubSubBridge } from './webpubsub';
+import { getErrorMessage } from './utils';
+
+/**
+ * Validates and normalizes an HTTP status code.
+ * Ensures the status code is within the valid HTTP range (100-599).
+ *
+ * @param status - The status code to normalize
+ * @returns The normalized status code (defaults to 200 if undefined)
+ * @throws {InternalServerError} If status code is outside valid range
+ * @internal
+ */
+export function normalizeStatusCode(status: number | undefined): number {
+  if (status == null) return 200;
+  if (status < 100 || status > 599) {
+    throw new InternalServerError(`Invalid status code: ${status}`);
+  }
+  return status;
+}
+
+export interface AzureFunctionsContextFunctionArgument extends AzureFunctionsRequestInfo {
+  context: InvocationContext;
+  req: HttpRequest;
+  /**
+   * The parsed request body. This is already parsed from the request stream
+   * and should be used instead of calling `req.json()` for better performance.
+   * For POST requests with `application/json` content-type, this contains the parsed JSON object.
+   * For other requests, this will be `null`.
+   */
+  body: unknown;
+  /**
+   * The pub/sub engine for publishing subscription events. Only set when the
+   * `subscriptions` or `webPubSub` option is enabled.
+   */
+  pubsub?: PubSubEngine;
+  /**
+   * The user authenticated by Easy Auth or Static Web Apps. Only set when
+   * the `principal` option trusts the platform headers and the request is
+   * authenticated.
+   */
+  principal?: ClientPrincipal;
+  /**
+   * Collects values for the function's output bindings, such as queue
+   * messages or Cosmos DB documents. They are written to `extraOutputs`
+   * when the operation succeeds, and discarded when it fails.
+   */
+  outputs: AzureFunctionsOutputs;
+}
+
+export interface AzureFunctionsMiddlewareOptions<TContext extends BaseContext> {
+  context?: ContextFunction<[AzureFunctionsContextFunctionArgument], TContext>;
+  /**
+   * Enables built-in CORS handling. Preflight requests are answered directly
+   * and `Access-Control-*` headers are added to every response, including
+   * chunked and error responses.
+   */
+  cors?: CorsOptions;
+  /**
+   * Enables GraphQL multipart requests (file uploads). Pass `true` for the
+   * default limits or an object to configure them. Disabled by default.
+   */
+  uploads?: boolean | UploadOptions;
+  /**
+   * Parsers for POST bodies, by media type. Added to the built-in parsers
+   * for `application/json`, `application/graphql+json`,
+   * `application/graphql` (the body is the query) and
+   * `application/x-www-form-urlencoded`; `false` disables one. Bodies of
+   * other media types get a 415 response, except `text/plain`,
+   * `multipart/form-data` and `application/x-www-form-urlencoded` ones
+   * while Apollo Server's `csrfPrevention` is enabled: it rejects those
+   * with a 400 response unless they carry a preflight header.
+   */
+  bodyParsers?: BodyParsers;
+  /**
+   * Maximum request body size, in bytes. Requests whose `Content-Length`
+   * exceeds the limit are rejected before the body is read, and bodies are
+   * counted as they stream in so reading stops as soon as the limit is
+   * passed. The body is read in full before it is parsed. Oversized
+   * requests get a 413 response. Unlimited by default.
+   */
+  maxBodySize?: number;
+  /**
+   * Enables GraphQL subscriptions over Server-Sent Events. Requests that
+   * accept `text/event-stream` are answered with an event stream following
+   * the graphql-sse protocol. Pass `true` for the defaults or an object to
+   * configure the pub/sub engine and keep-alive interval. Requires
+   * `app.setup({ enableHttpStream: true })`.
+   */
+  subscriptions?: boolean | SubscriptionOptions;
+  /**
+   * Sends events published through the context function's `pubsub` to
+   * graphql-ws clients subscribed through Web PubSub. Add the bridge's
+   * `output` to the function's `extraOutputs`.
+   */
+  webPubSub?: WebPubSubBridge;
+  /**
+   * Only runs operations from a trusted document (persisted query)
+   * manifest. Operations can be sent by id or hash, in GET or POST requests;
+   * free-form queries must match a document in the manifest. In `audit` mode,
+   * untrusted operations are logged instead of rejected.
+   */
+  trustedDocuments?: TrustedDocumentsOptions;
+  /**
+   * Compresses responses with br, gzip or deflate, as negotiated from
+   * `Accept-Encoding`. Pass `true` for the defaults or an object to set the
+   * size threshold and encodings. Buffered bodies below the threshold are
+   * sent as-is; chunked (`@defer`) responses are compressed incrementally.
+   */
+  compression?: boolean | CompressionOptions;
+  /**
+   * Adds an ETag to successful GET responses, computed from the body and
+   * the request headers named in `Vary`, and answers requests whose
+   * `If-None-Match` matches with an empty 304 response. Responses with
+   * errors and chunked (`@defer`) responses are skipped. Pass `true` for
+   * weak ETags or an object to send strong ones.
+   */
+  etag?: boolean | ETagOptions;
+  /**
+   * Caches whole responses to GET requests for the `maxAge` of their cache
+   * policy, set with `@cacheControl` hints, so repeated queries skip
+   * execution. `PRIVATE` responses are cached for each user authenticated
+   * through the `principal` option. Responses carry an `X-Cache` header of
+   * `HIT` or `MISS`, and cached ones an `Age` header. Pass `true` for an
+   * in-memory cache or an object to set the cache and `Vary` headers.
+   */
+  responseCache?: boolean | ResponseCacheOptions;
+  /**
+   * Hands off long-running mutations to a queue instead of executing them:
+   * mutations marked with the `@async` directive or listed by name are
+   * sent to the queue output binding, and the request gets a 202 response
+   * with the pending job. Run the queue with
+   * `startServerAndCreateMessageHandler`, which records each job's result
+   * in the store, and report it with `createJobStatusHandler`.
+   */
+  asyncOperations?: AsyncOperationOptions<TContext>;
+  /**
+   * Traces requests with OpenTelemetry. Each request gets a server span,
+   * parented from the invocation's trace context or the `traceparent`
+   * header, with child spans for parsing, validation, execution and each
+   * resolver. Pass `true` to use the global tracer provider or an object to
+   * configure it. Requires the `@opentelemetry/api` package.
+   */
+  tracing?: boolean | TracingOptions;
+  /**
+   * Decodes the user authenticated by App Service Authentication (Easy
+   * Auth) or Static Web Apps from the `x-ms-client-principal` headers into
+   * the context function's `principal`. The headers are ignored unless
+   * `trustHeaders` is set. Requests can be rejected with 401 when
+   * anonymous or 403 when missing a required role.
+   */
+  principal?: PrincipalOptions;
+  /**
+   * The reverse proxy whose forwarding headers are trusted to resolve the
+   * client IP, host and protocol of requests, e.g. for the context
+   * function and rate limiting. Front Door must be passed as an object
+   * with its `frontDoorId`. Defaults to `none`.
+   */
+  trustedProxy?: TrustedProxy | TrustedProxyOptions;
+  /**
+   * Limits how many requests each client can make, by IP address,
+   * principal, header (such as an API key) or a custom key. Requests over
+   * the limit get a 429 response with a `Retry-After` header; every
+   * response carries `RateLimit-*` headers. Requests can be weighted by
+   * operation type or name.
+   */
+  rateLimit?: RateLimitOptions;
+  /**
+   * Functions run in order around the execution of each request, after the
+   * body is parsed. Each receives the Azure request, the normalized GraphQL
+   * request and the invocation context, and can short-circuit with its own
+   * response, change the request, or change the response (buffered or
+   * chunked) returned by `next`. CORS headers and compression are applied
+   * to the final response.
+   */
+  middleware?: AzureFunctionsMiddleware[];
+  /**
+   * Formats the errors of requests the handler rejects itself, such as
+   * malformed bodies, oversized requests or errors thrown by middleware.
+   * These are sent as `{ "errors": [...] }` JSON with an `extensions.code`.
+   * Errors raised while executing operations are formatted by Apollo
+   * Server's own `formatError`.
+   */
+  formatError?: AzureFunctionsErrorFormatter;
+}
+
+const defaultContext: ContextFunction<
+  [AzureFunctionsContextFunctionArgument],
+  BaseContext
+> = async () => ({});
+
+/**
+ * Transforms an async iterable of strings into an async iterable of Uint8Array.
+ * Used for streaming chunked GraphQL responses.
+ *
+ * @param source - An async iterable of string chunks
+ * @returns An async iterable of Uint8Array chunks encoded as UTF-8
+ * @internal
+ */
+async function* toUint8ArrayStream(
+  source: AsyncIterable<string>,
+): AsyncIterable<Uint8Array> {
+  const encoder = new TextEncoder();
+  for await (const chunk of source) {
+    yield encoder.encode(chunk);
+  }
+}
+
+/**
+ * Creates an Azure Functions HTTP handler for Apollo Server.
+ *
+ * Integrates Apollo Server with Azure Functions v4, handling request/response
+ * transformation. The server starts in the background once the handlers
+ * created at startup have set it up.
+ *
+ * ## Usage Examples
+ *
+ * Basic:
+ * ```typescript
+ * const server = new ApolloServer({ typeDefs, resolvers });
+ * export default startServerAndCreateHandler(server);
+ * ```
+ *
+ * With context:
+ * ```typescript
+ * export default startServerAndCreateHandler(server, {
+ *   context: async ({ req, body, context }) => ({ user: await getUser(req) }),
+ * });
+ * ```
+ *
+ * With CORS:
+ * ```typescript
+ * export default startServerAndCreateHandler(server, {
+ *   cors: { origin: [/\.preview\.example\.com$/], credentials: true },
+ * });
+ * ```
+ *
+ * With subscriptions over Server-Sent Events:
+ * ```typescript
+ * app.setup({ enableHttpStream: true });
+ * export default startServerAndCreateHandler(server, { subscriptions: true });
+ * ```
+ *
+ * Built lazily, to keep schema building out of cold start:
+ * ```typescript
+ * export default startServerAndCreateHandler(
+ *   async () => new ApolloServer({ typeDefs: await loadSchema(), resolvers }),
+ * );
+ * ```
+ *
+ * ## Important Notes
+ *
+ * - Do not call `req.json()` in context function - use the `body` parameter instead
+ * - Errors return 400 (bad requests), 401/403 (requests rejected by the
+ *   `principal` option), 413 (bodies over `maxBodySize`), 415 (bodies of
+ *   unsupported media types), 429 (requests over the `rateLimit`), 503
+ *   (during a graceful shutdown) or 500 (internal errors) with a GraphQL
+ *   `{ "errors": [...] }` JSON body, without exposing internal details
+ * - With the `asyncOperations` option, queued mutations get a 202 response
+ *   with the pending job, once Apollo Server has accepted the request
+ * - With the `etag` option, GET requests whose `If-None-Match` matches the
+ *   response's ETag get a 304 response without a body
+ *
+ * @param server - The Apollo Server instance, or a factory that builds it on
+ * first invocation
+ * @param options - Optional configuration including context function
+ * @returns An Azure Functions HTTP handler
+ * @throws {Error} If `front-door` is trusted without a `frontDoorId`
+ */
+export function startServerAndCreateHandler(
+  server: ApolloServer<BaseContext> | ApolloServerFactory<BaseContext>,
+  options?: AzureFunctionsMiddlewareOptions<BaseContext>,
+): HttpHandler;
+export function startServerAndCreateHandler<TContext extends BaseContext>(
+  server: ApolloServer<TContext> | ApolloServerFactory<TContext>,
+  options: WithRequired<AzureFunctionsMiddlewareOptions<TContext>, 'context'>,
+): HttpHandler;
+export function startServerAndCreateHandler<TContext extends BaseContext>(
+  serverOrFactory: ApolloServer<TContext> | ApolloServerFactory<TContext>,
+  options?: AzureFunctionsMiddlewareOptions<TContext>,
+): HttpHandler {
+  return createHandler(serverOrFactory, options);
+}
+
+/**
+ * Implements {@link startServerAndCreateHandler} for options of any context
+ * type. Without a context function, the default context is used.
+ *
+ * @param serverOrFactory - The Apollo Server instance, or a factory for it
+ * @param options - Optional configuration including context function
+ * @returns An Azure Functions HTTP handler
+ * @throws {Error} If `front-door` is trusted without a `frontDoorId`
+ * @internal
+ */
+export function createHandler<TContext extends BaseContext>(
+  serverOrFactory: ApolloServer<TContext> | ApolloServerFactory<TContext>,
+  options?: AzureFunctionsMiddlewareOptions<TContext>,
+): HttpHandler {
+  assertTrustedProxy(options?.trustedProxy);
+  const subscriptions =
+    options?.subscriptions === true ? {} : options?.subscriptions || undefined;
+  const pubsub = subscriptions
+    ? (subscriptions.pubsub ?? new InMemoryPubSub())
+    : undefined;
+  const bodyParsers = createBodyParsers(options?.bodyParsers);
+  const rateLimiter = options?.rateLimit
+    ? createRateLimiter(options.rateLimit)
+    : undefined;
+  const compression =
+    options?.compression === true ? {} : options?.compression || undefined;
+  const etag = options?.etag === true ? {} : options?.etag || undefined;
+  const responseCache = options?.responseCache
+    ? createResponseCache(
+        options.responseCache === true ? {} : options.responseCache,
+      )
+    : undefined;
+  const dispatchAsyncOperation = options?.asyncOperations
+    ? createAsyncOperationDispatcher(options.asyncOperations)
+    : undefined;
+  const trustedDocuments = options?.trustedDocuments
+    ? new TrustedDocumentStore(options.trustedDocuments)
+    : undefined;
+  const tracing = options?.tracing
+    ? createRequestTracer(options.tracing === true ? {} : options.tracing)
+    : undefined;
+  // Plugins must be added before the server starts.
+  const getServer = createServerLoader(serverOrFactory, (server) => {
+    if (subscriptions) {
+      captureSchema(server);
+    }
+    if (tracing) {
+      addTracingPlugin(server);
+    }
+    if (dispatchAsyncOperation) {
+      addAsyncOperationsPlugin(server);
+    }
+    if (responseCache) {
+      addResponseCachePlugin(server);
+    }
+  });
+  const handler = async (req: HttpRequest, context: InvocationContext) => {
+    const contextFunction = (options?.context ??
+      defaultContext) as ContextFunction<
+      [AzureFunctionsContextFunctionArgument],
+      TContext
+    >;
+    const requestPubSub = options?.webPubSub
+      ? options.webPubSub.createPubSub(context, pubsub)
+      : pubsub;
+    let corsHeaders: Record<string, string> = {};
+    let rateLimitHeaders: Record<string, string> = {};
+    let endRequest: (() => void) | undefined;
+    try {
+      if (options?.cors) {
+        if (isPreflightRequest(req)) {
+          return await createPreflightResponse(options.cors, req);
+        }
+        corsHeaders = await createCorsHeaders(options.cors, req);
+      }
+
+      const server = await getServer();
+      if (isShuttingDown(server)) {
+        throw new ServiceUnavailableError('Server is shutting down');
+      }
+      // Count the request as in flight for a graceful shutdown.
+      endRequest = beginRequest(server);
+
+      // Authorize before the body is read.
+      const principal = options?.principal
+        ? authenticatePrincipal(req, options.principal)
+        : undefined;
+
+      // Reject oversized requests before cloning, and read the body within
+      // the limit, so the clone never buffers more than the limit.
+      if (options?.maxBodySize != null) {
+        assertContentLength(req, options.maxBodySize);
+        req = await bufferRequestBody(req, options.maxBodySize);
+      }
+
+      // Clone request BEFORE normalizeRequest consumes it.
+      // normalizeRequest() will consume the original request's body stream via req.json().
+      // The clone is preserved and passed to the context function for user access.
+      // This ensures users can still read request properties from an unconsumed request.
+      const cloneReq = req.clone();
+      let normalizedRequest = await normalizeRequest(req, {
+        csrfPrevention: hasCsrfPrevention(server),
+        uploads: options?.uploads === true ? {} : options?.uploads || undefined,
+        maxBodySize: options?.maxBodySize,
+        bodyParsers,
+      });
+      if (trustedDocuments) {
+        normalizedRequest = await resolveTrustedDocuments(
+          normalizedRequest,
+          trustedDocuments,
+          context,
+        );
+      }
+
+      // Resolve after the URL is validated by normalizeRequest.
+      const requestInfo = resolveRequestInfo(req, options?.trustedProxy);
+
+      // Limit after parsing, so operations can be weighted.
+      if (rateLimiter) {
+        const rateLimit = await rateLimiter({
+          req: cloneReq,
+          request: normalizedRequest,
+          context,
+          principal,
+          clientIp: requestInfo.clientIp,
+        });
+        rateLimitHeaders = rateLimit.headers;
+        if (!rateLimit.allowed) {
+          throw new TooManyRequestsError();
+        }
+      }
+
+      setRequestInfo(normalizedRequest, requestInfo);
+      const outputCollector = createOutputCollector(context);
+      const createContext = () =>
+        contextFunction({
+          ...requestInfo,
+          context,
+          req: cloneReq,
+          body: normalizedRequest.body,
+          pubsub: requestPubSub,
+          principal,
+          outputs: outputCollector.outputs,
+        });
+
+      // Route logs emitted while executing to this invocation.
+      const inScope = <T>(fn: () => T) =>
+        runInInvocationScope(
+          context,
+          normalizedRequest.method === 'GET'
+            ? Object.fromEntries(new URLSearchParams(normalizedRequest.search))
+            : normalizedRequest.body,
+          fn,
+        );
+
+      const executeOperation = async (
+        httpGraphQLRequest = normalizedRequest,
+      ): Promise<AzureFunctionsMiddlewareResponse> => {
+        const { body, headers, status } = await inScope(() =>
+          server.executeHTTPGraphQLRequest({
+            httpGraphQLRequest,
+            context: createContext,
+          }),
+        );
+
+        return body.kind === 'chunked'
+          ? {
+              status: normalizeStatusCode(status),
+              headers: {
+                // Apollo Server provides headers via HeaderMap.
+                // Convert to plain object for Azure Functions.
+                // Note: If Apollo Server sets Transfer-Encoding, this will be overridden.
+                ...Object.fromEntries(headers),
+                'Transfer-Encoding': 'chunked',
+              },
+              body: toUint8ArrayStream(body.asyncIterator),
+            }
+          : {
+              status: normalizeStatusCode(status),
+              headers: {
+                // Apollo Server provides headers via HeaderMap.
+                // Convert to plain object for Azure Functions.
+                // Note: We explicitly set content-length for non-chunked responses.
+                ...Object.fromEntries(headers),
+                'content-length': Buffer.byteLength(body.string).toString(),
+              },
+              body: body.string,
+            };
+      };
+
+      const execute = async (): Promise<AzureFunctionsMiddlewareResponse> => {
+        if (subscriptions && acceptsEventStream(normalizedRequest)) {
+          return await inScope(() =>
+            executeEventStreamRequest(
+              server,
+              normalizedRequest,
+              createContext,
+              subscriptions,
+            ),
+          );
+        }
+
+        if (dispatchAsyncOperation) {
+          const accepted = await dispatchAsyncOperation(
+            normalizedRequest,
+            context,
+            executeOperation,
+          );
+          if (accepted) {
+            return accepted;
+          }
+        }
+        if (responseCache && normalizedRequest.method === 'GET') {
+          return await responseCache(
+            { request: normalizedRequest, context, principal },
+            executeOperation,
+          );
+        }
+        return await executeOperation();
+      };
+
+      let result = options?.middleware?.length
+        ? await runMiddleware(
+            options.middleware,
+            { req: cloneReq, request: normalizedRequest, context },
+            execute,
+          )
+        : await execute();
+      outputCollector.apply(result);
+      if (etag && normalizedRequest.method === 'GET') {
+        result = applyETag(
+          result,
+          req,
+          etag,
+          // Strong ETags must differ for each encoding of the body.
+          compression && etag.weak === false ? ['accept-encoding'] : [],
+        );
+      }
+      const response = {
+        ...result,
+        headers: mergeCorsHeaders(
+          { ...result.headers, ...rateLimitHeaders },
+          corsHeaders,
+        ),
+      };
+
+      const sent = compression
+        ? await compressResponse(
+            response,
+            req.headers.get('accept-encoding'),
+            compression,
+          )
+        : response;
+      if (
+        typeof sent.body === 'object' &&
+        sent.body !== null &&
+        Symbol.asyncIterator in sent.body
+      ) {
+        // Stay in flight until the stream has been sent, not just started.
+        const end = endRequest;
+        endRequest = undefined;
+        return { ...sent, body: endRequestWithStream(sent.body, end) };
+      }
+      return sent;
+    } catch (e) {
+      context.error('Failure processing GraphQL request', e);
+
+      // Return appropriate HTTP status based on error type.
+      // Never expose internal error details for security.
+      const response = createErrorResponse(
+        e,
+        req.headers.get('accept'),
+        context,
+        options?.formatError,
+      );
+      return {
+        ...response,
+        headers: mergeCorsHeaders(
+          { ...response.headers, ...rateLimitHeaders },
+          corsHeaders,
+        ),
+      };
+    } finally {
+      endRequest?.();
+    }
+  };
+  if (!tracing) {
+    return handler;
+  }
+  return (req: HttpRequest, context: InvocationContext) =>
+    tracing(req, context, () => handler(req, context));
+}
+
+/**
+ * Options controlling how request bodies are parsed.
+ * @internal
+ */
+interface ParseBodyOptions {
+  /**
+   * Whether Apollo Server's CSRF prevention checks the request.
+   */
+  csrfPrevention?: boolean;
+  uploads?: UploadOptions;
+  maxBodySize?: number;
+  bodyParsers?: Map<string, BodyParser>;
+}
+
+/**
+ * Normalizes an Azure Functions HttpRequest to Apollo Server's HTTPGraphQLRequest format.
+ *
+ * @param req - The Azure Functions HTTP request
+ * @param parseOptions - Options controlling body parsing
+ * @returns A normalized HTTPGraphQLRequest
+ * @throws {BadRequestError} If the request method is missing or URL is malformed
+ * @throws {BadRequestError} If the request body is invalid JSON
+ * @internal
+ */
+async function normalizeRequest(
+  req: HttpRequest,
+  parseOptions: ParseBodyOptions = {},
+): Promise<HTTPGraphQLRequest> {
+  if (!req.method) {
+    throw new BadRequestError('No method');
+  }
+
+  let search: string;
+  try {
+    search = new URL(req.url).search;
+  } catch (e) {
+    throw new BadRequestError(
+      `Invalid request URL: ${getErrorMessage(e, 'Malformed URL')}`,
+    );
+  }
+
+  return {
+    method: req.method,
+    headers: normalizeHeaders(req),
+    search,
+    body: await parseBody(req, parseOptions),
+  };
+}
+
+/**
+ * Parses the request body for POST requests with the body parser registered
+ * for its media type, or with `multipart/form-data` content when uploads are
+ * enabled.
+ *
+ * Note: This function consumes the request body stream. The request cannot be
+ * read again after this function is called.
+ *
+ * @param req - The Azure Functions HTTP request
+ * @param parseOptions - Options controlling body parsing
+ * @returns The parsed body for POST requests, null otherwise
+ * @throws {BadRequestError} If the body is malformed
+ * @throws {PayloadTooLargeError} If the body exceeds `maxBodySize`
+ * @throws {UnsupportedMediaTypeError} If no parser handles the media type,
+ * unless it is one browsers send without a preflight
+ * @internal
+ */
+async function parseBody(
+  req: HttpRequest,
+  parseOptions: ParseBodyOptions,
+): Promise<unknown> {
+  // Early exit for non-POST requests
+  if (req.method !== 'POST') {
+    return null;
+  }
+
+  // Headers.get() is case-insensitive per Web API spec (RFC 7230)
+  const contentType = req.headers.get('content-type');
+  if (
+    parseOptions.uploads &&
+    contentType?.toLowerCase().startsWith('multipart/form-data')
+  ) {
+    return parseMultipartBody(
+      req,
+      contentType,
+      parseOptions.uploads,
+      parseOptions.maxBodySize,
+    );
+  }
+  if (!contentType) {
+    throw new UnsupportedMediaTypeError('Missing content-type header');
+  }
+  const mediaType = getMediaType(contentType);
+  const parser = (parseOptions.bodyParsers ?? createBodyParsers()).get(
+    mediaType,
+  );
+  if (!parser) {
+    // Leave requests browsers send without a preflight to Apollo Server,
+    // which rejects them itself as part of its CSRF prevention.
+    if (parseOptions.csrfPrevention && isSimpleMediaType(mediaType)) {
+      return null;
+    }
+    throw new UnsupportedMediaTypeError(
+      `Unsupported content-type: ${mediaType}`,
+    );
+  }
+
+  try {
+    // With a size limit, read the stream ourselves so oversized bodies are
+    // never fully buffered.
+    const body =
+      parseOptions.maxBodySize != null
+        ? await readBodyText(req, parseOptions.maxBodySize)
+        : await req.text();
+    return await parser(body, req);
+  } catch (e) {
+    if (e instanceof HttpError) {
+      throw e;
+    }
+    throw new BadRequestError(
+      `Invalid request body: ${getErrorMessage(e, 'Malformed body')}`,
+    );
+  }
+}
+
+/**
+ * Converts Azure Functions HTTP headers to Apollo Server's HeaderMap format.
+ * @param req - The Azure Functions HTTP request
+ * @returns A HeaderMap containing all request headers
+ * @internal
+ */
+function normalizeHeaders(req: HttpRequest): HeaderMap {
+  const headerMap = new HeaderMap();
+
+  for (const [key, value] of req.headers.entries()) {
+    headerMap.set(key, value ?? '');
+  }
+  return headerMap;
+}
@@ -0,0 +1,207 @@
+import type { ApolloServer, BaseContext } from '@apollo/server';
+import type { HttpHandler, InvocationContext } from '@azure/functions';
+import { ApolloServerFactory, createServerLoader } from './lazy';
+import { getServerState, ServerState } from './server';
+import { getErrorMessage } from './utils';
+
+/**
+ * A dependency check run by a readiness probe. The check fails if it
+ * throws, rejects, returns `false` or does not settle within its timeout.
+ */
+export type HealthCheckFunction = (
+  context: InvocationContext,
+) => unknown | Promise<unknown>;
+
+export interface HealthCheck {
+  check: HealthCheckFunction;
+  /**
+   * How long to wait for the check, in milliseconds. Defaults to the
+   * handler's `timeout`.
+   */
+  timeout?: number;
+  /**
+   * Whether a failure of this check makes the probe fail. Non-critical
+   * failures are reported but the probe still passes. Defaults to true.
+   */
+  critical?: boolean;
+}
+
+export interface HealthHandlerOptions {
+  /**
+   * `liveness` reports whether the function app is alive: it fails only if
+   * the server failed to start, and runs no checks. `readiness` reports
+   * whether it can serve requests: it fails while the server is starting,
+   * draining or stopping, if it failed to start, or if a critical check
+   * fails. Defaults to `readiness`.
+   */
+  probe?: 'liveness' | 'readiness';
+  /**
+   * Dependency checks run by readiness probes, by name. Checks run
+   * concurrently.
+   */
+  checks?: Record<string, HealthCheckFunction | HealthCheck>;
+  /**
+   * Default timeout for checks, in milliseconds. Defaults to 5000.
+   */
+  timeout?: number;
+  /**
+   * Whether to include the error messages of failed checks in the report.
+   * Failures are always logged. Defaults to false.
+   */
+  exposeErrors?: boolean;
+}
+
+/**
+ * The result of a single dependency check.
+ */
+export interface HealthCheckResult {
+  status: 'pass' | 'fail';
+  durationMs: number;
+  critical: boolean;
+  error?: string;
+}
+
+/**
+ * The JSON body of a health handler response.
+ */
+export interface HealthReport {
+  status: 'pass' | 'fail';
+  server: ServerState;
+  checks: Record<string, HealthCheckResult>;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+
+/**
+ * Runs a check, failing it if it does not settle within the timeout.
+ * @internal
+ */
+async function runCheck(
+  name: string,
+  check: HealthCheck,
+  timeout: number,
+  context: InvocationContext,
+  exposeErrors: boolean,
+): Promise<HealthCheckResult> {
+  const critical = check.critical ?? true;
+  const started = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const result = await Promise.race([
+      Promise.resolve().then(() => check.check(context)),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${timeout} ms`)),
+          timeout,
+        );
+      }),
+    ]);
+    if (result === false) {
+      throw new Error('Check returned false');
+    }
+    return { status: 'pass', durationMs: Date.now() - started, critical };
+  } catch (e) {
+    context.warn(`Health check "${name}" failed`, e);
+    return {
+      status: 'fail',
+      durationMs: Date.now() - started,
+      critical,
+      ...(exposeErrors ? { error: getErrorMessage(e, 'Check failed') } : {}),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Creates an Azure Functions HTTP handler for liveness and readiness probes,
+ * such as the App Service health check or deployment slot swap warm-up.
+ *
+ * The handler responds with a JSON {@link HealthReport} and status 200 when
+ * the probe passes, or 503 when it fails. Startup errors, which otherwise
+ * only show when queries start failing, fail both probes.
+ *
+ * ```typescript
+ * app.http('ready', {
+ *   route: 'health/ready',
+ *   handler: createHealthHandler(server, {
+ *     checks: { database: () => db.ping() },
+ *   }),
+ * });
+ * app.http('live', {
+ *   route: 'health/live',
+ *   handler: createHealthHandler(server, { probe: 'liveness' }),
+ * });
+ * ```
+ *
+ * The server is started in the background if no other handler started it.
+ * A factory is built by the first probe, which waits for the server to
+ * start; if that fails, the probe reports `failed` and the next one builds
+ * it again.
+ *
+ * @param serverOrFactory - The Apollo Server instance, or the factory
+ * passed to the handlers
+ * @param options - The probe type and dependency checks
+ * @returns An Azure Functions HTTP handler
+ */
+export function createHealthHandler<TContext extends BaseContext>(
+  serverOrFactory: ApolloServer<TContext> | ApolloServerFactory<TContext>,
+  options: HealthHandlerOptions = {},
+): HttpHandler {
+  const probe = options.probe ?? 'readiness';
+  const checks = Object.entries(options.checks ?? {}).map(
+    ([name, check]) =>
+      [name, typeof check === 'function' ? { check } : check] as const,
+  );
+  const getServer = createServerLoader(serverOrFactory);
+
+  return async (_req, context) => {
+    let state: ServerState;
+    let error: unknown;
+    try {
+      ({ state = 'starting', error } = getServerState(await getServer()) ?? {});
+    } catch (e) {
+      state = 'failed';
+      error = e;
+    }
+    if (error) {
+      context.error('GraphQL server failed to start', error);
+    }
+
+    const results: Record<string, HealthCheckResult> = {};
+    if (probe === 'readiness' && state === 'ready') {
+      await Promise.all(
+        checks.map(async ([name, check]) => {
+          results[name] = await runCheck(
+            name,
+            check,
+            check.timeout ?? options.timeout ?? DEFAULT_TIMEOUT,
+            context,
+            options.exposeErrors ?? false,
+          );
+        }),
+      );
+    }
+
+    const passed =
+      probe === 'liveness'
+        ? state !== 'failed'
+        : state === 'ready' &&
+          Object.values(results).every(
+            (result) => result.status === 'pass' || !result.critical,
+          );
+    const report: HealthReport = {
+      status: passed ? 'pass' : 'fail',
+      server: state,
+      checks: results,
+    };
+    return {
+      status: passed ? 200 : 503,
+      headers: {
+        'content-type': 'application/json; charset=utf-8',
+        'cache-control': 'no-store',
+      },
+      body: JSON.stringify(report),
+    };
+  };
+}
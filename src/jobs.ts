@@ -0,0 +1,427 @@
+import {
+  HeaderMap,
+  type ApolloServer,
+  type BaseContext,
+  type HTTPGraphQLRequest,
+} from '@apollo/server';
+import type {
+  FunctionOutput,
+  HttpHandler,
+  HttpRequest,
+  InvocationContext,
+} from '@azure/functions';
+import {
+  getOperationAST,
+  parse,
+  print,
+  visit,
+  type GraphQLFormattedError,
+} from 'graphql';
+import { randomUUID } from 'node:crypto';
+import { createErrorResponse, NotFoundError } from './errors';
+import type { AzureFunctionsMiddlewareResponse } from './middleware';
+import { getRequestInfo, setRequestInfo } from './proxy';
+
+/**
+ * The state of a job: `pending` until the queue trigger runs the operation,
+ * then `completed`, or `failed` if the result has errors.
+ */
+export type JobStatus = 'pending' | 'completed' | 'failed';
+
+/**
+ * A mutation handed off to a queue by the `asyncOperations` option.
+ */
+export interface Job {
+  id: string;
+  status: JobStatus;
+  operationName?: string;
+  /**
+   * Who queued the job, as returned by the `owner` function of the
+   * `asyncOperations` option.
+   */
+  owner?: string;
+  /**
+   * When the job was queued, as an ISO 8601 timestamp.
+   */
+  createdAt: string;
+  /**
+   * When the job completed or failed, as an ISO 8601 timestamp.
+   */
+  finishedAt?: string;
+  data?: Record<string, unknown> | null;
+  errors?: ReadonlyArray<GraphQLFormattedError>;
+}
+
+/**
+ * Stores the state of jobs. Implement it on top of a shared store such as
+ * Table Storage or Cosmos DB, since jobs are queued, run and polled by
+ * different instances.
+ */
+export interface JobStore {
+  get(id: string): Promise<Job | undefined>;
+  /**
+   * Creates or replaces a job.
+   */
+  set(job: Job): Promise<void>;
+}
+
+/**
+ * A {@link JobStore} that keeps jobs in memory, dropping the oldest ones
+ * when it is full. It only works when the same instance queues, runs and
+ * polls a job, so use it for tests and local development.
+ */
+export class InMemoryJobStore implements JobStore {
+  private readonly jobs = new Map<string, Job>();
+  private readonly maxJobs: number;
+
+  /**
+   * @param options - `maxJobs` caps how many jobs are kept. Defaults to
+   * 1000.
+   */
+  constructor(options: { maxJobs?: number } = {}) {
+    this.maxJobs = options.maxJobs ?? 1000;
+  }
+
+  async get(id: string): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async set(job: Job): Promise<void> {
+    this.jobs.set(job.id, job);
+    while (this.jobs.size > this.maxJobs) {
+      // Maps iterate in insertion order, so the first job is the oldest.
+      this.jobs.delete(this.jobs.keys().next().value as string);
+    }
+  }
+}
+
+export interface AsyncOperationOptions<
+  TContext extends BaseContext = BaseContext,
+> {
+  /**
+   * The queue output binding async operations are sent to, e.g. created
+   * with `output.storageQueue()`. Add it to the function's `extraOutputs`,
+   * and run the queue with `startServerAndCreateMessageHandler` and the
+   * same `store`.
+   */
+  output: FunctionOutput;
+  /**
+   * Where the state of jobs is kept.
+   */
+  store: JobStore;
+  /**
+   * Names of mutations that always run asynchronously.
+   */
+  operations?: string[];
+  /**
+   * A directive that makes a mutation run asynchronously, e.g.
+   * `mutation Import @async { ... }`. It is removed before the operation is
+   * queued. Defaults to `async`.
+   */
+  directive?: string;
+  /**
+   * Returns what the queue handler needs to authorize the operation, e.g.
+   * the user id and roles, from the value of the context function. It is
+   * sent as `auth` in the queue message, and read by the context function
+   * of `startServerAndCreateMessageHandler` from `operation.auth`. It must
+   * be JSON-serializable.
+   */
+  auth?: (contextValue: TContext) => unknown;
+  /**
+   * Returns who queued the operation, e.g. the user id, from the value of
+   * the context function. It is recorded as the job's `owner`, for the
+   * `authorize` option of `createJobStatusHandler` to check.
+   */
+  owner?: (
+    contextValue: TContext,
+  ) => string | undefined | Promise<string | undefined>;
+}
+
+export interface JobStatusHandlerOptions {
+  /**
+   * Decides whether a request may read a job, e.g. by comparing the
+   * caller with the job's `owner`. Jobs it refuses get the same 404
+   * response as unknown jobs. Without it, anyone who knows a job's id can
+   * read its result.
+   */
+  authorize?: (req: HttpRequest, job: Job) => boolean | Promise<boolean>;
+}
+
+/**
+ * Queues a request if it is an async operation, and returns the 202
+ * response to send. The request is first executed by Apollo Server, so
+ * CSRF prevention, the context function and plugins run as for other
+ * requests, and their error responses are returned instead. Returns
+ * undefined for other requests.
+ * @internal
+ */
+export type AsyncOperationDispatcher = (
+  request: HTTPGraphQLRequest,
+  context: InvocationContext,
+  execute: (
+    request: HTTPGraphQLRequest,
+  ) => Promise<AzureFunctionsMiddlewareResponse>,
+) => Promise<AzureFunctionsMiddlewareResponse | undefined>;
+
+/**
+ * Queues the operation of an async request, given the value of the context
+ * function.
+ * @internal
+ */
+type QueueOperation = (contextValue: BaseContext) => Promise<void>;
+
+/**
+ * Async requests being executed, by the request passed to Apollo Server.
+ * @internal
+ */
+const asyncRequests = new WeakMap<object, QueueOperation>();
+
+const asyncOperationServers = new WeakSet<object>();
+
+/**
+ * Registers a plugin that queues async operations once Apollo Server has
+ * resolved them, instead of executing them. Must be called before the
+ * server starts.
+ *
+ * @param server - The Apollo Server instance
+ * @throws {Error} If the server has already been started
+ * @internal
+ */
+export function addAsyncOperationsPlugin<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): void {
+  if (asyncOperationServers.has(server)) {
+    return;
+  }
+  try {
+    server.addPlugin({
+      async requestDidStart({ request }) {
+        const queue = request.http && asyncRequests.get(request.http);
+        if (!queue) {
+          return;
+        }
+        return {
+          async responseForOperation({ contextValue }) {
+            await queue(contextValue);
+            // Replaced by the 202 response.
+            return {
+              http: { status: 202, headers: new HeaderMap() },
+              body: { kind: 'single', singleResult: {} },
+            };
+          },
+        };
+      },
+    });
+  } catch (e) {
+    throw new Error(
+      'The asyncOperations option requires a server that has not been started yet',
+      { cause: e },
+    );
+  }
+  asyncOperationServers.add(server);
+}
+
+/**
+ * Creates a function that hands off async mutations to the queue. Only
+ * single, syntactically valid POST operations are considered; anything
+ * else is executed as usual, so Apollo Server reports its errors. Pass the
+ * server to {@link addAsyncOperationsPlugin} for operations to be queued.
+ *
+ * @param options - The queue, job store and what makes a mutation async
+ * @returns The dispatcher
+ * @internal
+ */
+export function createAsyncOperationDispatcher<TContext extends BaseContext>(
+  options: AsyncOperationOptions<TContext>,
+): AsyncOperationDispatcher {
+  const directive = options.directive ?? 'async';
+  const operations = new Set(options.operations ?? []);
+
+  return async (request, context, execute) => {
+    const { body } = request;
+    if (
+      request.method !== 'POST' ||
+      body === null ||
+      typeof body !== 'object' ||
+      Array.isArray(body)
+    ) {
+      return undefined;
+    }
+    const { query, variables, operationName, extensions } = body as Record<
+      string,
+      unknown
+    >;
+    if (typeof query !== 'string') {
+      return undefined;
+    }
+    let operation: ReturnType<typeof getOperationAST>;
+    let document: ReturnType<typeof parse>;
+    try {
+      document = parse(query);
+      operation = getOperationAST(
+        document,
+        typeof operationName === 'string' ? operationName : undefined,
+      );
+    } catch {
+      return undefined;
+    }
+    if (operation?.operation !== 'mutation') {
+      return undefined;
+    }
+    const marked = operation.directives?.some(
+      (node) => node.name.value === directive,
+    );
+    if (!marked && !operations.has(operation.name?.value ?? '')) {
+      return undefined;
+    }
+
+    const name = operation.name?.value;
+    // The schema need not declare the directive.
+    const queuedQuery = marked
+      ? print(
+          visit(document, {
+            OperationDefinition: (node) =>
+              node === operation
+                ? {
+                    ...node,
+                    directives: node.directives?.filter(
+                      (d) => d.name.value !== directive,
+                    ),
+                  }
+                : undefined,
+          }),
+        )
+      : query;
+    const queuedRequest: HTTPGraphQLRequest = {
+      ...request,
+      body: { ...body, query: queuedQuery },
+    };
+    const info = getRequestInfo(request);
+    if (info) {
+      setRequestInfo(queuedRequest, info);
+    }
+
+    let queued: Promise<Job> | undefined;
+    asyncRequests.set(queuedRequest, async (contextValue) => {
+      queued = (async () => {
+        const auth = await options.auth?.(contextValue as TContext);
+        const owner = await options.owner?.(contextValue as TContext);
+        const job: Job = {
+          id: randomUUID(),
+          status: 'pending',
+          operationName: name,
+          ...(owner !== undefined ? { owner } : {}),
+          createdAt: new Date().toISOString(),
+        };
+        await options.store.set(job);
+        context.extraOutputs.set(options.output, {
+          jobId: job.id,
+          query: queuedQuery,
+          ...(variables != null ? { variables } : {}),
+          ...(operationName != null ? { operationName } : {}),
+          ...(extensions != null ? { extensions } : {}),
+          ...(auth !== undefined ? { auth } : {}),
+        });
+        return job;
+      })();
+      // Failures are thrown once Apollo Server has responded, so they are
+      // not reported to the client as GraphQL errors.
+      await queued.catch(() => {});
+    });
+
+    const response = await execute(queuedRequest);
+    if (!queued) {
+      // Rejected by Apollo Server or its plugins.
+      return response;
+    }
+    const job = await queued;
+    return {
+      status: 202,
+      headers: { 'content-type': 'application/json; charset=utf-8' },
+      body: JSON.stringify(job),
+    };
+  };
+}
+
+/**
+ * Records the result of a queued operation in its job.
+ *
+ * @param store - The job store
+ * @param jobId - The id from the queue message
+ * @param result - The result of the operation
+ * @internal
+ */
+export async function completeJob(
+  store: JobStore,
+  jobId: string,
+  result: Pick<Job, 'operationName' | 'data' | 'errors'>,
+): Promise<void> {
+  const job = await store.get(jobId);
+  await store.set({
+    id: jobId,
+    createdAt: job?.createdAt ?? new Date().toISOString(),
+    operationName: result.operationName ?? job?.operationName,
+    owner: job?.owner,
+    status: result.errors?.length ? 'failed' : 'completed',
+    finishedAt: new Date().toISOString(),
+    data: result.data,
+    errors: result.errors,
+  });
+}
+
+/**
+ * Creates an Azure Functions HTTP handler that reports the state of a job
+ * queued by the `asyncOperations` option, as a JSON {@link Job}. The id is
+ * read from the `jobId` route parameter or query parameter.
+ *
+ * ```typescript
+ * app.http('jobStatus', {
+ *   methods: ['GET'],
+ *   route: 'jobs/{jobId}',
+ *   handler: createJobStatusHandler(store),
+ * });
+ * ```
+ *
+ * Unknown jobs, and jobs `authorize` refuses, get a 404 response. Without
+ * `authorize`, protect the route so job results are not readable by anyone
+ * who knows a job's id.
+ *
+ * @param store - The job store passed to `asyncOperations`
+ * @param options - Who may read a job
+ * @returns An Azure Functions HTTP handler
+ */
+export function createJobStatusHandler(
+  store: JobStore,
+  options: JobStatusHandlerOptions = {},
+): HttpHandler {
+  return async (req, context) => {
+    const id = req.params.jobId ?? req.query.get('jobId');
+    const accept = req.headers.get('accept');
+    let job: Job | undefined;
+    try {
+      job = id ? await store.get(id) : undefined;
+      // Refused jobs look unknown, so their ids cannot be probed.
+      if (job && options.authorize && !(await options.authorize(req, job))) {
+        job = undefined;
+      }
+    } catch (e) {
+      context.error('Failure reading job status', e);
+      return createErrorResponse(e, accept, context);
+    }
+    if (!job) {
+      return createErrorResponse(
+        new NotFoundError('Unknown job'),
+        accept,
+        context,
+      );
+    }
+    return {
+      status: 200,
+      headers: {
+        'content-type': 'application/json; charset=utf-8',
+        'cache-control': 'no-store',
+      },
+      body: JSON.stringify(job),
+    };
+  };
+}
@@ -0,0 +1,188 @@
+import type { ApolloServer, BaseContext } from '@apollo/server';
+import type { WarmupHandler } from '@azure/functions';
+import {
+  ensureServerStarted,
+  ensureServerStarting,
+  startServer,
+} from './server';
+
+/**
+ * Builds the server on first use instead of at import time. May be async,
+ * e.g. to load the schema or secrets.
+ */
+export type ApolloServerFactory<TContext extends BaseContext> = () =>
+  | ApolloServer<TContext>
+  | Promise<ApolloServer<TContext>>;
+
+/**
+ * What this package tracks about a server factory.
+ * @internal
+ */
+interface LazyServer<TContext extends BaseContext> {
+  /**
+   * Prepares the server before it starts, e.g. by adding plugins.
+   */
+  setups: Array<(server: ApolloServer<TContext>) => void>;
+  server?: Promise<ApolloServer<TContext>>;
+}
+
+/**
+ * The state of each factory passed to a handler. Handlers given the same
+ * factory share the server it builds.
+ * @internal
+ */
+const lazyServers = new WeakMap<object, unknown>();
+
+/**
+ * Returns what this package tracks about a factory. Entries are stored for
+ * factories of any context type, so they are typed back by their factory.
+ * @internal
+ */
+function peekLazyServer<TContext extends BaseContext>(
+  factory: ApolloServerFactory<TContext>,
+): LazyServer<TContext> | undefined {
+  return lazyServers.get(factory) as LazyServer<TContext> | undefined;
+}
+
+/**
+ * Returns true if the argument is a server factory rather than a server.
+ * @internal
+ */
+export function isServerFactory<TContext extends BaseContext>(
+  serverOrFactory: ApolloServer<TContext> | ApolloServerFactory<TContext>,
+): serverOrFactory is ApolloServerFactory<TContext> {
+  return typeof serverOrFactory === 'function';
+}
+
+/**
+ * Builds and starts the server. Concurrent calls share one initialization;
+ * if it fails, the next call builds a new server.
+ * @internal
+ */
+function loadServer<TContext extends BaseContext>(
+  factory: ApolloServerFactory<TContext>,
+  lazy: LazyServer<TContext>,
+): Promise<ApolloServer<TContext>> {
+  lazy.server ??= (async () => {
+    const server = await factory();
+    for (const setup of lazy.setups) {
+      setup(server);
+    }
+    await startServer(server);
+    return server;
+  })().catch((e) => {
+    lazy.server = undefined;
+    throw e;
+  });
+  return lazy.server;
+}
+
+/**
+ * Creates a function returning the server to handle a request with. A
+ * server is set up right away and started in the background once the
+ * current synchronous code has run, or on first use if that comes first, so
+ * every handler created for it at startup can set it up whatever the order
+ * they are created in. A factory is called on first use, and `setup` runs
+ * before the server it builds starts. Handlers must be created before the
+ * first invocation for their setup to run.
+ *
+ * @param serverOrFactory - The Apollo Server instance, or a factory for it
+ * @param setup - Prepares the server before it starts
+ * @returns A function resolving to the started server
+ * @throws {Error} From the returned function, if building or starting the
+ * server fails
+ * @internal
+ */
+export function createServerLoader<TContext extends BaseContext>(
+  serverOrFactory: ApolloServer<TContext> | ApolloServerFactory<TContext>,
+  setup?: (server: ApolloServer<TContext>) => void,
+): () => Promise<ApolloServer<TContext>> {
+  if (!isServerFactory(serverOrFactory)) {
+    const server = serverOrFactory;
+    setup?.(server);
+    ensureServerStarting(server);
+    return async () => {
+      ensureServerStarted(server);
+      return server;
+    };
+  }
+
+  const factory = serverOrFactory;
+  let lazy = peekLazyServer(factory);
+  if (!lazy) {
+    lazy = { setups: [] };
+    lazyServers.set(factory, lazy);
+  }
+  if (setup) {
+    lazy.setups.push(setup);
+  }
+  const state = lazy;
+  return () => loadServer(factory, state);
+}
+
+/**
+ * Forgets the server built by a factory, so the next invocation builds a
+ * new one. The caller is responsible for stopping the returned server.
+ *
+ * @param factory - The factory passed to {@link createServerLoader}
+ * @returns The server the factory built, if any
+ * @internal
+ */
+export function unloadServer<TContext extends BaseContext>(
+  factory: ApolloServerFactory<TContext>,
+): Promise<ApolloServer<TContext>> | undefined {
+  const lazy = peekLazyServer(factory);
+  const server = lazy?.server;
+  if (lazy) {
+    lazy.server = undefined;
+  }
+  return server;
+}
+
+/**
+ * Returns the server to shut down: a server as is, or the server a factory
+ * has built, without building one.
+ *
+ * @param serverOrFactory - The Apollo Server instance, or a factory for it
+ * @returns The server, or undefined if the factory has not built one or
+ * building it failed
+ * @internal
+ */
+export async function getLoadedServer<TContext extends BaseContext>(
+  serverOrFactory: ApolloServer<TContext> | ApolloServerFactory<TContext>,
+): Promise<ApolloServer<TContext> | undefined> {
+  if (!isServerFactory(serverOrFactory)) {
+    return serverOrFactory;
+  }
+  return peekLazyServer(serverOrFactory)?.server?.catch(() => undefined);
+}
+
+/**
+ * Creates a handler for `app.warmup` that builds and starts the server when
+ * the Functions host adds an instance, before it receives traffic. Pass the
+ * same factory given to the HTTP handler so they share the server.
+ *
+ * ```typescript
+ * const createServer = async () =>
+ *   new ApolloServer({ typeDefs: await loadSchema(), resolvers });
+ *
+ * app.http('graphql', { handler: startServerAndCreateHandler(createServer) });
+ * app.warmup('warmup', { handler: createWarmupHandler(createServer) });
+ * ```
+ *
+ * @param serverOrFactory - The Apollo Server instance, or a factory for it
+ * @returns A warmup trigger handler
+ */
+export function createWarmupHandler<TContext extends BaseContext>(
+  serverOrFactory: ApolloServer<TContext> | ApolloServerFactory<TContext>,
+): WarmupHandler {
+  const getServer = createServerLoader(serverOrFactory);
+  return async (_warmupContext, context) => {
+    try {
+      await getServer();
+    } catch (e) {
+      context.error('Failure initializing the GraphQL server', e);
+      throw e;
+    }
+  };
+}
@@ -0,0 +1,123 @@
+import type { Logger } from '@apollo/utils.logger';
+import type { InvocationContext } from '@azure/functions';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { getOperationAST, parse } from 'graphql';
+
+/**
+ * The invocation a request runs in, and the operation it executes.
+ * @internal
+ */
+interface InvocationScope {
+  context: InvocationContext;
+  query?: unknown;
+  operationName?: unknown;
+  /**
+   * The resolved operation name, computed on first use.
+   */
+  resolvedOperationName?: string | null;
+}
+
+const invocationStorage = new AsyncLocalStorage<InvocationScope>();
+
+/**
+ * Runs a function in the scope of an invocation, so loggers created by
+ * {@link createInvocationLogger} write to its {@link InvocationContext}.
+ *
+ * @param context - The invocation context
+ * @param params - The GraphQL request parameters, used to name the operation
+ * @param fn - The function to run
+ * @returns The function's result
+ * @internal
+ */
+export function runInInvocationScope<T>(
+  context: InvocationContext,
+  params: unknown,
+  fn: () => T,
+): T {
+  const { query, operationName } =
+    params && typeof params === 'object' && !Array.isArray(params)
+      ? (params as Record<string, unknown>)
+      : {};
+  return invocationStorage.run({ context, query, operationName }, fn);
+}
+
+/**
+ * Returns the name of the scope's operation: the `operationName` sent by
+ * the client, or the name of the only operation in the query.
+ * @internal
+ */
+function getOperationName(scope: InvocationScope): string | undefined {
+  if (typeof scope.operationName === 'string') {
+    return scope.operationName;
+  }
+  if (scope.resolvedOperationName === undefined) {
+    scope.resolvedOperationName = null;
+    if (typeof scope.query === 'string') {
+      try {
+        scope.resolvedOperationName =
+          getOperationAST(parse(scope.query))?.name?.value ?? null;
+      } catch {
+        // Invalid queries are reported by Apollo Server.
+      }
+    }
+  }
+  return scope.resolvedOperationName ?? undefined;
+}
+
+export interface InvocationLoggerOptions {
+  /**
+   * Receives logs emitted outside of an invocation, e.g. during server
+   * startup. Defaults to `console`.
+   */
+  fallback?: Logger;
+}
+
+/**
+ * Creates an Apollo Server {@link Logger} that writes to the
+ * {@link InvocationContext} of the request being handled, so plugin and
+ * resolver logs are correlated with their invocation in Application
+ * Insights. Each log includes the invocation id and, when known, the
+ * operation name. Logs emitted outside of a request go to the fallback
+ * logger.
+ *
+ * ```typescript
+ * const server = new ApolloServer({
+ *   typeDefs,
+ *   resolvers,
+ *   logger: createInvocationLogger(),
+ * });
+ * ```
+ *
+ * Requests run in the scope of their invocation when handled by
+ * `startServerAndCreateHandler` or `startServerAndCreateMessageHandler`.
+ *
+ * @param options - The fallback logger
+ * @returns A logger for `new ApolloServer({ logger })`
+ */
+export function createInvocationLogger(
+  options: InvocationLoggerOptions = {},
+): Logger {
+  const fallback = options.fallback ?? console;
+
+  function log(level: keyof Logger) {
+    return (message?: unknown) => {
+      const scope = invocationStorage.getStore();
+      if (!scope) {
+        fallback[level](message);
+        return;
+      }
+      const operationName = getOperationName(scope);
+      scope.context[level](message, {
+        invocationId: scope.context.invocationId,
+        ...(operationName ? { operationName } : {}),
+      });
+    };
+  }
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+  };
+}
@@ -0,0 +1,394 @@
+import type {
+  ApolloServer,
+  BaseContext,
+  ContextFunction,
+} from '@apollo/server';
+import type { FunctionOutput, InvocationContext } from '@azure/functions';
+import type { GraphQLFormattedError } from 'graphql';
+import type { WithRequired } from '@apollo/utils.withrequired';
+import { BadRequestError, HttpError, ServiceUnavailableError } from './errors';
+import { completeJob, type JobStore } from './jobs';
+import { runInInvocationScope } from './logger';
+import { ApolloServerFactory, createServerLoader } from './lazy';
+import { isShuttingDown, trackRequest } from './server';
+
+/**
+ * A GraphQL operation carried in a queue message.
+ */
+export interface GraphQLMessage {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+  extensions?: Record<string, unknown>;
+  /**
+   * The job the operation runs for, when queued by the `asyncOperations`
+   * option of `startServerAndCreateHandler`.
+   */
+  jobId?: string;
+  /**
+   * What the context function needs to authorize the operation, as
+   * returned by the `auth` function of the `asyncOperations` option.
+   */
+  auth?: unknown;
+}
+
+export interface AzureFunctionsMessageContextFunctionArgument {
+  context: InvocationContext;
+  /**
+   * The message as delivered by the trigger.
+   */
+  message: unknown;
+  /**
+   * The GraphQL operation parsed from the message.
+   */
+  operation: GraphQLMessage;
+}
+
+/**
+ * The outcome of executing a queued operation. This is the value sent to the
+ * output bindings and returned from the handler.
+ */
+export interface GraphQLMessageResult {
+  /**
+   * The message id from the trigger metadata, when available.
+   */
+  messageId?: string;
+  jobId?: string;
+  operationName?: string;
+  data?: Record<string, unknown> | null;
+  errors?: ReadonlyArray<GraphQLFormattedError>;
+  extensions?: Record<string, unknown>;
+}
+
+export interface AzureFunctionsMessageHandlerOptions<
+  TContext extends BaseContext,
+> {
+  context?: ContextFunction<
+    [AzureFunctionsMessageContextFunctionArgument],
+    TContext
+  >;
+  /**
+   * Output binding that receives each result, e.g. created with
+   * `output.storageQueue()` or `output.serviceBusQueue()`.
+   */
+  output?: FunctionOutput;
+  /**
+   * Output binding that receives results with errors. When omitted, those
+   * results go to `output`.
+   */
+  errorOutput?: FunctionOutput;
+  /**
+   * Throw when an operation fails instead of reporting the errors, so the
+   * host retries the message and eventually moves it to the poison queue.
+   * Nothing is written to the output bindings in that case.
+   */
+  throwOnError?: boolean;
+  /**
+   * Records the result of operations queued by the `asyncOperations`
+   * option in their job. Pass the same store as to `asyncOperations`. With
+   * `throwOnError`, failed operations are retried and their job stays
+   * pending.
+   */
+  jobStore?: JobStore;
+}
+
+/**
+ * A handler for `app.storageQueue` or `app.serviceBusQueue`. Service Bus
+ * triggers with `cardinality: 'many'` deliver an array of messages, which
+ * produces an array of results.
+ */
+export type GraphQLMessageHandler = (
+  message: unknown,
+  context: InvocationContext,
+) => Promise<GraphQLMessageResult | GraphQLMessageResult[]>;
+
+const defaultContext: ContextFunction<
+  [AzureFunctionsMessageContextFunctionArgument],
+  BaseContext
+> = async () => ({});
+
+/**
+ * Parses a queue message into a GraphQL operation. Messages may arrive as
+ * already-parsed JSON, a JSON string or JSON bytes.
+ *
+ * @param message - The message as delivered by the trigger
+ * @returns The GraphQL operation
+ * @throws {BadRequestError} If the message isn't a valid GraphQL operation
+ * @internal
+ */
+function parseMessage(message: unknown): GraphQLMessage {
+  let payload = message;
+  if (payload instanceof Uint8Array) {
+    payload = Buffer.from(payload).toString('utf8');
+  }
+  if (typeof payload === 'string') {
+    try {
+      payload = JSON.parse(payload);
+    } catch {
+      throw new BadRequestError('Invalid JSON in queue message');
+    }
+  }
+
+  if (payload === null || typeof payload !== 'object') {
+    throw new BadRequestError('Queue message must be a JSON object');
+  }
+  const { query, variables, operationName, extensions, jobId, auth } =
+    payload as Record<string, unknown>;
+  if (typeof query !== 'string') {
+    throw new BadRequestError('Queue message must contain a string `query`');
+  }
+  if (
+    variables != null &&
+    (typeof variables !== 'object' || Array.isArray(variables))
+  ) {
+    throw new BadRequestError(
+      '`variables` in a queue message must be an object',
+    );
+  }
+  if (operationName != null && typeof operationName !== 'string') {
+    throw new BadRequestError(
+      '`operationName` in a queue message must be a string',
+    );
+  }
+  if (
+    extensions != null &&
+    (typeof extensions !== 'object' || Array.isArray(extensions))
+  ) {
+    throw new BadRequestError(
+      '`extensions` in a queue message must be an object',
+    );
+  }
+
+  if (jobId != null && typeof jobId !== 'string') {
+    throw new BadRequestError('`jobId` in a queue message must be a string');
+  }
+
+  return {
+    query,
+    variables: (variables as Record<string, unknown>) ?? undefined,
+    operationName: operationName ?? undefined,
+    extensions: (extensions as Record<string, unknown>) ?? undefined,
+    jobId: jobId ?? undefined,
+    auth: auth ?? undefined,
+  };
+}
+
+/**
+ * Reads the message id from the trigger metadata. Storage queue triggers
+ * provide `id`, Service Bus triggers provide `messageId` (or `messageIdArray`
+ * for batches).
+ * @internal
+ */
+function getMessageId(
+  context: InvocationContext,
+  index: number | undefined,
+): string | undefined {
+  const metadata = context.triggerMetadata ?? {};
+  const id =
+    index === undefined
+      ? (metadata.id ?? metadata.messageId)
+      : (metadata.messageIdArray as unknown[] | undefined)?.[index];
+  return typeof id === 'string' ? id : undefined;
+}
+
+/**
+ * Creates a handler for Storage Queue and Service Bus triggers that executes
+ * GraphQL operations on an Apollo Server.
+ *
+ * Each message must be a JSON object with `query` and optional `variables`,
+ * `operationName` and `extensions`. Results are written to the configured
+ * output bindings and returned from the handler, so they can also be used
+ * with a `return` binding.
+ *
+ * ```typescript
+ * const results = output.storageQueue({ queueName: 'graphql-results', connection: 'Storage' });
+ *
+ * app.storageQueue('graphql-jobs', {
+ *   queueName: 'graphql-jobs',
+ *   connection: 'Storage',
+ *   extraOutputs: [results],
+ *   handler: startServerAndCreateMessageHandler(server, { output: results }),
+ * });
+ * ```
+ *
+ * The server can be shared with `startServerAndCreateHandler`, including
+ * when built lazily by a factory passed to both.
+ *
+ * @param server - The Apollo Server instance, or a factory that builds it on
+ * first invocation
+ * @param options - Context function, output bindings and error behavior
+ * @returns A queue trigger handler
+ */
+export function startServerAndCreateMessageHandler(
+  server: ApolloServer<BaseContext> | ApolloServerFactory<BaseContext>,
+  options?: AzureFunctionsMessageHandlerOptions<BaseContext>,
+): GraphQLMessageHandler;
+export function startServerAndCreateMessageHandler<
+  TContext extends BaseContext,
+>(
+  server: ApolloServer<TContext> | ApolloServerFactory<TContext>,
+  options: WithRequired<
+    AzureFunctionsMessageHandlerOptions<TContext>,
+    'context'
+  >,
+): GraphQLMessageHandler;
+export function startServerAndCreateMessageHandler<
+  TContext extends BaseContext,
+>(
+  serverOrFactory: ApolloServer<TContext> | ApolloServerFactory<TContext>,
+  options?: AzureFunctionsMessageHandlerOptions<TContext>,
+): GraphQLMessageHandler {
+  const getServer = createServerLoader(serverOrFactory);
+  const contextFunction = (options?.context ??
+    defaultContext) as ContextFunction<
+    [AzureFunctionsMessageContextFunctionArgument],
+    TContext
+  >;
+
+  async function run(
+    server: ApolloServer<TContext>,
+    message: unknown,
+    context: InvocationContext,
+    index?: number,
+  ): Promise<GraphQLMessageResult> {
+    const messageId = getMessageId(context, index);
+    let operation: GraphQLMessage | undefined;
+    try {
+      const parsed = parseMessage(message);
+      operation = parsed;
+      const contextValue = await contextFunction({
+        context,
+        message,
+        operation,
+      });
+      const { jobId: _, auth: __, ...request } = parsed;
+      const response = await runInInvocationScope(context, request, () =>
+        server.executeOperation(request, { contextValue }),
+      );
+
+      if (response.body.kind !== 'single') {
+        throw new BadRequestError(
+          'Incremental delivery is not supported for queued operations',
+        );
+      }
+      const { data, errors, extensions } = response.body.singleResult;
+      return {
+        messageId,
+        jobId: operation.jobId,
+        operationName: operation.operationName,
+        data,
+        errors,
+        extensions,
+      };
+    } catch (e) {
+      context.error('Failure processing GraphQL message', e);
+      if (options?.throwOnError) {
+        throw e;
+      }
+
+      // Never expose internal error details, as with HTTP requests.
+      const exposed = e instanceof HttpError && e.exposeMessage;
+      return {
+        messageId,
+        jobId: operation?.jobId,
+        operationName: operation?.operationName,
+        errors: [
+          {
+            message: exposed ? e.message : 'Internal server error',
+            extensions: {
+              code: e instanceof HttpError ? e.code : 'INTERNAL_SERVER_ERROR',
+            },
+          },
+        ],
+      };
+    }
+  }
+
+  async function execute(
+    server: ApolloServer<TContext>,
+    message: unknown,
+    context: InvocationContext,
+    index?: number,
+  ): Promise<GraphQLMessageResult> {
+    const result = await run(server, message, context, index);
+    // With throwOnError, failed operations are retried, so their job is
+    // not finished yet.
+    const retried = options?.throwOnError && !!result.errors?.length;
+    if (result.jobId && options?.jobStore && !retried) {
+      try {
+        await completeJob(options.jobStore, result.jobId, result);
+      } catch (e) {
+        context.error(`Failure recording job ${result.jobId}`, e);
+      }
+    }
+    return result;
+  }
+
+  const handler = async (
+    server: ApolloServer<TContext>,
+    message: unknown,
+    context: InvocationContext,
+  ) => {
+    // Leave the message on the queue so another instance picks it up.
+    if (isShuttingDown(server)) {
+      throw new ServiceUnavailableError('Server is shutting down');
+    }
+    const batch = Array.isArray(message);
+    const results: GraphQLMessageResult[] = [];
+    if (batch) {
+      // Run batches sequentially to keep per-instance load predictable.
+      for (const [index, entry] of message.entries()) {
+        results.push(await execute(server, entry, context, index));
+      }
+    } else {
+      results.push(await execute(server, message, context));
+    }
+
+    const failed = results.filter((result) => result.errors?.length);
+    if (options?.throwOnError && failed.length > 0) {
+      throw new Error(
+        `${failed.length} GraphQL operation(s) failed: ${failed
+          .flatMap((result) => result.errors!.map((error) => error.message))
+          .join('; ')}`,
+      );
+    }
+
+    const succeeded = options?.errorOutput
+      ? results.filter((result) => !result.errors?.length)
+      : results;
+    setOutput(context, options?.output, succeeded, batch);
+    if (options?.errorOutput) {
+      setOutput(context, options.errorOutput, failed, batch);
+    }
+
+    return batch ? results : results[0];
+  };
+  return async (message, context) => {
+    let server: ApolloServer<TContext>;
+    try {
+      server = await getServer();
+    } catch (e) {
+      // Leave the message on the queue to be retried.
+      context.error('Failure initializing the GraphQL server', e);
+      throw e;
+    }
+    return trackRequest(server, () => handler(server, message, context));
+  };
+}
+
+/**
+ * Writes results to an output binding: a single value for single messages,
+ * an array for batches. Nothing is written when there are no results.
+ * @internal
+ */
+function setOutput(
+  context: InvocationContext,
+  output: FunctionOutput | undefined,
+  results: GraphQLMessageResult[],
+  batch: boolean,
+): void {
+  if (!output || results.length === 0) {
+    return;
+  }
+  context.extraOutputs.set(output, batch ? results : results[0]);
+}
@@ -0,0 +1,105 @@
+import type { HTTPGraphQLRequest } from '@apollo/server';
+import type {
+  HttpRequest,
+  HttpResponseInit,
+  InvocationContext,
+} from '@azure/functions';
+
+export interface AzureFunctionsMiddlewareArgument {
+  /**
+   * The Azure Functions request. This is the same unconsumed clone the
+   * context function receives, so reading its body here consumes it there.
+   */
+  req: HttpRequest;
+  /**
+   * The normalized request about to be executed. Changes to it, such as
+   * adding headers, are seen by Apollo Server.
+   */
+  request: HTTPGraphQLRequest;
+  context: InvocationContext;
+}
+
+/**
+ * A response passed back through the middleware chain. Headers are a plain
+ * object so middleware can add, change or remove them. For chunked
+ * (`@defer`) and event-stream responses, `body` is an async iterable.
+ */
+export type AzureFunctionsMiddlewareResponse = HttpResponseInit & {
+  status: number;
+  headers: Record<string, string>;
+};
+
+/**
+ * Runs around the execution of a request. Call `next` to continue down the
+ * chain and receive the response, which can be changed or replaced before
+ * returning it; return a response without calling `next` to short-circuit.
+ *
+ * ```typescript
+ * const requestId: AzureFunctionsMiddleware = async ({ context }, next) => {
+ *   const response = await next();
+ *   response.headers['x-request-id'] = context.invocationId;
+ *   return response;
+ * };
+ * ```
+ */
+export type AzureFunctionsMiddleware = (
+  arg: AzureFunctionsMiddlewareArgument,
+  next: () => Promise<AzureFunctionsMiddlewareResponse>,
+) => Promise<HttpResponseInit> | HttpResponseInit;
+
+/**
+ * Converts a response returned by middleware to the shape passed back up
+ * the chain.
+ * @internal
+ */
+function normalizeMiddlewareResponse(
+  response: HttpResponseInit,
+): AzureFunctionsMiddlewareResponse {
+  const { headers } = response;
+  return {
+    ...response,
+    status: response.status ?? 200,
+    headers:
+      headers instanceof Headers || Array.isArray(headers)
+        ? Object.fromEntries(new Headers(headers))
+        : { ...(headers as Record<string, string> | undefined) },
+  };
+}
+
+/**
+ * Runs a middleware chain around a handler, in order: the first middleware
+ * is the outermost.
+ *
+ * @param middleware - The middleware chain
+ * @param arg - The argument passed to every middleware
+ * @param handler - Executes the request at the end of the chain
+ * @returns The response returned by the first middleware
+ * @throws {Error} If a middleware calls `next` more than once
+ * @internal
+ */
+export async function runMiddleware(
+  middleware: AzureFunctionsMiddleware[],
+  arg: AzureFunctionsMiddlewareArgument,
+  handler: () => Promise<AzureFunctionsMiddlewareResponse>,
+): Promise<AzureFunctionsMiddlewareResponse> {
+  const dispatch = async (
+    index: number,
+  ): Promise<AzureFunctionsMiddlewareResponse> => {
+    const current = middleware[index];
+    if (!current) {
+      return handler();
+    }
+    let called = false;
+    const response = await current(arg, () => {
+      if (called) {
+        return Promise.reject(
+          new Error('Middleware called next() more than once'),
+        );
+      }
+      called = true;
+      return dispatch(index + 1);
+    });
+    return normalizeMiddlewareResponse(response);
+  };
+  return dispatch(0);
+}
@@ -0,0 +1,509 @@
+import type { HttpRequest } from '@azure/functions';
+import { PassThrough, type Readable } from 'stream';
+import { readBodyChunks } from './body';
+import { BadRequestError, PayloadTooLargeError } from './errors';
+
+/**
+ * Options for GraphQL multipart request (file upload) support.
+ */
+export interface UploadOptions {
+  /**
+   * Maximum number of files accepted in a single request.
+   * Defaults to 10.
+   */
+  maxFiles?: number;
+  /**
+   * Maximum size of a single file, in bytes. Reading a file that exceeds
+   * this limit fails with an error. Defaults to 10 MB.
+   */
+  maxFileSize?: number;
+  /**
+   * Maximum size of the `operations` and `map` fields, in bytes.
+   * Defaults to 1 MB.
+   */
+  maxFieldSize?: number;
+}
+
+/**
+ * A file received through a GraphQL multipart request. Resolvers receive a
+ * promise for this object as the value of an `Upload` scalar argument.
+ */
+export interface FileUpload {
+  filename: string;
+  mimetype: string;
+  encoding: string;
+  /**
+   * Returns a stream of the file contents. The stream can only be created
+   * once per upload.
+   */
+  createReadStream(): Readable;
+}
+
+const DEFAULT_MAX_FILES = 10;
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_FIELD_SIZE = 1024 * 1024;
+const MAX_PART_HEADER_SIZE = 16 * 1024;
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+
+interface PartHeaders {
+  name: string;
+  filename?: string;
+  mimetype: string;
+  encoding: string;
+}
+
+type MultipartEvent =
+  | { type: 'part'; headers: PartHeaders }
+  | { type: 'data'; chunk: Buffer }
+  | { type: 'end' };
+
+/**
+ * Extracts the boundary parameter from a `multipart/form-data` content type.
+ * @internal
+ */
+function getBoundary(contentType: string): string | undefined {
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match?.[1] ?? match?.[2];
+}
+
+/**
+ * Reads a parameter (e.g. `name` or `filename`) from a header value.
+ * @internal
+ */
+function getHeaderParameter(
+  value: string,
+  parameter: string,
+): string | undefined {
+  const match = new RegExp(
+    `;\\s*${parameter}=(?:"((?:[^"\\\\]|\\\\.)*)"|([^;\\s]+))`,
+    'i',
+  ).exec(value);
+  if (!match) return undefined;
+  return match[1] != null ? match[1].replace(/\\(.)/g, '$1') : match[2];
+}
+
+/**
+ * Parses the header block of a multipart part.
+ * @internal
+ */
+function parsePartHeaders(block: string): PartHeaders {
+  const headers = new Map<string, string>();
+  for (const line of block.split('\r\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) {
+      throw new BadRequestError('Malformed multipart part header');
+    }
+    headers.set(
+      line.slice(0, separator).trim().toLowerCase(),
+      line.slice(separator + 1).trim(),
+    );
+  }
+
+  const disposition = headers.get('content-disposition');
+  const name = disposition && getHeaderParameter(disposition, 'name');
+  if (!disposition?.toLowerCase().startsWith('form-data') || name == null) {
+    throw new BadRequestError(
+      'Multipart part is missing a form-data Content-Disposition name',
+    );
+  }
+
+  return {
+    name,
+    filename: getHeaderParameter(disposition, 'filename'),
+    mimetype: headers.get('content-type') ?? 'text/plain',
+    encoding: headers.get('content-transfer-encoding') ?? '7bit',
+  };
+}
+
+/**
+ * Incremental `multipart/form-data` parser (RFC 7578). Chunks are written as
+ * they arrive and converted into part, data and end events, so part bodies
+ * are never buffered in full.
+ * @internal
+ */
+class MultipartParser {
+  private buffer: Buffer = Buffer.alloc(0);
+  private state: 'preamble' | 'boundary' | 'headers' | 'body' | 'done' =
+    'preamble';
+  private readonly dashBoundary: Buffer;
+  private readonly delimiter: Buffer;
+
+  constructor(boundary: string) {
+    this.dashBoundary = Buffer.from(`--${boundary}`);
+    this.delimiter = Buffer.from(`\r\n--${boundary}`);
+  }
+
+  write(chunk: Buffer): MultipartEvent[] {
+    this.buffer =
+      this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const events: MultipartEvent[] = [];
+
+    for (;;) {
+      if (this.state === 'preamble') {
+        const index = this.buffer.indexOf(this.dashBoundary);
+        if (index === -1) {
+          // Keep just enough bytes to match a boundary split across chunks.
+          this.buffer = this.buffer.subarray(
+            Math.max(0, this.buffer.length - this.dashBoundary.length),
+          );
+          return events;
+        }
+        this.buffer = this.buffer.subarray(index + this.dashBoundary.length);
+        this.state = 'boundary';
+      } else if (this.state === 'boundary') {
+        if (this.buffer.length < 2) return events;
+        if (this.buffer[0] === 0x2d && this.buffer[1] === 0x2d) {
+          this.state = 'done';
+          this.buffer = Buffer.alloc(0);
+          return events;
+        }
+        if (!this.buffer.subarray(0, 2).equals(CRLF)) {
+          throw new BadRequestError('Malformed multipart boundary');
+        }
+        this.buffer = this.buffer.subarray(2);
+        this.state = 'headers';
+      } else if (this.state === 'headers') {
+        const index = this.buffer.indexOf(HEADER_END);
+        if (index === -1) {
+          if (this.buffer.length > MAX_PART_HEADER_SIZE) {
+            throw new BadRequestError('Multipart part headers are too large');
+          }
+          return events;
+        }
+        events.push({
+          type: 'part',
+          headers: parsePartHeaders(
+            this.buffer.subarray(0, index).toString('utf8'),
+          ),
+        });
+        this.buffer = this.buffer.subarray(index + HEADER_END.length);
+        this.state = 'body';
+      } else if (this.state === 'body') {
+        const index = this.buffer.indexOf(this.delimiter);
+        if (index === -1) {
+          // Emit everything that cannot be the start of a delimiter.
+          const safe = this.buffer.length - this.delimiter.length + 1;
+          if (safe > 0) {
+            events.push({ type: 'data', chunk: this.buffer.subarray(0, safe) });
+            this.buffer = this.buffer.subarray(safe);
+          }
+          return events;
+        }
+        if (index > 0) {
+          events.push({ type: 'data', chunk: this.buffer.subarray(0, index) });
+        }
+        events.push({ type: 'end' });
+        this.buffer = this.buffer.subarray(index + this.delimiter.length);
+        this.state = 'boundary';
+      } else {
+        return events;
+      }
+    }
+  }
+
+  finish(): void {
+    if (this.state !== 'done') {
+      throw new BadRequestError('Unexpected end of multipart body');
+    }
+  }
+}
+
+interface PendingUpload {
+  promise: Promise<FileUpload>;
+  resolve(file: FileUpload): void;
+  reject(error: Error): void;
+  settled: boolean;
+}
+
+function createPendingUpload(): PendingUpload {
+  let resolve!: (file: FileUpload) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<FileUpload>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Resolvers may never await an upload; don't surface that as an unhandled
+  // rejection.
+  promise.catch(() => {});
+  const upload: PendingUpload = {
+    promise,
+    settled: false,
+    resolve(file) {
+      upload.settled = true;
+      resolve(file);
+    },
+    reject(error) {
+      upload.settled = true;
+      reject(error);
+    },
+  };
+  return upload;
+}
+
+/**
+ * Path segments that would reach an object's prototype.
+ * @internal
+ */
+const FORBIDDEN_PATH_SEGMENTS = new Set([
+  '__proto__',
+  'constructor',
+  'prototype',
+]);
+
+/**
+ * Returns true if a value is an array or an object parsed from JSON, whose
+ * own properties a map path may step into.
+ * @internal
+ */
+function isContainer(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return (
+    Array.isArray(value) || prototype === Object.prototype || prototype === null
+  );
+}
+
+/**
+ * Replaces the value at a dot-separated object path (e.g. `variables.file`
+ * or `0.variables.files.1`) in the parsed operations. Every segment must be
+ * an own property of a plain object or array, so paths cannot reach
+ * prototypes.
+ * @internal
+ */
+function setAtPath(target: unknown, path: string, value: unknown): void {
+  const segments = path.split('.');
+  let current = target;
+  for (const [index, segment] of segments.entries()) {
+    if (
+      FORBIDDEN_PATH_SEGMENTS.has(segment) ||
+      !isContainer(current) ||
+      !Object.hasOwn(current, segment)
+    ) {
+      throw new BadRequestError(
+        `Invalid multipart map path "${path}": no such operations value`,
+      );
+    }
+    if (index === segments.length - 1) {
+      current[segment] = value;
+    } else {
+      current = current[segment];
+    }
+  }
+}
+
+/**
+ * Parses a GraphQL multipart request (https://github.com/jaydenseric/graphql-multipart-request-spec).
+ *
+ * The `operations` and `map` fields are read first. Every mapped variable is
+ * replaced with a promise for a {@link FileUpload}, and the operations are
+ * returned as soon as the map is known. File parts keep streaming in the
+ * background and resolve their promises as they arrive.
+ *
+ * File contents are buffered in memory until a resolver reads them, so
+ * `maxFiles` and `maxFileSize` bound the memory a request can use.
+ *
+ * @param req - The Azure Functions HTTP request
+ * @param contentType - The request content type, including the boundary
+ * @param options - Upload limits
+ * @param maxBodySize - The maximum size of the whole body, in bytes
+ * @returns The parsed operations with upload promises in place of files
+ * @throws {BadRequestError} If the multipart body is malformed
+ * @throws {PayloadTooLargeError} If the fields, files or body exceed a limit
+ * @internal
+ */
+export async function parseMultipartBody(
+  req: HttpRequest,
+  contentType: string,
+  options: UploadOptions,
+  maxBodySize?: number,
+): Promise<unknown> {
+  const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const maxFieldSize = options.maxFieldSize ?? DEFAULT_MAX_FIELD_SIZE;
+
+  const boundary = getBoundary(contentType);
+  if (!boundary) {
+    throw new BadRequestError('Missing multipart boundary');
+  }
+  if (!req.body) {
+    throw new BadRequestError('Missing multipart request body');
+  }
+
+  const parser = new MultipartParser(boundary);
+  const chunks = readBodyChunks(req, maxBodySize)[Symbol.asyncIterator]();
+  const events: MultipartEvent[] = [];
+
+  async function nextEvent(): Promise<MultipartEvent | undefined> {
+    while (events.length === 0) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        parser.finish();
+        return undefined;
+      }
+      events.push(...parser.write(Buffer.from(value)));
+    }
+    return events.shift();
+  }
+
+  async function readField(name: string): Promise<unknown> {
+    const part = await nextEvent();
+    if (
+      part?.type !== 'part' ||
+      part.headers.name !== name ||
+      part.headers.filename != null
+    ) {
+      throw new BadRequestError(
+        `Misordered multipart fields; expected "${name}"`,
+      );
+    }
+
+    const data: Buffer[] = [];
+    let size = 0;
+    for (;;) {
+      const event = await nextEvent();
+      if (event?.type === 'end') break;
+      if (event?.type !== 'data') {
+        throw new BadRequestError('Unexpected end of multipart body');
+      }
+      size += event.chunk.length;
+      if (size > maxFieldSize) {
+        throw new PayloadTooLargeError(
+          `The "${name}" multipart field exceeds the ${maxFieldSize} byte size limit`,
+        );
+      }
+      data.push(event.chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(data).toString('utf8'));
+    } catch {
+      throw new BadRequestError(
+        `Invalid JSON in the "${name}" multipart field`,
+      );
+    }
+  }
+
+  const operations = await readField('operations');
+  if (operations === null || typeof operations !== 'object') {
+    throw new BadRequestError(
+      'The "operations" multipart field must be an object or array',
+    );
+  }
+
+  const map = await readField('map');
+  if (map === null || typeof map !== 'object' || Array.isArray(map)) {
+    throw new BadRequestError('The "map" multipart field must be an object');
+  }
+
+  const entries = Object.entries(map);
+  if (entries.length > maxFiles) {
+    throw new PayloadTooLargeError(
+      `The request exceeds the ${maxFiles} file upload limit`,
+    );
+  }
+
+  const uploads = new Map<string, PendingUpload>();
+  for (const [fieldName, paths] of entries) {
+    if (
+      !Array.isArray(paths) ||
+      !paths.every((path) => typeof path === 'string')
+    ) {
+      throw new BadRequestError(
+        `The "map" entry "${fieldName}" must be an array of paths`,
+      );
+    }
+    const upload = createPendingUpload();
+    uploads.set(fieldName, upload);
+    for (const path of paths) {
+      setAtPath(operations, path, upload.promise);
+    }
+  }
+
+  void streamFileParts(nextEvent, uploads, maxFileSize);
+
+  return operations;
+}
+
+/**
+ * Consumes the remaining multipart parts, resolving each pending upload
+ * with a stream of its contents. Uploads still pending when the body ends,
+ * or when the body turns out to be malformed, are rejected.
+ * @internal
+ */
+async function streamFileParts(
+  nextEvent: () => Promise<MultipartEvent | undefined>,
+  uploads: Map<string, PendingUpload>,
+  maxFileSize: number,
+): Promise<void> {
+  let current: PassThrough | undefined;
+  let size = 0;
+
+  try {
+    for (;;) {
+      const event = await nextEvent();
+      if (!event) break;
+
+      if (event.type === 'part') {
+        const upload = uploads.get(event.headers.name);
+        if (!upload || upload.settled || event.headers.filename == null) {
+          // Parts that aren't mapped uploads are drained and ignored.
+          current = undefined;
+          continue;
+        }
+        const stream = new PassThrough();
+        // Errors reach consumers through their own listeners; without this
+        // one, an error on a stream nobody read would crash the process.
+        stream.on('error', () => {});
+        let streamCreated = false;
+        current = stream;
+        size = 0;
+        upload.resolve({
+          filename: event.headers.filename,
+          mimetype: event.headers.mimetype,
+          encoding: event.headers.encoding,
+          createReadStream() {
+            if (streamCreated) {
+              throw new Error('The upload stream was already created');
+            }
+            streamCreated = true;
+            return stream;
+          },
+        });
+      } else if (event.type === 'data') {
+        if (!current) continue;
+        size += event.chunk.length;
+        if (size > maxFileSize) {
+          current.destroy(
+            new PayloadTooLargeError(
+              `File truncated as it exceeds the ${maxFileSize} byte size limit`,
+            ),
+          );
+          current = undefined;
+          continue;
+        }
+        current.write(event.chunk);
+      } else {
+        current?.end();
+        current = undefined;
+      }
+    }
+
+    for (const upload of uploads.values()) {
+      if (!upload.settled) {
+        upload.reject(new BadRequestError('File missing in the request'));
+      }
+    }
+  } catch (e) {
+    const error =
+      e instanceof Error ? e : new BadRequestError('Malformed multipart body');
+    current?.destroy(error);
+    for (const upload of uploads.values()) {
+      if (!upload.settled) {
+        upload.reject(error);
+      }
+    }
+  }
+}
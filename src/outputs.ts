@@ -0,0 +1,134 @@
+import type { FunctionOutput, InvocationContext } from '@azure/functions';
+import type { AzureFunctionsMiddlewareResponse } from './middleware';
+
+declare const outputValue: unique symbol;
+
+/**
+ * An output binding, typed by the values written to it. Any
+ * `FunctionOutput` can be used; annotate it to have pushed values checked:
+ *
+ * ```typescript
+ * const orders: OutputBinding<Order> = output.storageQueue({ ... });
+ * ```
+ */
+export type OutputBinding<T = unknown> = FunctionOutput & {
+  readonly [outputValue]?: T;
+};
+
+/**
+ * Collects values for the function's output bindings while an operation
+ * executes. They are written to `context.extraOutputs` once the response
+ * is ready, and discarded if the operation fails.
+ */
+export interface AzureFunctionsOutputs {
+  /**
+   * Adds values for an output binding, which must be declared in the
+   * function's `extraOutputs`. Values pushed to the same binding are
+   * written together as an array, e.g. one queue message each.
+   */
+  push<T>(output: OutputBinding<T>, ...values: T[]): void;
+  /**
+   * Returns the values pushed so far for an output binding.
+   */
+  get<T>(output: OutputBinding<T>): T[];
+}
+
+/**
+ * An {@link AzureFunctionsOutputs} and the function that writes its values.
+ * @internal
+ */
+export interface OutputCollector {
+  outputs: AzureFunctionsOutputs;
+  /**
+   * Writes the collected values to `context.extraOutputs` if the response
+   * is successful, and discards them otherwise.
+   */
+  apply(response: AzureFunctionsMiddlewareResponse): void;
+}
+
+/**
+ * Returns true if a response reports a successful operation: a 2xx status
+ * and a buffered body without GraphQL errors, in any result of a batch.
+ * @internal
+ */
+function isSuccessful(response: AzureFunctionsMiddlewareResponse): boolean {
+  if (
+    response.status < 200 ||
+    response.status >= 300 ||
+    typeof response.body !== 'string'
+  ) {
+    return false;
+  }
+  try {
+    const body: unknown = JSON.parse(response.body);
+    const results = Array.isArray(body) ? body : [body];
+    return results.every(
+      (result) =>
+        result != null &&
+        typeof result === 'object' &&
+        !(result as { errors?: unknown }).errors,
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates the output collector of a request.
+ *
+ * @param context - The invocation context whose output bindings are written
+ * @returns The collector
+ * @internal
+ */
+export function createOutputCollector(
+  context: InvocationContext,
+): OutputCollector {
+  const values = new Map<FunctionOutput, unknown[]>();
+
+  const outputs: AzureFunctionsOutputs = {
+    push(output, ...pushed) {
+      if (
+        !context.options.extraOutputs.some(
+          (declared) => declared.name === output.name,
+        )
+      ) {
+        throw new Error(
+          `Output binding "${output.name}" is not in the function's extraOutputs`,
+        );
+      }
+      const existing = values.get(output) ?? [];
+      values.set(output, [...existing, ...pushed]);
+    },
+    get<T>(output: OutputBinding<T>) {
+      return [...((values.get(output) ?? []) as T[])];
+    },
+  };
+
+  return {
+    outputs,
+    apply(response) {
+      if (values.size === 0) {
+        return;
+      }
+      if (typeof response.body !== 'string' && response.status < 300) {
+        context.warn(
+          'Output bindings are not written for incremental delivery responses',
+        );
+        return;
+      }
+      if (!isSuccessful(response)) {
+        return;
+      }
+      for (const [output, pushed] of values) {
+        // Keep values set on the binding directly, e.g. by a Web PubSub bridge.
+        const existing = context.extraOutputs.get(output);
+        context.extraOutputs.set(
+          output,
+          existing === undefined
+            ? pushed
+            : [...(Array.isArray(existing) ? existing : [existing]), ...pushed],
+        );
+      }
+    },
+  };
+}
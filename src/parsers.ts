@@ -0,0 +1,135 @@
+import type { HttpRequest } from '@azure/functions';
+import { BadRequestError } from './errors';
+import { getErrorMessage } from './utils';
+
+/**
+ * Parses the text of a POST body into a GraphQL request body: an object
+ * with `query`, `variables`, `operationName` and `extensions`, or an array
+ * of them for batched requests. Errors are sent as 400 responses unless
+ * they are `HttpError`s.
+ */
+export type BodyParser = (
+  body: string,
+  req: HttpRequest,
+) => unknown | Promise<unknown>;
+
+/**
+ * Body parsers by media type, e.g. `application/json`. `false` disables a
+ * built-in parser.
+ */
+export type BodyParsers = Record<string, BodyParser | false>;
+
+/**
+ * Parses a JSON body.
+ * @internal
+ */
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    throw new BadRequestError(
+      `Invalid JSON in request body: ${getErrorMessage(e, 'Malformed JSON')}`,
+    );
+  }
+}
+
+/**
+ * Parses the JSON value of a form field, if present.
+ * @internal
+ */
+function parseJsonField(form: URLSearchParams, name: string): unknown {
+  const value = form.get(name);
+  if (value == null || value === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new BadRequestError(`Invalid JSON in form field \`${name}\``);
+  }
+}
+
+/**
+ * Parses an HTML form post. `variables` and `extensions` are JSON-encoded
+ * fields, as in GET requests, whose query strings it also parses.
+ * @internal
+ */
+export function parseForm(body: string): unknown {
+  const form = new URLSearchParams(body);
+  const fields: Record<string, unknown> = {
+    query: form.get('query'),
+    operationName: form.get('operationName'),
+    variables: parseJsonField(form, 'variables'),
+    extensions: parseJsonField(form, 'extensions'),
+  };
+  // Apollo Server rejects fields that are present but not set.
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value != null),
+  );
+}
+
+/**
+ * The built-in body parsers.
+ * @internal
+ */
+const DEFAULT_BODY_PARSERS: Record<string, BodyParser> = {
+  'application/json': parseJson,
+  'application/graphql+json': parseJson,
+  // The body is the query itself.
+  'application/graphql': (body) => ({ query: body }),
+  'application/x-www-form-urlencoded': parseForm,
+};
+
+/**
+ * Merges custom body parsers with the built-in ones.
+ *
+ * @param parsers - Custom parsers by media type
+ * @returns The parsers to use, by lowercase media type
+ * @internal
+ */
+export function createBodyParsers(
+  parsers: BodyParsers = {},
+): Map<string, BodyParser> {
+  const merged = new Map(Object.entries(DEFAULT_BODY_PARSERS));
+  for (const [mediaType, parser] of Object.entries(parsers)) {
+    if (parser) {
+      merged.set(mediaType.toLowerCase(), parser);
+    } else {
+      merged.delete(mediaType.toLowerCase());
+    }
+  }
+  return merged;
+}
+
+/**
+ * Returns the media type of a `Content-Type` header, without parameters.
+ *
+ * @param contentType - The header value
+ * @returns The lowercase media type, e.g. `application/json`
+ * @internal
+ */
+export function getMediaType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Media types browsers send without a CORS preflight.
+ * @internal
+ */
+const SIMPLE_MEDIA_TYPES = new Set([
+  'text/plain',
+  'multipart/form-data',
+  'application/x-www-form-urlencoded',
+]);
+
+/**
+ * Returns true if browsers send the media type without a CORS preflight.
+ * Apollo Server's CSRF prevention blocks such requests unless they carry a
+ * header that forces a preflight.
+ *
+ * @param mediaType - A lowercase media type
+ * @internal
+ */
+export function isSimpleMediaType(mediaType: string): boolean {
+  return SIMPLE_MEDIA_TYPES.has(mediaType);
+}
@@ -0,0 +1,198 @@
+import type { HttpRequest } from '@azure/functions';
+import { BadRequestError, ForbiddenError, UnauthorizedError } from './errors';
+
+/**
+ * A claim of a {@link ClientPrincipal}.
+ */
+export interface ClientPrincipalClaim {
+  type: string;
+  value: string;
+}
+
+/**
+ * The user authenticated by App Service Authentication (Easy Auth) or Azure
+ * Static Web Apps, decoded from the `x-ms-client-principal` headers.
+ */
+export interface ClientPrincipal {
+  /**
+   * The identity provider, e.g. `aad`, `github` or `google`.
+   */
+  identityProvider: string;
+  userId: string;
+  /**
+   * The user name or email address, when the provider supplies one.
+   */
+  userDetails?: string;
+  claims: ClientPrincipalClaim[];
+  roles: string[];
+}
+
+export interface PrincipalOptions {
+  /**
+   * Whether to trust the `x-ms-client-principal` headers. Only enable this
+   * when requests can only reach the function through Easy Auth or Static
+   * Web Apps, which strip these headers from client requests; otherwise
+   * anyone can forge them. Pass a function to decide per request. When
+   * the headers are not trusted, they are ignored.
+   */
+  trustHeaders: boolean | ((req: HttpRequest) => boolean);
+  /**
+   * Rejects requests without a principal with a 401 response.
+   */
+  required?: boolean;
+  /**
+   * Rejects requests whose principal has none of these roles with a 403
+   * response, and requests without a principal with a 401 response.
+   */
+  roles?: string[];
+}
+
+/**
+ * The `x-ms-client-principal` payload sent by Static Web Apps.
+ * @internal
+ */
+interface StaticWebAppsPrincipal {
+  identityProvider?: string;
+  userId?: string;
+  userDetails?: string;
+  userRoles?: string[];
+  claims?: { typ: string; val: string }[];
+}
+
+/**
+ * The `x-ms-client-principal` payload sent by App Service Easy Auth.
+ * @internal
+ */
+interface EasyAuthPrincipal {
+  auth_typ?: string;
+  name_typ?: string;
+  role_typ?: string;
+  claims?: { typ: string; val: string }[];
+}
+
+const PRINCIPAL_HEADER = 'x-ms-client-principal';
+const ROLE_CLAIM_TYPES = [
+  'roles',
+  'role',
+  'http://schemas.microsoft.com/ws/2008/06/identity/claims/role',
+];
+const USER_ID_CLAIM_TYPES = [
+  'http://schemas.microsoft.com/identity/claims/objectidentifier',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/nameidentifier',
+  'sub',
+];
+
+/**
+ * Decodes the principal from a request's `x-ms-client-principal` headers,
+ * in either the Static Web Apps or the Easy Auth format.
+ *
+ * @param req - The Azure Functions HTTP request
+ * @returns The principal, or undefined if the request is anonymous
+ * @throws {BadRequestError} If the `x-ms-client-principal` header is malformed
+ * @internal
+ */
+export function decodeClientPrincipal(
+  req: HttpRequest,
+): ClientPrincipal | undefined {
+  const encoded = req.headers.get(PRINCIPAL_HEADER);
+  const idHeader = req.headers.get(`${PRINCIPAL_HEADER}-id`) ?? undefined;
+  const idpHeader = req.headers.get(`${PRINCIPAL_HEADER}-idp`) ?? undefined;
+  const nameHeader = req.headers.get(`${PRINCIPAL_HEADER}-name`) ?? undefined;
+
+  if (!encoded) {
+    return idHeader
+      ? {
+          identityProvider: idpHeader ?? 'unknown',
+          userId: idHeader,
+          userDetails: nameHeader,
+          claims: [],
+          roles: [],
+        }
+      : undefined;
+  }
+
+  let payload: StaticWebAppsPrincipal & EasyAuthPrincipal;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64').toString('utf8'));
+  } catch {
+    throw new BadRequestError(`Invalid ${PRINCIPAL_HEADER} header`);
+  }
+  if (!payload || typeof payload !== 'object') {
+    throw new BadRequestError(`Invalid ${PRINCIPAL_HEADER} header`);
+  }
+
+  const claims = (Array.isArray(payload.claims) ? payload.claims : []).map(
+    ({ typ, val }) => ({ type: String(typ), value: String(val) }),
+  );
+  const claimValue = (types: string[]) =>
+    claims.find(({ type }) => types.includes(type))?.value;
+
+  if (payload.userId || payload.identityProvider) {
+    if (!payload.userId) {
+      return undefined;
+    }
+    return {
+      identityProvider: payload.identityProvider ?? idpHeader ?? 'unknown',
+      userId: payload.userId,
+      userDetails: payload.userDetails ?? nameHeader,
+      claims,
+      roles: Array.isArray(payload.userRoles) ? payload.userRoles : [],
+    };
+  }
+
+  const userId = idHeader ?? claimValue(USER_ID_CLAIM_TYPES);
+  if (!userId) {
+    return undefined;
+  }
+  const roleTypes = payload.role_typ
+    ? [payload.role_typ, ...ROLE_CLAIM_TYPES]
+    : ROLE_CLAIM_TYPES;
+  return {
+    identityProvider: idpHeader ?? payload.auth_typ ?? 'unknown',
+    userId,
+    userDetails:
+      nameHeader ?? (payload.name_typ && claimValue([payload.name_typ])),
+    claims,
+    roles: claims
+      .filter(({ type }) => roleTypes.includes(type))
+      .map(({ value }) => value),
+  };
+}
+
+/**
+ * Returns the principal of a request if its headers are trusted, and
+ * enforces the `required` and `roles` options.
+ *
+ * @param req - The Azure Functions HTTP request
+ * @param options - The principal options
+ * @returns The principal, or undefined if the request is anonymous or its
+ * headers are not trusted
+ * @throws {UnauthorizedError} If a principal is required but missing
+ * @throws {ForbiddenError} If the principal has none of the required roles
+ * @throws {BadRequestError} If the `x-ms-client-principal` header is malformed
+ * @internal
+ */
+export function authenticatePrincipal(
+  req: HttpRequest,
+  options: PrincipalOptions,
+): ClientPrincipal | undefined {
+  const trusted =
+    typeof options.trustHeaders === 'function'
+      ? options.trustHeaders(req)
+      : options.trustHeaders;
+  const principal = trusted ? decodeClientPrincipal(req) : undefined;
+
+  if (!principal) {
+    if (options.required || options.roles) {
+      throw new UnauthorizedError();
+    }
+    return undefined;
+  }
+  if (
+    options.roles &&
+    !options.roles.some((role) => principal.roles.includes(role))
+  ) {
+    throw new ForbiddenError();
+  }
+  return principal;
+}
@@ -0,0 +1,199 @@
+import type { HTTPGraphQLHead } from '@apollo/server';
+import type { HttpRequest } from '@azure/functions';
+
+/**
+ * The reverse proxy in front of the function app, whose forwarding headers
+ * are trusted.
+ *
+ * - `none`: clients reach the function app directly. The client IP is the
+ *   address the App Service front end appends to `X-Forwarded-For`.
+ * - `front-door`: Azure Front Door, which sets `X-Azure-ClientIP` and
+ *   `X-Forwarded-Host`. Requires the id of your Front Door profile, passed
+ *   with {@link TrustedProxyOptions}.
+ * - `app-gateway`: Azure Application Gateway, which appends the client IP
+ *   to `X-Forwarded-For` and sets `X-Original-Host`.
+ */
+export type TrustedProxy = 'none' | 'front-door' | 'app-gateway';
+
+export interface TrustedProxyOptions {
+  proxy: TrustedProxy;
+  /**
+   * The id of your Front Door profile, required with `front-door`.
+   * Forwarding headers of requests without a matching `X-Azure-FDID`
+   * header are ignored, since they did not come through your Front Door.
+   */
+  frontDoorId?: string;
+}
+
+/**
+ * Checks a trusted proxy policy when a handler is created.
+ *
+ * @param trustedProxy - The proxy in front of the function app
+ * @throws {Error} If `front-door` is trusted without a Front Door id
+ * @internal
+ */
+export function assertTrustedProxy(
+  trustedProxy: TrustedProxy | TrustedProxyOptions | undefined,
+): void {
+  const { proxy, frontDoorId } =
+    typeof trustedProxy === 'string'
+      ? { proxy: trustedProxy, frontDoorId: undefined }
+      : (trustedProxy ?? { proxy: 'none' });
+  if (proxy === 'front-door' && !frontDoorId) {
+    // Anyone reaching the function app directly could set X-Azure-ClientIP.
+    throw new Error(
+      "The 'front-door' trusted proxy requires a frontDoorId: pass { proxy: 'front-door', frontDoorId }",
+    );
+  }
+}
+
+/**
+ * Details of a request, resolved from the URL and the forwarding headers
+ * of the trusted proxy.
+ */
+export interface AzureFunctionsRequestInfo {
+  /**
+   * Route parameters, e.g. `tenant` for the route `{tenant}/graphql`.
+   */
+  params: Record<string, string>;
+  /**
+   * The parsed query string.
+   */
+  query: URLSearchParams;
+  /**
+   * The IP address of the client, without the port. Undefined when the
+   * request carries no forwarding headers, e.g. in local development.
+   */
+  clientIp?: string;
+  /**
+   * The host the client requested, e.g. `api.example.com`.
+   */
+  host: string;
+  /**
+   * The protocol the client used, `http` or `https`.
+   */
+  protocol: string;
+}
+
+/**
+ * Request details by the request passed to Apollo Server, for plugins.
+ * @internal
+ */
+const requestInfos = new WeakMap<object, AzureFunctionsRequestInfo>();
+
+/**
+ * Strips the port from an address such as `1.2.3.4:5678` or `[::1]:5678`.
+ * @internal
+ */
+function stripPort(address: string): string {
+  const bracketed = /^\[([^\]]+)\]/.exec(address);
+  if (bracketed) {
+    return bracketed[1];
+  }
+  return /^[^:]+:\d+$/.test(address) ? address.split(':')[0] : address;
+}
+
+/**
+ * Returns the first value of a comma-separated header.
+ * @internal
+ */
+function getFirstValue(value: string | null): string | undefined {
+  return value?.split(',')[0].trim() || undefined;
+}
+
+/**
+ * Resolves the client IP, host and protocol of a request. Forwarding
+ * headers are only read from the trusted proxy, so clients cannot spoof
+ * them: `X-Forwarded-For` entries are taken from the right, where each
+ * proxy appends the address it received the request from.
+ *
+ * @param req - The Azure Functions HTTP request
+ * @param trustedProxy - The proxy in front of the function app
+ * @returns The request details
+ * @internal
+ */
+export function resolveRequestInfo(
+  req: HttpRequest,
+  trustedProxy: TrustedProxy | TrustedProxyOptions = 'none',
+): AzureFunctionsRequestInfo {
+  const { proxy, frontDoorId } =
+    typeof trustedProxy === 'string'
+      ? { proxy: trustedProxy, frontDoorId: undefined }
+      : trustedProxy;
+  const url = new URL(req.url);
+  const forwardedFor = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map(stripPort);
+  const info: AzureFunctionsRequestInfo = {
+    params: req.params,
+    query: req.query,
+    // Appended by the App Service front end.
+    clientIp: forwardedFor.at(-1),
+    host: url.host,
+    protocol: url.protocol.replace(/:$/, ''),
+  };
+
+  if (
+    proxy === 'none' ||
+    (proxy === 'front-door' &&
+      (!frontDoorId || req.headers.get('x-azure-fdid') !== frontDoorId))
+  ) {
+    return info;
+  }
+
+  const azureClientIp =
+    proxy === 'front-door' ? req.headers.get('x-azure-clientip') : null;
+  return {
+    ...info,
+    // The proxy's own address is the last entry.
+    clientIp:
+      (azureClientIp ? stripPort(azureClientIp.trim()) : undefined) ??
+      forwardedFor.at(-2) ??
+      info.clientIp,
+    host:
+      getFirstValue(req.headers.get('x-forwarded-host')) ??
+      (proxy === 'app-gateway'
+        ? getFirstValue(req.headers.get('x-original-host'))
+        : undefined) ??
+      info.host,
+    protocol:
+      getFirstValue(req.headers.get('x-forwarded-proto')) ?? info.protocol,
+  };
+}
+
+/**
+ * Makes request details available to plugins through
+ * {@link getRequestInfo}.
+ *
+ * @param request - The request passed to Apollo Server
+ * @param info - The request details
+ * @internal
+ */
+export function setRequestInfo(
+  request: HTTPGraphQLHead,
+  info: AzureFunctionsRequestInfo,
+): void {
+  requestInfos.set(request, info);
+}
+
+/**
+ * Returns the details of the request being executed, for use in Apollo
+ * Server plugins:
+ *
+ * ```typescript
+ * async requestDidStart({ request }) {
+ *   const { clientIp } = getRequestInfo(request.http) ?? {};
+ * }
+ * ```
+ *
+ * @param http - The `http` property of the GraphQL request
+ * @returns The request details, or undefined if the request was not made
+ * through `startServerAndCreateHandler`
+ */
+export function getRequestInfo(
+  http: HTTPGraphQLHead | undefined,
+): AzureFunctionsRequestInfo | undefined {
+  return http && requestInfos.get(http);
+}
@@ -0,0 +1,366 @@
+import type { HTTPGraphQLRequest } from '@apollo/server';
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { getOperationAST, parse, type OperationTypeNode } from 'graphql';
+import { createHash } from 'node:crypto';
+import type { ClientPrincipal } from './principal';
+
+/**
+ * How a {@link RateLimitStore} counts requests.
+ *
+ * - `fixed-window` allows `limit` units per `window`, counted from the
+ *   first request of each window.
+ * - `token-bucket` holds up to `limit` tokens and refills them evenly over
+ *   `window`, which allows short bursts while keeping the average rate.
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'token-bucket';
+
+/**
+ * The limit a store enforces for a key.
+ */
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  /**
+   * The window length, in milliseconds.
+   */
+  window: number;
+}
+
+/**
+ * The outcome of consuming from a key's allowance.
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /**
+   * The units left after this request.
+   */
+  remaining: number;
+  /**
+   * Milliseconds until the allowance is fully restored.
+   */
+  reset: number;
+  /**
+   * Milliseconds until a request of the same cost would be allowed. Only
+   * set when the request is not allowed.
+   */
+  retryAfter?: number;
+}
+
+/**
+ * Stores the state of each rate limit key. Implement it on top of a shared
+ * store such as Redis to enforce limits across instances; `consume` must
+ * update the key atomically.
+ */
+export interface RateLimitStore {
+  /**
+   * Consumes `cost` units from the key's allowance, unless that would
+   * exceed the limit.
+   */
+  consume(
+    key: string,
+    cost: number,
+    policy: RateLimitPolicy,
+  ): Promise<RateLimitResult>;
+}
+
+/**
+ * The request a rate limit key or cost is derived from.
+ */
+export interface RateLimitKeyArgument {
+  req: HttpRequest;
+  context: InvocationContext;
+  /**
+   * The authenticated user, when the `principal` option is set.
+   */
+  principal?: ClientPrincipal;
+  /**
+   * The IP address of the client, resolved under the `trustedProxy` policy.
+   */
+  clientIp?: string;
+}
+
+/**
+ * An operation of the request being rate limited.
+ */
+export interface RateLimitOperation {
+  /**
+   * The operation type, or undefined if the query is invalid.
+   */
+  type?: OperationTypeNode;
+  name?: string;
+}
+
+export interface RateLimitOptions {
+  /**
+   * The units allowed per window. Each request costs 1 unit unless `cost`
+   * says otherwise.
+   */
+  limit: number;
+  /**
+   * The window length, in milliseconds.
+   */
+  window: number;
+  /**
+   * Defaults to `fixed-window`.
+   */
+  algorithm?: RateLimitAlgorithm;
+  /**
+   * What to limit by: `ip` for the client IP address, `principal` for the
+   * user authenticated through the `principal` option, `{ header }` for a
+   * header such as an API key (stored as a hash of its value), or a
+   * function of the request. Requests
+   * without a key, e.g. anonymous ones, are limited by IP address.
+   * Defaults to `ip`.
+   */
+  key?:
+    | 'ip'
+    | 'principal'
+    | { header: string }
+    | ((
+        arg: RateLimitKeyArgument,
+      ) => string | null | undefined | Promise<string | null | undefined>);
+  /**
+   * The cost of each operation, e.g. to weight mutations more than queries.
+   * Batched requests cost the sum of their operations. Defaults to 1.
+   */
+  cost?: number | ((operation: RateLimitOperation) => number);
+  /**
+   * Where counts are kept. Defaults to an {@link InMemoryRateLimitStore},
+   * which limits each instance separately.
+   */
+  store?: RateLimitStore;
+}
+
+/**
+ * The state of a key in an {@link InMemoryRateLimitStore}.
+ * @internal
+ */
+interface RateLimitEntry {
+  /**
+   * Units used in the current window, or tokens left in the bucket.
+   */
+  value: number;
+  /**
+   * When the window started, or when the bucket was last refilled.
+   */
+  time: number;
+  /**
+   * When the entry no longer holds any state.
+   */
+  expires: number;
+}
+
+/**
+ * How many keys an {@link InMemoryRateLimitStore} holds before it removes
+ * expired ones.
+ * @internal
+ */
+const SWEEP_THRESHOLD = 10_000;
+
+/**
+ * A {@link RateLimitStore} that keeps counts in memory. Limits apply to
+ * each Functions instance separately, and reset when it restarts.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, RateLimitEntry>();
+
+  async consume(
+    key: string,
+    cost: number,
+    policy: RateLimitPolicy,
+  ): Promise<RateLimitResult> {
+    const now = Date.now();
+    if (this.entries.size >= SWEEP_THRESHOLD) {
+      this.sweep(now);
+    }
+    return policy.algorithm === 'token-bucket'
+      ? this.consumeTokens(key, cost, policy, now)
+      : this.consumeWindow(key, cost, policy, now);
+  }
+
+  private consumeWindow(
+    key: string,
+    cost: number,
+    { limit, window }: RateLimitPolicy,
+    now: number,
+  ): RateLimitResult {
+    let entry = this.entries.get(key);
+    if (!entry || entry.expires <= now) {
+      entry = { value: 0, time: now, expires: now + window };
+      this.entries.set(key, entry);
+    }
+    const reset = entry.expires - now;
+    if (entry.value + cost > limit) {
+      return {
+        allowed: false,
+        limit,
+        remaining: limit - entry.value,
+        reset,
+        retryAfter: reset,
+      };
+    }
+    entry.value += cost;
+    return { allowed: true, limit, remaining: limit - entry.value, reset };
+  }
+
+  private consumeTokens(
+    key: string,
+    cost: number,
+    { limit, window }: RateLimitPolicy,
+    now: number,
+  ): RateLimitResult {
+    const rate = limit / window;
+    const entry = this.entries.get(key) ?? { value: limit, time: now };
+    const tokens = Math.min(limit, entry.value + (now - entry.time) * rate);
+    const allowed = tokens >= cost;
+    const value = allowed ? tokens - cost : tokens;
+    const reset = Math.ceil((limit - value) / rate);
+    this.entries.set(key, { value, time: now, expires: now + reset });
+    return {
+      allowed,
+      limit,
+      remaining: Math.floor(value),
+      reset,
+      ...(allowed ? {} : { retryAfter: Math.ceil((cost - value) / rate) }),
+    };
+  }
+
+  private sweep(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expires <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Derives the rate limit key of a request.
+ * @internal
+ */
+async function getRateLimitKey(
+  key: NonNullable<RateLimitOptions['key']>,
+  arg: RateLimitKeyArgument,
+): Promise<string> {
+  let value: string | null | undefined;
+  if (typeof key === 'function') {
+    value = await key(arg);
+  } else if (key === 'principal') {
+    value = arg.principal && `principal:${arg.principal.userId}`;
+  } else if (typeof key === 'object') {
+    const header = arg.req.headers.get(key.header);
+    // Keep secrets such as API keys out of a shared store.
+    value =
+      header &&
+      `${key.header.toLowerCase()}:${createHash('sha256').update(header).digest('hex')}`;
+  }
+  return value || `ip:${arg.clientIp ?? 'unknown'}`;
+}
+
+/**
+ * Returns the operation bodies of a request: one for a single request,
+ * several for a batch.
+ * @internal
+ */
+function getBodies(request: HTTPGraphQLRequest): unknown[] {
+  return request.method === 'GET'
+    ? [Object.fromEntries(new URLSearchParams(request.search))]
+    : Array.isArray(request.body)
+      ? request.body
+      : [request.body];
+}
+
+/**
+ * Returns the operations of a request.
+ * @internal
+ */
+function getOperations(request: HTTPGraphQLRequest): RateLimitOperation[] {
+  return getBodies(request).map((body) => {
+    const { query, operationName } = (body ?? {}) as Record<string, unknown>;
+    const name = typeof operationName === 'string' ? operationName : undefined;
+    if (typeof query !== 'string') {
+      return { name };
+    }
+    try {
+      const operation = getOperationAST(parse(query), name);
+      return {
+        type: operation?.operation,
+        name: name ?? operation?.name?.value,
+      };
+    } catch {
+      // Invalid queries are reported by Apollo Server.
+      return { name };
+    }
+  });
+}
+
+/**
+ * Creates the `RateLimit-*` headers for a result, and `Retry-After` if the
+ * request is not allowed. Times are in whole seconds.
+ * @internal
+ */
+function createRateLimitHeaders(
+  result: RateLimitResult,
+  window: number,
+): Record<string, string> {
+  return {
+    'ratelimit-limit': String(result.limit),
+    'ratelimit-remaining': String(Math.max(0, result.remaining)),
+    'ratelimit-reset': String(Math.ceil(result.reset / 1000)),
+    'ratelimit-policy': `${result.limit};w=${Math.ceil(window / 1000)}`,
+    ...(result.retryAfter != null
+      ? { 'retry-after': String(Math.ceil(result.retryAfter / 1000)) }
+      : {}),
+  };
+}
+
+/**
+ * Checks a request against its rate limit.
+ * @internal
+ */
+export type RateLimiter = (
+  arg: RateLimitKeyArgument & { request: HTTPGraphQLRequest },
+) => Promise<{ allowed: boolean; headers: Record<string, string> }>;
+
+/**
+ * Creates a function that consumes each request's cost from its key's
+ * allowance. If the store fails, the request is allowed and a warning is
+ * logged, so an outage of a shared store does not take the API down.
+ *
+ * @param options - The limit, key, cost and store
+ * @returns The rate limiter
+ * @internal
+ */
+export function createRateLimiter(options: RateLimitOptions): RateLimiter {
+  const store = options.store ?? new InMemoryRateLimitStore();
+  const policy: RateLimitPolicy = {
+    algorithm: options.algorithm ?? 'fixed-window',
+    limit: options.limit,
+    window: options.window,
+  };
+
+  return async ({ request, ...arg }) => {
+    const key = await getRateLimitKey(options.key ?? 'ip', arg);
+    const { cost = 1 } = options;
+    const total =
+      typeof cost === 'number'
+        ? cost * getBodies(request).length
+        : getOperations(request).reduce(
+            (sum, operation) => sum + cost(operation),
+            0,
+          );
+
+    let result: RateLimitResult;
+    try {
+      result = await store.consume(key, total, policy);
+    } catch (e) {
+      arg.context.warn('Failure checking the rate limit', e);
+      return { allowed: true, headers: {} };
+    }
+    return {
+      allowed: result.allowed,
+      headers: createRateLimitHeaders(result, policy.window),
+    };
+  };
+}
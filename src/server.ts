@@ -0,0 +1,299 @@
+import type { ApolloServer, BaseContext } from '@apollo/server';
+
+/**
+ * The lifecycle state of a server, as reported by {@link getServerState}.
+ * `draining` means a graceful shutdown is waiting for in-flight requests.
+ */
+export type ServerState =
+  | 'starting'
+  | 'ready'
+  | 'failed'
+  | 'draining'
+  | 'stopping';
+
+/**
+ * What this package tracks about a server it started.
+ * @internal
+ */
+interface ServerEntry {
+  state: ServerState;
+  error?: Error;
+  inFlight: number;
+  /**
+   * Whether this package has called `start()` on the server.
+   */
+  started: boolean;
+  /**
+   * Called when the last in-flight request finishes.
+   */
+  onIdle?: () => void;
+}
+
+/**
+ * The lifecycle of each server this package has started. Several handlers
+ * (HTTP, message, ...) may share one ApolloServer, but it can only be
+ * started once.
+ * @internal
+ */
+const startedServers = new WeakMap<object, ServerEntry>();
+
+/**
+ * Returns what this package tracks about a server.
+ * @internal
+ */
+function getEntry<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): ServerEntry | undefined {
+  return startedServers.get(server);
+}
+
+/**
+ * Tracks the lifecycle of a server with a plugin, unless a handler created
+ * by this package already did.
+ *
+ * @param server - The Apollo Server instance
+ * @returns What this package tracks about the server
+ * @internal
+ */
+function trackServer<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): ServerEntry {
+  const existing = startedServers.get(server);
+  if (existing) {
+    return existing;
+  }
+  const entry: ServerEntry = { state: 'starting', inFlight: 0, started: false };
+  startedServers.set(server, entry);
+  server.addPlugin({
+    async serverWillStart() {
+      return {
+        // Called once every plugin has started.
+        schemaDidLoadOrUpdate() {
+          if (entry.state === 'starting') {
+            entry.state = 'ready';
+          }
+        },
+        async serverWillStop() {
+          entry.state = 'stopping';
+        },
+      };
+    },
+    async startupDidFail({ error }) {
+      entry.state = 'failed';
+      entry.error = error;
+    },
+  });
+  return entry;
+}
+
+/**
+ * Starts the server in the background unless a handler created by this
+ * package already did. Startup errors are logged and fail every request.
+ *
+ * @param server - The Apollo Server instance
+ * @internal
+ */
+export function ensureServerStarted<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): void {
+  const entry = trackServer(server);
+  if (!entry.started) {
+    entry.started = true;
+    server.startInBackgroundHandlingStartupErrorsByLoggingAndFailingAllRequests();
+  }
+}
+
+/**
+ * Starts the server in the background once the current synchronous code
+ * has run, so handlers created after this one at startup can still add
+ * plugins to it. The
+ * server is tracked right away, so a server that has already started is
+ * reported to the caller.
+ *
+ * @param server - The Apollo Server instance
+ * @throws {Error} If the server has already started
+ * @internal
+ */
+export function ensureServerStarting<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): void {
+  if (!trackServer(server).started) {
+    queueMicrotask(() => ensureServerStarted(server));
+  }
+}
+
+/**
+ * Starts the server and waits for it, unless a handler created by this
+ * package already started it. Used for servers built lazily, so a failed
+ * start can be retried with a new server.
+ *
+ * @param server - The Apollo Server instance
+ * @throws {Error} If the server fails to start
+ * @internal
+ */
+export async function startServer<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): Promise<void> {
+  const entry = trackServer(server);
+  if (!entry.started) {
+    entry.started = true;
+    await server.start();
+  }
+}
+
+/**
+ * Returns the lifecycle state of a server started by
+ * {@link ensureServerStarting}, and its startup error if it failed.
+ *
+ * @param server - The Apollo Server instance
+ * @returns The state, or undefined if this package did not start the server
+ * @internal
+ */
+export function getServerState<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): { state: ServerState; error?: Error } | undefined {
+  const entry = getEntry(server);
+  return entry && { state: entry.state, error: entry.error };
+}
+
+/**
+ * Whether the server is shutting down and should not accept new requests.
+ *
+ * @param server - The Apollo Server instance
+ * @internal
+ */
+export function isShuttingDown<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): boolean {
+  const state = getEntry(server)?.state;
+  return state === 'draining' || state === 'stopping';
+}
+
+/**
+ * Counts a request as in flight until the returned function is called, so
+ * a graceful shutdown can wait for it.
+ *
+ * @param server - The Apollo Server instance
+ * @returns A function to call once the request settles
+ * @internal
+ */
+export function beginRequest<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): () => void {
+  const entry = getEntry(server);
+  if (!entry) {
+    return () => {};
+  }
+  entry.inFlight++;
+  let ended = false;
+  return () => {
+    if (ended) {
+      return;
+    }
+    ended = true;
+    entry.inFlight--;
+    if (entry.inFlight === 0) {
+      entry.onIdle?.();
+    }
+  };
+}
+
+/**
+ * Counts a request as in flight until it settles, so a graceful shutdown
+ * can wait for it.
+ *
+ * @param server - The Apollo Server instance
+ * @param fn - Handles the request
+ * @returns The result of `fn`
+ * @internal
+ */
+export async function trackRequest<TContext extends BaseContext, T>(
+  server: ApolloServer<TContext>,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const endRequest = beginRequest(server);
+  try {
+    return await fn();
+  } finally {
+    endRequest();
+  }
+}
+
+/**
+ * Keeps a request in flight until its streamed body has been sent: `end`
+ * is called once the body is read to the end, fails or is cancelled by the
+ * consumer, e.g. when the client disconnects.
+ *
+ * @param body - The response body
+ * @param end - The function returned by {@link beginRequest}
+ * @returns The body, calling `end` when it finishes
+ * @internal
+ */
+export function endRequestWithStream<T>(
+  body: AsyncIterable<T>,
+  end: () => void,
+): AsyncIterable<T> {
+  return {
+    [Symbol.asyncIterator]() {
+      const iterator = body[Symbol.asyncIterator]();
+      return {
+        async next() {
+          try {
+            const result = await iterator.next();
+            if (result.done) {
+              end();
+            }
+            return result;
+          } catch (e) {
+            end();
+            throw e;
+          }
+        },
+        async return() {
+          try {
+            await iterator.return?.();
+          } finally {
+            end();
+          }
+          return { value: undefined, done: true };
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Stops accepting requests, waits for in-flight requests to finish for up
+ * to `drainTimeout` milliseconds, then stops the server so `serverWillStop`
+ * plugins run. Servers that never started or failed to start are left
+ * alone.
+ *
+ * @param server - The Apollo Server instance
+ * @param drainTimeout - How long to wait for in-flight requests
+ * @returns The number of requests still in flight when the server stopped
+ * @internal
+ */
+export async function shutdownServer<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+  drainTimeout: number,
+): Promise<number> {
+  const entry = getEntry(server);
+  if (!entry || entry.state !== 'ready') {
+    return 0;
+  }
+  entry.state = 'draining';
+
+  if (entry.inFlight > 0) {
+    let timer: NodeJS.Timeout | undefined;
+    await new Promise<void>((resolve) => {
+      entry.onIdle = resolve;
+      timer = setTimeout(resolve, drainTimeout);
+    });
+    clearTimeout(timer);
+    entry.onIdle = undefined;
+  }
+
+  const remaining = entry.inFlight;
+  await server.stop();
+  return remaining;
+}
@@ -0,0 +1,67 @@
+import type { ApolloServer, BaseContext } from '@apollo/server';
+import { app, Disposable } from '@azure/functions';
+import {
+  ApolloServerFactory,
+  createServerLoader,
+  getLoadedServer,
+} from './lazy';
+import { shutdownServer } from './server';
+
+export interface GracefulShutdownOptions {
+  /**
+   * How long to wait for in-flight requests before stopping the server, in
+   * milliseconds. Keep it within the host's termination grace period.
+   * Defaults to 10000.
+   */
+  drainTimeout?: number;
+}
+
+const DEFAULT_DRAIN_TIMEOUT = 10_000;
+
+/**
+ * Stops the server gracefully when the Functions host shuts the worker
+ * down, so `serverWillStop` plugins (usage reporting, cache and connection
+ * teardown) get to run.
+ *
+ * Registers an `app.hook.appStart` hook that starts the server, and an
+ * `app.hook.appTerminate` hook that stops accepting requests (new ones get
+ * a 503 response), waits for in-flight requests up to `drainTimeout`, and
+ * then calls `server.stop()`. A factory is built when the app starts; if
+ * that fails, the first request builds it again.
+ *
+ * ```typescript
+ * const server = new ApolloServer({ typeDefs, resolvers });
+ * enableGracefulShutdown(server, { drainTimeout: 5000 });
+ * app.http('graphql', { handler: startServerAndCreateHandler(server) });
+ * ```
+ *
+ * @param serverOrFactory - The Apollo Server instance, or the factory
+ * passed to the handlers
+ * @param options - The drain timeout
+ * @returns A `Disposable` that unregisters the hooks
+ */
+export function enableGracefulShutdown<TContext extends BaseContext>(
+  serverOrFactory: ApolloServer<TContext> | ApolloServerFactory<TContext>,
+  options: GracefulShutdownOptions = {},
+): Disposable {
+  const drainTimeout = options.drainTimeout ?? DEFAULT_DRAIN_TIMEOUT;
+  const hooks = [
+    app.hook.appStart(() => {
+      // Failures are reported to, and retried by, the first request.
+      createServerLoader(serverOrFactory)().catch(() => {});
+    }),
+    app.hook.appTerminate(async () => {
+      const server = await getLoadedServer(serverOrFactory);
+      if (!server) {
+        return;
+      }
+      const remaining = await shutdownServer(server, drainTimeout);
+      if (remaining > 0) {
+        server.logger.warn(
+          `Stopped the server with ${remaining} request(s) still in flight after ${drainTimeout} ms`,
+        );
+      }
+    }),
+  ];
+  return new Disposable(() => hooks.forEach((hook) => hook.dispose()));
+}
@@ -0,0 +1,482 @@
+import {
+  HeaderMap,
+  type ApolloServer,
+  type BaseContext,
+  type HTTPGraphQLRequest,
+} from '@apollo/server';
+import {
+  GraphQLError,
+  subscribe,
+  type ExecutionResult,
+  type FormattedExecutionResult,
+  type GraphQLSchema,
+} from 'graphql';
+import {
+  formatExecutionResult,
+  getExecutionOptions,
+  type ServerExecutionOptions,
+} from './execution';
+import { parseForm } from './parsers';
+import { getRequestInfo, setRequestInfo } from './proxy';
+
+/**
+ * A publish/subscribe engine used to deliver subscription events. Resolvers
+ * publish events and return `subscribe()` iterators from subscription
+ * resolvers. Use a distributed implementation (e.g. backed by Redis or
+ * Service Bus) when the function app scales out to several instances.
+ */
+export interface PubSubEngine {
+  publish(topic: string, payload: unknown): Promise<void>;
+  subscribe<T = unknown>(
+    topics: string | readonly string[],
+  ): AsyncIterableIterator<T>;
+}
+
+/**
+ * An in-process {@link PubSubEngine}. Events only reach subscribers on the
+ * same instance, which makes it suitable for tests and local development.
+ */
+export class InMemoryPubSub implements PubSubEngine {
+  private readonly listeners = new Map<
+    string,
+    Set<(payload: unknown) => void>
+  >();
+
+  async publish(topic: string, payload: unknown): Promise<void> {
+    for (const listener of this.listeners.get(topic) ?? []) {
+      listener(payload);
+    }
+  }
+
+  subscribe<T = unknown>(
+    topics: string | readonly string[],
+  ): AsyncIterableIterator<T> {
+    const names = typeof topics === 'string' ? [topics] : [...topics];
+    const queue: T[] = [];
+    const waiting: Array<(result: IteratorResult<T>) => void> = [];
+    let done = false;
+
+    const listener = (payload: unknown) => {
+      const next = waiting.shift();
+      if (next) {
+        next({ value: payload as T, done: false });
+      } else {
+        queue.push(payload as T);
+      }
+    };
+    for (const name of names) {
+      let set = this.listeners.get(name);
+      if (!set) {
+        set = new Set();
+        this.listeners.set(name, set);
+      }
+      set.add(listener);
+    }
+
+    const close = async (): Promise<IteratorResult<T>> => {
+      if (!done) {
+        done = true;
+        for (const name of names) {
+          const set = this.listeners.get(name);
+          set?.delete(listener);
+          if (set?.size === 0) {
+            this.listeners.delete(name);
+          }
+        }
+        queue.length = 0;
+        for (const resolve of waiting.splice(0)) {
+          resolve({ value: undefined, done: true });
+        }
+      }
+      return { value: undefined, done: true };
+    };
+
+    return {
+      next: () => {
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        if (queue.length > 0) {
+          return Promise.resolve({ value: queue.shift()!, done: false });
+        }
+        return new Promise((resolve) => waiting.push(resolve));
+      },
+      return: close,
+      throw: async (error) => {
+        await close();
+        throw error;
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+}
+
+export interface SubscriptionOptions {
+  /**
+   * The pub/sub engine passed to the context function as `pubsub`.
+   * Defaults to an {@link InMemoryPubSub}.
+   */
+  pubsub?: PubSubEngine;
+  /**
+   * Interval, in milliseconds, between keep-alive comments sent on idle
+   * streams. Defaults to 12 seconds. Set to 0 to disable.
+   */
+  keepAliveInterval?: number;
+}
+
+const DEFAULT_KEEP_ALIVE_INTERVAL = 12_000;
+
+/**
+ * Tracks the API schema of a server, as reported by its plugins.
+ * @internal
+ */
+interface SchemaRef {
+  schema?: GraphQLSchema;
+  /**
+   * Resolves once the schema has first loaded; rejects if startup failed.
+   */
+  loaded: Promise<void>;
+}
+
+const serverSchemas = new WeakMap<object, SchemaRef>();
+
+/**
+ * A `text/event-stream` request being executed, and the results of its
+ * subscription once started.
+ * @internal
+ */
+interface EventStream {
+  method: string;
+  results?: AsyncIterator<FormattedExecutionResult>;
+}
+
+/**
+ * Event-stream requests, by the request passed to Apollo Server.
+ * @internal
+ */
+const eventStreams = new WeakMap<object, EventStream>();
+
+/**
+ * Registers a plugin that records the server's schema so subscriptions can
+ * be executed against it. Must be called before the server starts.
+ *
+ * @param server - The Apollo Server instance
+ * @throws {Error} If the server has already been started
+ * @internal
+ */
+export function captureSchema<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): void {
+  if (serverSchemas.has(server)) {
+    return;
+  }
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const ref: SchemaRef = {
+    loaded: new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    }),
+  };
+  // Startup errors are already logged by the server.
+  ref.loaded.catch(() => {});
+
+  try {
+    server.addPlugin({
+      async serverWillStart() {
+        return {
+          schemaDidLoadOrUpdate({ apiSchema }) {
+            ref.schema = apiSchema;
+            resolve();
+          },
+        };
+      },
+      async startupDidFail({ error }) {
+        reject(error);
+      },
+      async requestDidStart({ request }) {
+        const stream = request.http && eventStreams.get(request.http);
+        if (!stream) {
+          return;
+        }
+        return {
+          // GET requests reach Apollo Server as POST requests, so it
+          // allows subscriptions over GET.
+          async didResolveOperation({ operation }) {
+            if (
+              stream.method === 'GET' &&
+              operation?.operation === 'mutation'
+            ) {
+              throw new GraphQLError(
+                'GET requests only support query and subscription operations, not mutation operations',
+                { extensions: { code: 'BAD_REQUEST', http: { status: 405 } } },
+              );
+            }
+          },
+          // Apollo Server cannot execute subscriptions, so start them here,
+          // once the request has passed its checks and plugins.
+          async responseForOperation({
+            schema,
+            document,
+            operation,
+            contextValue,
+          }) {
+            if (operation.operation !== 'subscription') {
+              return null;
+            }
+            const result = await subscribe({
+              schema,
+              document,
+              contextValue,
+              variableValues: request.variables,
+              operationName: request.operationName,
+            });
+            stream.results =
+              Symbol.asyncIterator in result
+                ? formatResults(result, getExecutionOptions(server))
+                : singleResult(
+                    formatExecutionResult(result, getExecutionOptions(server)),
+                  );
+            return {
+              http: { status: 200, headers: new HeaderMap() },
+              body: { kind: 'single', singleResult: {} },
+            };
+          },
+        };
+      },
+    });
+  } catch (e) {
+    throw new Error(
+      'Subscriptions must be enabled before the ApolloServer is started. ' +
+        'Create handlers that use subscriptions before the server starts.',
+      { cause: e },
+    );
+  }
+  serverSchemas.set(server, ref);
+}
+
+/**
+ * Returns the server's current API schema, waiting for it to load.
+ *
+ * @param server - An Apollo Server passed to {@link captureSchema}
+ * @returns The API schema
+ * @throws {Error} If the server failed to start
+ * @internal
+ */
+export async function getSchema(server: object): Promise<GraphQLSchema> {
+  const ref = serverSchemas.get(server);
+  await ref?.loaded;
+  if (!ref?.schema) {
+    throw new Error('Subscriptions are not enabled for this server');
+  }
+  return ref.schema;
+}
+
+/**
+ * Returns true if the request asks for a `text/event-stream` response.
+ * @internal
+ */
+export function acceptsEventStream(request: HTTPGraphQLRequest): boolean {
+  return (request.headers.get('accept') ?? '')
+    .toLowerCase()
+    .includes('text/event-stream');
+}
+
+/**
+ * A response produced for a `text/event-stream` request.
+ * @internal
+ */
+export interface EventStreamResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string | AsyncIterable<Uint8Array>;
+}
+
+/**
+ * Formats an event in the graphql-sse (distinct connections mode) protocol.
+ * @internal
+ */
+function formatEvent(event: 'next' | 'complete', data?: unknown): string {
+  return event === 'next'
+    ? `event: next\ndata: ${JSON.stringify(data)}\n\n`
+    : 'event: complete\ndata:\n\n';
+}
+
+/**
+ * Turns a stream of results into server-sent events, interleaving keep-alive
+ * comments while the stream is idle. When the consumer stops reading (the
+ * client disconnected), the source iterator is closed so the subscription is
+ * torn down.
+ * @internal
+ */
+async function* toEventStream(
+  results: AsyncIterator<unknown>,
+  keepAliveInterval: number,
+): AsyncIterable<Uint8Array> {
+  const encoder = new TextEncoder();
+  let pending: Promise<IteratorResult<unknown>> | undefined;
+  try {
+    // Flush headers immediately so clients see the stream open.
+    yield encoder.encode(':\n\n');
+    for (;;) {
+      pending ??= results.next();
+      let timer: NodeJS.Timeout | undefined;
+      const result = await (keepAliveInterval > 0
+        ? Promise.race([
+            pending,
+            new Promise<'ping'>((resolve) => {
+              timer = setTimeout(() => resolve('ping'), keepAliveInterval);
+            }),
+          ])
+        : pending);
+      clearTimeout(timer);
+
+      if (result === 'ping') {
+        yield encoder.encode(':\n\n');
+        continue;
+      }
+      pending = undefined;
+      if (result.done) {
+        break;
+      }
+      yield encoder.encode(formatEvent('next', result.value));
+    }
+    yield encoder.encode(formatEvent('complete'));
+  } finally {
+    await results.return?.();
+  }
+}
+
+/**
+ * The `Accept` header the request is executed with: Apollo Server's JSON or
+ * multipart response is turned into events.
+ * @internal
+ */
+const EXECUTION_ACCEPT =
+  'multipart/mixed; incrementalSpec=v0.2, application/json';
+
+/**
+ * Formats each result of a subscription with the server's error
+ * formatting. Unlike an async generator, closing
+ * the returned iterator closes the subscription even while it waits for an
+ * event.
+ * @internal
+ */
+function formatResults(
+  results: AsyncIterator<ExecutionResult>,
+  options: ServerExecutionOptions,
+): AsyncIterator<FormattedExecutionResult> {
+  return {
+    async next() {
+      const result = await results.next();
+      return result.done
+        ? { done: true, value: undefined }
+        : { done: false, value: formatExecutionResult(result.value, options) };
+    },
+    async return() {
+      await results.return?.();
+      return { done: true, value: undefined };
+    },
+  };
+}
+
+/**
+ * Reads the results of an Apollo Server multipart response, one per part.
+ * @internal
+ */
+async function* parseMultipartResults(
+  parts: AsyncIterable<string>,
+): AsyncGenerator<FormattedExecutionResult> {
+  for await (const part of parts) {
+    yield JSON.parse(
+      part.slice(part.indexOf('\r\n\r\n') + 4, part.lastIndexOf('\r\n---')),
+    );
+  }
+}
+
+/**
+ * Executes a GraphQL request whose client accepts `text/event-stream`,
+ * following the graphql-sse protocol in distinct connections mode.
+ *
+ * The request runs through `server.executeHTTPGraphQLRequest`, so CSRF
+ * prevention, plugins, the context function and `formatError` apply as to
+ * any other request, and requests it rejects get its JSON response.
+ * Subscriptions are then executed with graphql-js `subscribe` and stream one
+ * `next` event per result. Queries and mutations stream their result (or
+ * incremental payloads) before completing.
+ *
+ * @param server - The Apollo Server instance
+ * @param request - The normalized request
+ * @param context - Creates the context value for the operation
+ * @param options - Subscription options
+ * @returns The streaming response, or a JSON error response
+ * @internal
+ */
+export async function executeEventStreamRequest<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+  request: HTTPGraphQLRequest,
+  context: () => Promise<TContext>,
+  options: SubscriptionOptions,
+): Promise<EventStreamResponse> {
+  const headers = new HeaderMap(request.headers);
+  headers.set('accept', EXECUTION_ACCEPT);
+  // Apollo Server only runs queries over GET. The headers are kept, so its
+  // CSRF prevention still requires a preflight header.
+  const httpGraphQLRequest: HTTPGraphQLRequest =
+    request.method === 'GET'
+      ? {
+          ...request,
+          method: 'POST',
+          headers,
+          search: '',
+          body: parseForm(request.search),
+        }
+      : { ...request, headers };
+  const info = getRequestInfo(request);
+  if (info) {
+    setRequestInfo(httpGraphQLRequest, info);
+  }
+  const stream: EventStream = { method: request.method };
+  eventStreams.set(httpGraphQLRequest, stream);
+
+  const response = await server.executeHTTPGraphQLRequest({
+    httpGraphQLRequest,
+    context,
+  });
+  const status = response.status ?? 200;
+  let results: AsyncIterator<FormattedExecutionResult>;
+  if (stream.results) {
+    results = stream.results;
+  } else if (response.body.kind === 'chunked') {
+    results = parseMultipartResults(response.body.asyncIterator);
+  } else if (status !== 200) {
+    return {
+      status,
+      headers: Object.fromEntries(response.headers),
+      body: response.body.string,
+    };
+  } else {
+    results = singleResult(JSON.parse(response.body.string));
+  }
+
+  return {
+    status: 200,
+    headers: {
+      'content-type': 'text/event-stream; charset=utf-8',
+      'cache-control': 'no-cache',
+      connection: 'keep-alive',
+      // Prevent proxies from buffering the stream.
+      'x-accel-buffering': 'no',
+    },
+    body: toEventStream(
+      results,
+      options.keepAliveInterval ?? DEFAULT_KEEP_ALIVE_INTERVAL,
+    ),
+  };
+}
+
+async function* singleResult<T>(result: T): AsyncGenerator<T> {
+  yield result;
+}
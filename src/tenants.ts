@@ -0,0 +1,192 @@
+import type { ApolloServer, BaseContext } from '@apollo/server';
+import type {
+  HttpHandler,
+  HttpRequest,
+  InvocationContext,
+} from '@azure/functions';
+import { createErrorResponse, NotFoundError } from './errors';
+import { createHandler, type AzureFunctionsMiddlewareOptions } from './handler';
+import { ApolloServerFactory, isServerFactory, unloadServer } from './lazy';
+import { shutdownServer } from './server';
+
+/**
+ * A tenant's server and handler options.
+ */
+export interface TenantConfig<TContext extends BaseContext = BaseContext> {
+  /**
+   * The server, or a factory that builds it on the tenant's first request.
+   * Only servers built by a factory can be evicted.
+   */
+  server: ApolloServer<TContext> | ApolloServerFactory<TContext>;
+  /**
+   * Options for the tenant's handler, as for `startServerAndCreateHandler`,
+   * including its own context function.
+   */
+  options?: AzureFunctionsMiddlewareOptions<TContext>;
+}
+
+/**
+ * Reads the tenant key from a request: `{ param }` from a route parameter,
+ * `{ header }` from a request header, `host` from the host name (without
+ * port), or a function of the request.
+ */
+export type TenantKey =
+  | { param: string }
+  | { header: string }
+  | 'host'
+  | ((req: HttpRequest) => string | null | undefined);
+
+export interface TenantRouterOptions<TContext extends BaseContext> {
+  /**
+   * The tenants by key. Each is a server, a server factory, or a
+   * {@link TenantConfig} with its own handler options.
+   */
+  tenants: Record<
+    string,
+    | ApolloServer<TContext>
+    | ApolloServerFactory<TContext>
+    | TenantConfig<TContext>
+  >;
+  /**
+   * Where to read the tenant key from. Defaults to the `tenant` route
+   * parameter, e.g. with `route: '{tenant}/graphql'`.
+   */
+  tenantKey?: TenantKey;
+  /**
+   * How many servers built by factories stay loaded. When a request loads
+   * one more, the least recently used is stopped, and rebuilt on its next
+   * request. Defaults to 10.
+   */
+  maxLoadedTenants?: number;
+  /**
+   * How long an evicted server waits for its in-flight requests before it
+   * stops, in milliseconds. Defaults to 10000.
+   */
+  drainTimeout?: number;
+}
+
+/**
+ * A tenant's handler, and its factory if it is loaded lazily.
+ * @internal
+ */
+interface TenantEntry<TContext extends BaseContext> {
+  handler: HttpHandler;
+  factory?: ApolloServerFactory<TContext>;
+}
+
+const DEFAULT_TENANT_KEY: TenantKey = { param: 'tenant' };
+const DEFAULT_MAX_LOADED_TENANTS = 10;
+const DEFAULT_DRAIN_TIMEOUT = 10_000;
+
+/**
+ * Returns true if the tenant is given with its own options.
+ * @internal
+ */
+function isTenantConfig<TContext extends BaseContext>(
+  tenant: TenantRouterOptions<TContext>['tenants'][string],
+): tenant is TenantConfig<TContext> {
+  return typeof tenant !== 'function' && 'server' in tenant;
+}
+
+/**
+ * Reads the tenant key from a request.
+ * @internal
+ */
+function getTenantKey(req: HttpRequest, tenantKey: TenantKey): string | null {
+  if (typeof tenantKey === 'function') {
+    return tenantKey(req) || null;
+  }
+  if (tenantKey === 'host') {
+    try {
+      return new URL(req.url).hostname || null;
+    } catch {
+      return null;
+    }
+  }
+  if ('param' in tenantKey) {
+    return req.params[tenantKey.param] || null;
+  }
+  return req.headers.get(tenantKey.header) || null;
+}
+
+/**
+ * Creates an Azure Functions HTTP handler that serves several tenants'
+ * schemas from one function. Each request is routed to the tenant picked
+ * by `tenantKey`; unknown tenants get a 404 response.
+ *
+ * ```typescript
+ * app.http('graphql', {
+ *   route: '{tenant}/graphql',
+ *   methods: ['GET', 'POST'],
+ *   handler: createTenantRouter({
+ *     tenants: {
+ *       'tenant-a': tenantAServer,
+ *       'tenant-b': async () => new ApolloServer(await loadTenant('b')),
+ *       'tenant-c': { server: tenantCServer, options: { context } },
+ *     },
+ *   }),
+ * });
+ * ```
+ *
+ * Servers given as factories are built on their tenant's first request and
+ * evicted once more than `maxLoadedTenants` are loaded, least recently used
+ * first, so memory stays bounded.
+ *
+ * @param options - The tenants and how to pick one
+ * @returns An Azure Functions HTTP handler
+ */
+export function createTenantRouter<TContext extends BaseContext>(
+  options: TenantRouterOptions<TContext>,
+): HttpHandler {
+  const tenantKey = options.tenantKey ?? DEFAULT_TENANT_KEY;
+  const maxLoadedTenants =
+    options.maxLoadedTenants ?? DEFAULT_MAX_LOADED_TENANTS;
+  const drainTimeout = options.drainTimeout ?? DEFAULT_DRAIN_TIMEOUT;
+
+  const tenants = new Map<string, TenantEntry<TContext>>();
+  for (const [key, tenant] of Object.entries(options.tenants)) {
+    const { server, options: handlerOptions }: TenantConfig<TContext> =
+      isTenantConfig(tenant) ? tenant : { server: tenant };
+    tenants.set(key, {
+      // Without a context function, the tenant gets the default context.
+      handler: createHandler(server, handlerOptions),
+      factory: isServerFactory(server) ? server : undefined,
+    });
+  }
+
+  // Lazily loaded tenants, least recently used first.
+  const loaded = new Set<string>();
+
+  const evict = (key: string, context: InvocationContext) => {
+    loaded.delete(key);
+    const server = unloadServer(tenants.get(key)!.factory!);
+    // New requests build a new server while this one drains.
+    server
+      ?.then((server) => shutdownServer(server, drainTimeout))
+      .catch((e) => context.warn(`Failure stopping tenant "${key}"`, e));
+  };
+
+  return async (req, context) => {
+    const key = getTenantKey(req, tenantKey);
+    const tenant = key == null ? undefined : tenants.get(key);
+    if (key == null || !tenant) {
+      return createErrorResponse(
+        new NotFoundError('Unknown tenant'),
+        req.headers.get('accept'),
+        context,
+      );
+    }
+
+    if (tenant.factory) {
+      loaded.delete(key);
+      loaded.add(key);
+      for (const lru of loaded) {
+        if (loaded.size <= maxLoadedTenants) {
+          break;
+        }
+        evict(lru, context);
+      }
+    }
+    return tenant.handler(req, context);
+  };
+}
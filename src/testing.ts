@@ -0,0 +1,412 @@
+import {
+  HttpRequest,
+  HttpResponse,
+  InvocationContext,
+  type HttpHandler,
+  type HttpMethod,
+  type InvocationContextInit,
+  type LogLevel,
+} from '@azure/functions';
+import type { FormattedExecutionResult } from 'graphql';
+
+/**
+ * The default URL of requests created by this module, matching the local
+ * Functions host.
+ */
+export const DEFAULT_TEST_URL = 'http://localhost:7071/api/graphql';
+
+export interface CreateHttpRequestOptions {
+  /**
+   * The request method. Defaults to `POST` when a body is given, `GET`
+   * otherwise.
+   */
+  method?: HttpMethod;
+  /**
+   * The request URL. Defaults to {@link DEFAULT_TEST_URL}.
+   */
+  url?: string;
+  headers?: Record<string, string>;
+  /**
+   * The request body. Strings and bytes are sent as-is; any other value is
+   * serialized as JSON and sent with `content-type: application/json` unless
+   * a content type is given.
+   */
+  body?: string | Uint8Array | object;
+  /**
+   * Route parameters, as Azure Functions would extract them from the route
+   * template.
+   */
+  params?: Record<string, string>;
+}
+
+/**
+ * Creates a real `@azure/functions` {@link HttpRequest}, with the same body
+ * stream, `clone()` and body-reading semantics the Functions host provides.
+ *
+ * @param options - The request method, URL, headers, body and route params
+ * @returns A new HTTP request
+ */
+export function createHttpRequest(
+  options: CreateHttpRequestOptions = {},
+): HttpRequest {
+  const headers = { ...options.headers };
+  let body: { string?: string; bytes?: Uint8Array } | undefined;
+
+  if (typeof options.body === 'string') {
+    body = { string: options.body };
+  } else if (options.body instanceof Uint8Array) {
+    body = { bytes: options.body };
+  } else if (options.body !== undefined) {
+    body = { string: JSON.stringify(options.body) };
+    if (!Object.keys(headers).some((h) => h.toLowerCase() === 'content-type')) {
+      headers['content-type'] = 'application/json';
+    }
+  }
+
+  return new HttpRequest({
+    method: options.method ?? (body ? 'POST' : 'GET'),
+    url: options.url ?? DEFAULT_TEST_URL,
+    headers,
+    body,
+    params: options.params,
+  });
+}
+
+/**
+ * A log call captured by a {@link TestInvocationContext}.
+ */
+export interface CapturedLog {
+  level: LogLevel;
+  args: unknown[];
+}
+
+/**
+ * An {@link InvocationContext} that records every log call.
+ */
+export interface TestInvocationContext extends InvocationContext {
+  readonly logs: CapturedLog[];
+}
+
+/**
+ * Creates an {@link InvocationContext} that captures `log`, `trace`,
+ * `debug`, `info`, `warn` and `error` calls in its `logs` array instead of
+ * writing them to the console.
+ *
+ * @param init - Optional invocation id, function name, trace context, etc.
+ * A `logHandler`, if given, is still called for each log.
+ * @returns A new invocation context
+ */
+export function createInvocationContext(
+  init: InvocationContextInit = {},
+): TestInvocationContext {
+  const logs: CapturedLog[] = [];
+  const context = new InvocationContext({
+    invocationId: 'test-invocation',
+    functionName: 'test-function',
+    ...init,
+    logHandler: (level, ...args) => {
+      logs.push({ level, args });
+      init.logHandler?.(level, ...args);
+    },
+  });
+  return Object.assign(context, { logs });
+}
+
+export interface WebPubSubEventInit {
+  /**
+   * The event name, e.g. `connect`, `message` or `disconnected`.
+   */
+  eventName: string;
+  connectionId: string;
+  userId?: string;
+  /**
+   * The hub the client is connected to. Defaults to `graphql`.
+   */
+  hub?: string;
+  /**
+   * The message data of `message` events.
+   */
+  data?: unknown;
+  /**
+   * The subprotocols requested by the client in `connect` events.
+   */
+  subprotocols?: string[];
+}
+
+/**
+ * Creates a {@link TestInvocationContext} for a simulated Web PubSub event,
+ * with the trigger metadata the Web PubSub trigger provides. Pass it to the
+ * handlers returned by `startServerAndCreateWebPubSubBridge`.
+ *
+ * ```typescript
+ * const context = createWebPubSubInvocationContext({
+ *   eventName: 'message',
+ *   connectionId: 'abc',
+ *   data: JSON.stringify({ type: 'connection_init' }),
+ * });
+ * await bridge.message.handler(context.triggerMetadata!.data, context);
+ * context.extraOutputs.get(bridge.output); // the messages sent to clients
+ * ```
+ *
+ * @param event - The event name, connection and payload
+ * @returns A new invocation context
+ */
+export function createWebPubSubInvocationContext(
+  event: WebPubSubEventInit,
+): TestInvocationContext {
+  const hub = event.hub ?? 'graphql';
+  return createInvocationContext({
+    triggerMetadata: {
+      connectionContext: {
+        connectionId: event.connectionId,
+        userId: event.userId,
+        hub,
+        eventName: event.eventName,
+        eventType: event.eventName === 'message' ? 'user' : 'system',
+      },
+      data: event.data,
+      subprotocols: event.subprotocols,
+    },
+  });
+}
+
+/**
+ * The decoded body of a GraphQL response: a single result for buffered
+ * responses, or the initial and subsequent payloads of a chunked
+ * (`@defer`/`@stream`) response.
+ */
+export type TestResponseBody<TData = Record<string, unknown>> =
+  | {
+      kind: 'single';
+      singleResult: FormattedExecutionResult<TData>;
+    }
+  | {
+      kind: 'incremental';
+      initialResult: FormattedExecutionResult<TData> & { hasNext: boolean };
+      subsequentResults: Array<Record<string, unknown> & { hasNext: boolean }>;
+    };
+
+export interface TestResponse<TData = Record<string, unknown>> {
+  status: number;
+  headers: Headers;
+  /**
+   * The raw response body.
+   */
+  text: string;
+  /**
+   * The decoded GraphQL response, or `undefined` if the body isn't a GraphQL
+   * response (e.g. a plain-text response from middleware).
+   */
+  body?: TestResponseBody<TData>;
+  /**
+   * The invocation context the request ran with.
+   */
+  context: TestInvocationContext;
+}
+
+export interface TestOperationOptions<
+  TVariables extends Record<string, unknown> = Record<string, unknown>,
+> {
+  variables?: TVariables;
+  operationName?: string;
+  extensions?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  /**
+   * Send the operation as a `GET` request with URL parameters instead of a
+   * JSON `POST`. Only applies to queries.
+   */
+  method?: 'GET' | 'POST';
+}
+
+export interface TestClientOptions {
+  /**
+   * The URL requests are sent to. Defaults to {@link DEFAULT_TEST_URL}.
+   */
+  url?: string;
+  /**
+   * Headers sent with every request.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Creates the invocation context for each request. Defaults to
+   * {@link createInvocationContext}.
+   */
+  createContext?: () => TestInvocationContext;
+}
+
+export interface TestClient {
+  query<
+    TData = Record<string, unknown>,
+    TVariables extends Record<string, unknown> = Record<string, unknown>,
+  >(
+    query: string,
+    options?: TestOperationOptions<TVariables>,
+  ): Promise<TestResponse<TData>>;
+  mutate<
+    TData = Record<string, unknown>,
+    TVariables extends Record<string, unknown> = Record<string, unknown>,
+  >(
+    mutation: string,
+    options?: Omit<TestOperationOptions<TVariables>, 'method'>,
+  ): Promise<TestResponse<TData>>;
+  /**
+   * Sends an arbitrary request through the handler.
+   */
+  execute<TData = Record<string, unknown>>(
+    request: HttpRequest | CreateHttpRequestOptions,
+    context?: TestInvocationContext,
+  ): Promise<TestResponse<TData>>;
+}
+
+const DEFAULT_ACCEPT =
+  'multipart/mixed; deferSpec=20220824, application/graphql-response+json, application/json';
+
+/**
+ * Decodes a `multipart/mixed` incremental delivery response into its JSON
+ * payloads.
+ * @internal
+ */
+function decodeMultipart(text: string, contentType: string): unknown[] {
+  const match = /boundary="?([^";]+)"?/i.exec(contentType);
+  const boundary = match?.[1] ?? '-';
+  return text
+    .split(`\r\n--${boundary}`)
+    .map((part) => {
+      const separator = part.indexOf('\r\n\r\n');
+      return separator === -1 ? '' : part.slice(separator + 4).trim();
+    })
+    .filter(Boolean)
+    .map((json) => JSON.parse(json));
+}
+
+/**
+ * Decodes a response body into a {@link TestResponseBody}.
+ * @internal
+ */
+function decodeBody<TData>(
+  text: string,
+  contentType: string,
+): TestResponseBody<TData> | undefined {
+  if (contentType.toLowerCase().startsWith('multipart/mixed')) {
+    const [initialResult, ...subsequentResults] = decodeMultipart(
+      text,
+      contentType,
+    );
+    return {
+      kind: 'incremental',
+      initialResult: initialResult as FormattedExecutionResult<TData> & {
+        hasNext: boolean;
+      },
+      subsequentResults: subsequentResults as Array<
+        Record<string, unknown> & { hasNext: boolean }
+      >,
+    };
+  }
+
+  try {
+    return { kind: 'single', singleResult: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Creates an in-process client that sends GraphQL operations through an
+ * Azure Functions HTTP handler, such as the one returned by
+ * `startServerAndCreateHandler`. Requests run through the real handler,
+ * including body parsing and the context function, without starting the
+ * Functions host.
+ *
+ * ```typescript
+ * const client = createTestClient(startServerAndCreateHandler(server));
+ * const { body } = await client.query('{ hello }');
+ * ```
+ *
+ * @param handler - The HTTP handler to test
+ * @param options - Default URL, headers and context factory
+ * @returns A test client
+ */
+export function createTestClient(
+  handler: HttpHandler,
+  options: TestClientOptions = {},
+): TestClient {
+  const createContext = options.createContext ?? createInvocationContext;
+
+  async function execute<TData>(
+    request: HttpRequest | CreateHttpRequestOptions,
+    context = createContext(),
+  ): Promise<TestResponse<TData>> {
+    const req =
+      request instanceof HttpRequest
+        ? request
+        : createHttpRequest({
+            url: options.url,
+            ...request,
+            headers: { ...options.headers, ...request.headers },
+          });
+
+    const result = await handler(req, context);
+    // Let HttpResponse normalize the body (string, bytes or async iterable)
+    // and headers exactly as the Functions host would.
+    const response =
+      result instanceof HttpResponse ? result : new HttpResponse(result);
+    const text = await response.text();
+
+    return {
+      status: response.status,
+      headers: response.headers,
+      text,
+      body: decodeBody<TData>(text, response.headers.get('content-type') ?? ''),
+      context,
+    };
+  }
+
+  function send<TData>(
+    query: string,
+    operation: TestOperationOptions<Record<string, unknown>>,
+  ): Promise<TestResponse<TData>> {
+    const headers = { accept: DEFAULT_ACCEPT, ...operation.headers };
+
+    if (operation.method === 'GET') {
+      const url = new URL(options.url ?? DEFAULT_TEST_URL);
+      url.searchParams.set('query', query);
+      if (operation.variables) {
+        url.searchParams.set('variables', JSON.stringify(operation.variables));
+      }
+      if (operation.operationName) {
+        url.searchParams.set('operationName', operation.operationName);
+      }
+      if (operation.extensions) {
+        url.searchParams.set(
+          'extensions',
+          JSON.stringify(operation.extensions),
+        );
+      }
+      return execute<TData>({
+        method: 'GET',
+        url: url.toString(),
+        // GET requests are not preflighted, so satisfy Apollo Server's CSRF
+        // prevention explicitly.
+        headers: { 'apollo-require-preflight': 'true', ...headers },
+      });
+    }
+
+    return execute<TData>({
+      method: 'POST',
+      headers,
+      body: {
+        query,
+        variables: operation.variables,
+        operationName: operation.operationName,
+        extensions: operation.extensions,
+      },
+    });
+  }
+
+  return {
+    query: (query, operation = {}) => send(query, operation),
+    mutate: (mutation, operation = {}) =>
+      send(mutation, { ...operation, method: 'POST' }),
+    execute,
+  };
+}
@@ -0,0 +1,357 @@
+import type { ApolloServer, BaseContext } from '@apollo/server';
+import type {
+  HttpRequest,
+  HttpResponse,
+  HttpResponseInit,
+  InvocationContext,
+} from '@azure/functions';
+import type {
+  Attributes,
+  Context,
+  Span,
+  SpanContext,
+  Tracer,
+  TracerProvider,
+} from '@opentelemetry/api';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { responsePathAsArray, type GraphQLResolveInfo } from 'graphql';
+import { getErrorMessage } from './utils';
+
+type OpenTelemetryApi = typeof import('@opentelemetry/api');
+
+export interface TracingOptions {
+  /**
+   * The tracer provider to create spans with. Exporters are configured on
+   * the provider, e.g. with a `BatchSpanProcessor`. Defaults to the
+   * globally registered provider.
+   */
+  tracerProvider?: TracerProvider;
+  /**
+   * Whether to create a span for each resolved field. Defaults to true.
+   */
+  resolverSpans?: boolean;
+}
+
+/**
+ * The request span and tracer of the request being handled.
+ * @internal
+ */
+interface TracingScope {
+  api: OpenTelemetryApi;
+  tracer: Tracer;
+  span: Span;
+  resolverSpans: boolean;
+}
+
+const tracingStorage = new AsyncLocalStorage<TracingScope>();
+
+/**
+ * Servers the tracing plugin has been added to.
+ * @internal
+ */
+const tracedServers = new WeakSet<object>();
+
+const TRACER_NAME = '@as-integrations/azure-functions';
+const TRACEPARENT =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Loads `@opentelemetry/api`, an optional peer dependency.
+ * @internal
+ */
+function loadOpenTelemetry(): OpenTelemetryApi {
+  try {
+    return require('@opentelemetry/api');
+  } catch (e) {
+    throw new Error(
+      'Tracing requires the @opentelemetry/api package to be installed.',
+      { cause: e },
+    );
+  }
+}
+
+/**
+ * Parses a W3C `traceparent` header into a remote span context.
+ *
+ * @param api - The OpenTelemetry API
+ * @param traceParent - The `traceparent` value
+ * @param traceState - The `tracestate` value
+ * @returns The span context, or undefined if `traceParent` is invalid
+ * @internal
+ */
+export function parseTraceParent(
+  api: OpenTelemetryApi,
+  traceParent: string | null | undefined,
+  traceState?: string | null,
+): SpanContext | undefined {
+  const match = TRACEPARENT.exec(traceParent?.trim().toLowerCase() ?? '');
+  if (!match || match[1] === 'ff') {
+    return undefined;
+  }
+  const spanContext: SpanContext = {
+    traceId: match[2],
+    spanId: match[3],
+    traceFlags: parseInt(match[4], 16),
+    isRemote: true,
+    traceState: traceState ? api.createTraceState(traceState) : undefined,
+  };
+  return api.isSpanContextValid(spanContext) ? spanContext : undefined;
+}
+
+/**
+ * Returns the context to parent a request span from: the Functions host's
+ * trace context, or else the request's `traceparent` header.
+ * @internal
+ */
+function getParentContext(
+  api: OpenTelemetryApi,
+  req: HttpRequest,
+  context: InvocationContext,
+): Context {
+  const spanContext =
+    parseTraceParent(
+      api,
+      context.traceContext?.traceParent,
+      context.traceContext?.traceState,
+    ) ??
+    parseTraceParent(
+      api,
+      req.headers.get('traceparent'),
+      req.headers.get('tracestate'),
+    );
+  return spanContext
+    ? api.trace.setSpanContext(api.ROOT_CONTEXT, spanContext)
+    : api.ROOT_CONTEXT;
+}
+
+/**
+ * Returns the path of a URL, or undefined if it is malformed.
+ * @internal
+ */
+function getPath(url: string): string | undefined {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Ends a span, recording an error if there was one.
+ * @internal
+ */
+function endSpan(
+  api: OpenTelemetryApi,
+  span: Span,
+  error?: Error | null,
+): void {
+  if (error) {
+    span.recordException(error);
+    span.setStatus({
+      code: api.SpanStatusCode.ERROR,
+      message: getErrorMessage(error, 'Unknown error'),
+    });
+  }
+  span.end();
+}
+
+/**
+ * Starts a child span of another span.
+ * @internal
+ */
+function startChildSpan(
+  scope: TracingScope,
+  name: string,
+  parent: Span,
+  attributes?: Attributes,
+): Span {
+  return scope.tracer.startSpan(
+    name,
+    { attributes },
+    scope.api.trace.setSpan(scope.api.ROOT_CONTEXT, parent),
+  );
+}
+
+/**
+ * Returns the response path of a field's closest ancestor field, skipping
+ * list indices.
+ * @internal
+ */
+function getParentFieldPath(info: GraphQLResolveInfo): string | undefined {
+  let path = info.path.prev;
+  while (path && typeof path.key === 'number') {
+    path = path.prev;
+  }
+  return path ? responsePathAsArray(path).join('.') : undefined;
+}
+
+/**
+ * Adds a plugin that creates spans for parsing, validation, execution and
+ * each resolver under the span of the request being handled. Requests
+ * outside of a {@link RequestTracer} are not traced.
+ *
+ * @param server - The Apollo Server instance
+ * @throws {Error} If the server has already started
+ * @internal
+ */
+export function addTracingPlugin<TContext extends BaseContext>(
+  server: ApolloServer<TContext>,
+): void {
+  if (tracedServers.has(server)) {
+    return;
+  }
+  try {
+    server.addPlugin({
+      async requestDidStart() {
+        const scope = tracingStorage.getStore();
+        if (!scope) {
+          return;
+        }
+        const { api, span: requestSpan } = scope;
+        return {
+          async parsingDidStart() {
+            const span = startChildSpan(scope, 'graphql.parse', requestSpan);
+            return async (error) => endSpan(api, span, error);
+          },
+          async validationDidStart() {
+            const span = startChildSpan(scope, 'graphql.validate', requestSpan);
+            return async (errors) => endSpan(api, span, errors?.[0]);
+          },
+          async didResolveOperation({ operation, operationName }) {
+            if (!operation) {
+              return;
+            }
+            const type = operation.operation;
+            requestSpan.updateName(
+              operationName ? `${type} ${operationName}` : type,
+            );
+            requestSpan.setAttribute('graphql.operation.type', type);
+            if (operationName) {
+              requestSpan.setAttribute('graphql.operation.name', operationName);
+            }
+          },
+          async didEncounterErrors({ errors }) {
+            requestSpan.setAttribute('graphql.errors.count', errors.length);
+            requestSpan.setStatus({
+              code: api.SpanStatusCode.ERROR,
+              message: errors[0].message,
+            });
+          },
+          async executionDidStart() {
+            const executionSpan = startChildSpan(
+              scope,
+              'graphql.execute',
+              requestSpan,
+            );
+            const fieldSpans = new Map<string, Span>();
+            return {
+              willResolveField({ info }) {
+                if (!scope.resolverSpans) {
+                  return;
+                }
+                const path = responsePathAsArray(info.path).join('.');
+                const parentPath = getParentFieldPath(info);
+                const span = startChildSpan(
+                  scope,
+                  'graphql.resolve',
+                  (parentPath && fieldSpans.get(parentPath)) || executionSpan,
+                  {
+                    'graphql.field.name': info.fieldName,
+                    'graphql.field.path': path,
+                    'graphql.field.type': info.returnType.toString(),
+                    'graphql.parent.type': info.parentType.name,
+                  },
+                );
+                fieldSpans.set(path, span);
+                return (error) => endSpan(api, span, error);
+              },
+              async executionDidEnd(error) {
+                endSpan(api, executionSpan, error);
+              },
+            };
+          },
+        };
+      },
+    });
+  } catch (e) {
+    throw new Error(
+      'Tracing must be enabled before the ApolloServer is started. ' +
+        'Create handlers that use tracing before the server starts.',
+      { cause: e },
+    );
+  }
+  tracedServers.add(server);
+}
+
+/**
+ * Traces the requests of a handler.
+ * @internal
+ */
+export type RequestTracer = (
+  req: HttpRequest,
+  context: InvocationContext,
+  handle: () => Promise<HttpResponseInit | HttpResponse>,
+) => Promise<HttpResponseInit | HttpResponse>;
+
+/**
+ * Creates a function that runs each request in a server span, parented from
+ * the invocation's trace context or the `traceparent` header. The span is
+ * named after the operation and ends when the response is returned. Pass
+ * the server to {@link addTracingPlugin} for spans of the execution phases.
+ *
+ * @param options - The tracing options
+ * @returns The request tracer
+ * @throws {Error} If `@opentelemetry/api` is not installed
+ * @internal
+ */
+export function createRequestTracer(options: TracingOptions): RequestTracer {
+  const api = loadOpenTelemetry();
+  const tracer = (
+    options.tracerProvider ?? api.trace.getTracerProvider()
+  ).getTracer(TRACER_NAME);
+
+  return async (req, context, handle) => {
+    const parentContext = getParentContext(api, req, context);
+    const span = tracer.startSpan(
+      'GraphQL Operation',
+      {
+        kind: api.SpanKind.SERVER,
+        attributes: {
+          'faas.trigger': 'http',
+          'faas.invocation_id': context.invocationId,
+          'http.request.method': req.method,
+          'url.path': getPath(req.url),
+        },
+      },
+      parentContext,
+    );
+    const scope: TracingScope = {
+      api,
+      tracer,
+      span,
+      resolverSpans: options.resolverSpans ?? true,
+    };
+
+    try {
+      const response = await api.context.with(
+        api.trace.setSpan(parentContext, span),
+        () => tracingStorage.run(scope, handle),
+      );
+      const status = response.status ?? 200;
+      span.setAttribute('http.response.status_code', status);
+      if (status >= 500) {
+        span.setStatus({ code: api.SpanStatusCode.ERROR });
+      }
+      return response;
+    } catch (e) {
+      span.recordException(e instanceof Error ? e : String(e));
+      span.setStatus({
+        code: api.SpanStatusCode.ERROR,
+        message: getErrorMessage(e, 'Unknown error'),
+      });
+      throw e;
+    } finally {
+      span.end();
+    }
+  };
+}
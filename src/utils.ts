@@ -0,0 +1,21 @@
+/**
+ * Safely extracts an error message from an unknown error value.
+ * Handles Error objects, strings, and objects with message properties.
+ *
+ * @param error - The error value to extract a message from
+ * @param fallback - Default message if extraction fails
+ * @returns The extracted error message or fallback
+ * @internal
+ */
+export function getErrorMessage(
+  error: unknown,
+  fallback = 'An unexpected error occurred',
+): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'string') return error;
+  if (error && typeof error === 'object' && 'message' in error) {
+    const message = (error as { message: unknown }).message;
+    if (typeof message === 'string') return message;
+  }
+  return fallback;
+}
@@ -0,0 +1,777 @@
+import type {
+  ApolloServer,
+  BaseContext,
+  ContextFunction,
+} from '@apollo/server';
+import {
+  output,
+  type InvocationContext,
+  type WebPubSubFunctionOptions,
+  type WebPubSubOutput,
+} from '@azure/functions';
+import type { WithRequired } from '@apollo/utils.withrequired';
+import {
+  execute,
+  getOperationAST,
+  GraphQLError,
+  parse,
+  subscribe,
+  type DocumentNode,
+  type ExecutionResult,
+} from 'graphql';
+import {
+  formatErrors,
+  formatExecutionResult,
+  getExecutionOptions,
+  validateDocument,
+  withErrorCode,
+} from './execution';
+import { createServerLoader } from './lazy';
+import { captureSchema, getSchema, type PubSubEngine } from './subscriptions';
+
+/**
+ * The WebSocket subprotocol of graphql-ws.
+ */
+export const GRAPHQL_TRANSPORT_WS_PROTOCOL = 'graphql-transport-ws';
+
+/**
+ * A client connected through Web PubSub.
+ */
+export interface WebPubSubConnection {
+  connectionId: string;
+  userId?: string;
+  /**
+   * The payload of the client's `connection_init` message.
+   */
+  connectionParams?: Record<string, unknown>;
+  /**
+   * Whether the connection has been acknowledged with `connection_ack`.
+   */
+  acknowledged: boolean;
+}
+
+/**
+ * An active subscription of a connected client.
+ */
+export interface WebPubSubSubscription {
+  connectionId: string;
+  /**
+   * The subscription id chosen by the client.
+   */
+  id: string;
+  /**
+   * The pub/sub topics the subscription listens to, as passed to
+   * `pubsub.subscribe()` by its resolvers.
+   */
+  topics: string[];
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+/**
+ * Stores connections and subscriptions between invocations. Each Web PubSub
+ * event may run on a different instance, so use a shared store (e.g. backed
+ * by Table Storage, Cosmos DB or Redis) when the function app scales out.
+ */
+export interface SubscriptionStore {
+  getConnection(connectionId: string): Promise<WebPubSubConnection | undefined>;
+  setConnection(connection: WebPubSubConnection): Promise<void>;
+  /**
+   * Removes a connection and all of its subscriptions.
+   */
+  deleteConnection(connectionId: string): Promise<void>;
+  getSubscription(
+    connectionId: string,
+    id: string,
+  ): Promise<WebPubSubSubscription | undefined>;
+  setSubscription(subscription: WebPubSubSubscription): Promise<void>;
+  deleteSubscription(connectionId: string, id: string): Promise<void>;
+  /**
+   * Returns the subscriptions listening to a topic.
+   */
+  getSubscriptionsByTopic(topic: string): Promise<WebPubSubSubscription[]>;
+}
+
+/**
+ * An in-process {@link SubscriptionStore}. State is lost when the instance
+ * is recycled, which makes it suitable for tests and local development.
+ */
+export class InMemorySubscriptionStore implements SubscriptionStore {
+  private readonly connections = new Map<string, WebPubSubConnection>();
+  private readonly subscriptions = new Map<
+    string,
+    Map<string, WebPubSubSubscription>
+  >();
+
+  async getConnection(
+    connectionId: string,
+  ): Promise<WebPubSubConnection | undefined> {
+    return this.connections.get(connectionId);
+  }
+
+  async setConnection(connection: WebPubSubConnection): Promise<void> {
+    this.connections.set(connection.connectionId, connection);
+  }
+
+  async deleteConnection(connectionId: string): Promise<void> {
+    this.connections.delete(connectionId);
+    this.subscriptions.delete(connectionId);
+  }
+
+  async getSubscription(
+    connectionId: string,
+    id: string,
+  ): Promise<WebPubSubSubscription | undefined> {
+    return this.subscriptions.get(connectionId)?.get(id);
+  }
+
+  async setSubscription(subscription: WebPubSubSubscription): Promise<void> {
+    let byId = this.subscriptions.get(subscription.connectionId);
+    if (!byId) {
+      byId = new Map();
+      this.subscriptions.set(subscription.connectionId, byId);
+    }
+    byId.set(subscription.id, subscription);
+  }
+
+  async deleteSubscription(connectionId: string, id: string): Promise<void> {
+    this.subscriptions.get(connectionId)?.delete(id);
+  }
+
+  async getSubscriptionsByTopic(
+    topic: string,
+  ): Promise<WebPubSubSubscription[]> {
+    return [...this.subscriptions.values()].flatMap((byId) =>
+      [...byId.values()].filter(({ topics }) => topics.includes(topic)),
+    );
+  }
+}
+
+export interface AzureFunctionsWebPubSubContextFunctionArgument {
+  context: InvocationContext;
+  connection: WebPubSubConnection;
+  /**
+   * Publishes events to subscribed clients. In subscription resolvers,
+   * `pubsub.subscribe()` records the topics a subscription listens to.
+   */
+  pubsub: PubSubEngine;
+}
+
+export interface AzureFunctionsWebPubSubOptions<TContext extends BaseContext> {
+  /**
+   * The Web PubSub hub clients connect to.
+   */
+  hub: string;
+  /**
+   * The app setting with the Web PubSub connection string. Defaults to
+   * `WebPubSubConnectionString`.
+   */
+  connection?: string;
+  /**
+   * Creates the context value for operations sent over WebSocket, and for
+   * subscription events delivered to each client.
+   */
+  context?: ContextFunction<
+    [AzureFunctionsWebPubSubContextFunctionArgument],
+    TContext
+  >;
+  /**
+   * Stores connections and subscriptions. Defaults to an
+   * {@link InMemorySubscriptionStore}.
+   */
+  store?: SubscriptionStore;
+  /**
+   * Called with the `connection_init` payload before the connection is
+   * acknowledged. Return `false` to close the connection as forbidden.
+   */
+  onConnect?: (
+    args: Omit<AzureFunctionsWebPubSubContextFunctionArgument, 'pubsub'>,
+  ) => boolean | void | Promise<boolean | void>;
+}
+
+/**
+ * Handlers and bindings that bridge graphql-ws clients connected to Azure
+ * Web PubSub to an Apollo Server.
+ */
+export interface WebPubSubBridge {
+  /**
+   * Function options for `app.webPubSub()` handling `connect` events.
+   */
+  connect: WebPubSubFunctionOptions;
+  /**
+   * Function options for `app.webPubSub()` handling `message` events.
+   */
+  message: WebPubSubFunctionOptions;
+  /**
+   * Function options for `app.webPubSub()` handling `disconnected` events.
+   */
+  disconnected: WebPubSubFunctionOptions;
+  /**
+   * The Web PubSub output binding messages are sent through. Add it to the
+   * `extraOutputs` of every function that publishes events.
+   */
+  output: WebPubSubOutput;
+  /**
+   * Creates a pub/sub engine that sends published events to subscribed
+   * clients through `output` of the given invocation. `subscribe()` and
+   * every `publish()` are forwarded to `next`, if given.
+   */
+  createPubSub(context: InvocationContext, next?: PubSubEngine): PubSubEngine;
+}
+
+/**
+ * A graphql-ws message.
+ * @internal
+ */
+interface ProtocolMessage {
+  type: string;
+  id?: string;
+  payload?: unknown;
+}
+
+/**
+ * An action for the Web PubSub output binding.
+ * @internal
+ */
+type WebPubSubAction =
+  | {
+      actionName: 'sendToConnection';
+      connectionId: string;
+      data: string;
+      dataType: 'text';
+    }
+  | { actionName: 'closeConnection'; connectionId: string; reason: string };
+
+/**
+ * Queues output binding actions, keeping those already set by earlier
+ * calls in the same invocation.
+ * @internal
+ */
+function addActions(
+  context: InvocationContext,
+  binding: WebPubSubOutput,
+  actions: WebPubSubAction[],
+): void {
+  if (actions.length === 0) {
+    return;
+  }
+  const existing = context.extraOutputs.get(binding);
+  context.extraOutputs.set(binding, [
+    ...(Array.isArray(existing) ? existing : existing ? [existing] : []),
+    ...actions,
+  ]);
+}
+
+function send(connectionId: string, message: ProtocolMessage): WebPubSubAction {
+  return {
+    actionName: 'sendToConnection',
+    connectionId,
+    data: JSON.stringify(message),
+    dataType: 'text',
+  };
+}
+
+function close(
+  connectionId: string,
+  code: number,
+  reason: string,
+): WebPubSubAction {
+  return {
+    actionName: 'closeConnection',
+    connectionId,
+    reason: `${code}: ${reason}`,
+  };
+}
+
+/**
+ * Reads the connection context of a Web PubSub event.
+ * @internal
+ */
+function getConnectionContext(context: InvocationContext): {
+  connectionId: string;
+  userId?: string;
+} {
+  const connectionContext = context.triggerMetadata?.connectionContext as
+    | { connectionId?: unknown; userId?: unknown }
+    | undefined;
+  if (typeof connectionContext?.connectionId !== 'string') {
+    throw new Error('Web PubSub event has no connection context');
+  }
+  return {
+    connectionId: connectionContext.connectionId,
+    userId:
+      typeof connectionContext.userId === 'string'
+        ? connectionContext.userId
+        : undefined,
+  };
+}
+
+/**
+ * Parses a graphql-ws message from a Web PubSub message event. The data may
+ * arrive as text, bytes or already-parsed JSON.
+ * @internal
+ */
+function parseMessage(data: unknown): ProtocolMessage | undefined {
+  let payload = data;
+  if (payload instanceof Uint8Array) {
+    payload = Buffer.from(payload).toString('utf8');
+  }
+  if (typeof payload === 'string') {
+    try {
+      payload = JSON.parse(payload);
+    } catch {
+      return undefined;
+    }
+  }
+  if (
+    payload === null ||
+    typeof payload !== 'object' ||
+    typeof (payload as ProtocolMessage).type !== 'string'
+  ) {
+    return undefined;
+  }
+  const message = payload as ProtocolMessage;
+  if (message.id !== undefined && typeof message.id !== 'string') {
+    return undefined;
+  }
+  return message;
+}
+
+/**
+ * Validates the payload of a `subscribe` message.
+ * @internal
+ */
+function parseSubscribePayload(payload: unknown):
+  | {
+      query: string;
+      variables?: Record<string, unknown>;
+      operationName?: string;
+      extensions?: Record<string, unknown>;
+    }
+  | undefined {
+  if (payload === null || typeof payload !== 'object') {
+    return undefined;
+  }
+  const { query, variables, operationName, extensions } = payload as Record<
+    string,
+    unknown
+  >;
+  if (
+    typeof query !== 'string' ||
+    (variables != null && typeof variables !== 'object') ||
+    (operationName != null && typeof operationName !== 'string') ||
+    (extensions != null && typeof extensions !== 'object')
+  ) {
+    return undefined;
+  }
+  return {
+    query,
+    variables: (variables as Record<string, unknown>) ?? undefined,
+    operationName: operationName ?? undefined,
+    extensions: (extensions as Record<string, unknown>) ?? undefined,
+  };
+}
+
+const defaultContext: ContextFunction<
+  [AzureFunctionsWebPubSubContextFunctionArgument],
+  BaseContext
+> = async () => ({});
+
+/**
+ * Creates handlers that serve GraphQL over WebSocket with the graphql-ws
+ * protocol (`graphql-transport-ws`) through Azure Web PubSub.
+ *
+ * Functions can't hold WebSocket connections, so Web PubSub holds them and
+ * delivers `connect`, `message` and `disconnected` events to the function
+ * app. Subscriptions are kept in a {@link SubscriptionStore}: when a client
+ * subscribes, the operation is recorded with the topics its resolvers pass
+ * to `pubsub.subscribe()`. Publishing to a topic later, from any function,
+ * executes the recorded operations with the published payload and sends the
+ * results to the subscribed clients.
+ *
+ * ```typescript
+ * const bridge = startServerAndCreateWebPubSubBridge(server, { hub: 'graphql' });
+ *
+ * app.webPubSub('graphql-connect', bridge.connect);
+ * app.webPubSub('graphql-message', bridge.message);
+ * app.webPubSub('graphql-disconnected', bridge.disconnected);
+ * app.http('graphql', {
+ *   extraOutputs: [bridge.output],
+ *   handler: startServerAndCreateHandler(server, {
+ *     context: async ({ pubsub }) => ({ pubsub }),
+ *     webPubSub: bridge,
+ *   }),
+ * });
+ * ```
+ *
+ * @param server - The Apollo Server instance
+ * @param options - Hub, context function, store and `connection_init` check
+ * @returns The Web PubSub function options and output binding
+ */
+export function startServerAndCreateWebPubSubBridge(
+  server: ApolloServer<BaseContext>,
+  options: AzureFunctionsWebPubSubOptions<BaseContext>,
+): WebPubSubBridge;
+export function startServerAndCreateWebPubSubBridge<
+  TContext extends BaseContext,
+>(
+  server: ApolloServer<TContext>,
+  options: WithRequired<AzureFunctionsWebPubSubOptions<TContext>, 'context'>,
+): WebPubSubBridge;
+export function startServerAndCreateWebPubSubBridge<
+  TContext extends BaseContext,
+>(
+  server: ApolloServer<TContext>,
+  options: AzureFunctionsWebPubSubOptions<TContext>,
+): WebPubSubBridge {
+  const getServer = createServerLoader(server, captureSchema);
+  const store = options.store ?? new InMemorySubscriptionStore();
+  const contextFunction = (options.context ??
+    defaultContext) as ContextFunction<
+    [AzureFunctionsWebPubSubContextFunctionArgument],
+    TContext
+  >;
+  const binding = output.webPubSub({
+    name: 'webPubSubActions',
+    hub: options.hub,
+    connection: options.connection,
+  });
+
+  function createPubSub(
+    context: InvocationContext,
+    next?: PubSubEngine,
+  ): PubSubEngine {
+    const pubsub: PubSubEngine = {
+      async publish(topic, payload) {
+        const [schema, subscriptions] = await Promise.all([
+          getServer().then(getSchema),
+          store.getSubscriptionsByTopic(topic),
+        ]);
+        const actions = await Promise.all(
+          subscriptions.map(async (subscription) => {
+            const connection = await store.getConnection(
+              subscription.connectionId,
+            );
+            if (!connection) {
+              return undefined;
+            }
+            // Resolve the event as graphql-js does for each event of a
+            // subscription: execute the operation with the event as root.
+            const result = await execute({
+              schema,
+              document: parse(subscription.query),
+              rootValue: payload,
+              contextValue: await contextFunction({
+                context,
+                connection,
+                pubsub,
+              }),
+              variableValues: subscription.variables,
+              operationName: subscription.operationName,
+            });
+            return send(connection.connectionId, {
+              type: 'next',
+              id: subscription.id,
+              payload: formatExecutionResult(
+                result,
+                getExecutionOptions(server),
+              ),
+            });
+          }),
+        );
+        addActions(
+          context,
+          binding,
+          actions.filter((action) => action !== undefined),
+        );
+        await next?.publish(topic, payload);
+      },
+      subscribe(topics) {
+        if (!next) {
+          throw new Error(
+            'Subscriptions over Web PubSub must be started with a `subscribe` message',
+          );
+        }
+        return next.subscribe(topics);
+      },
+    };
+    return pubsub;
+  }
+
+  /**
+   * A pub/sub engine for resolving `subscribe` messages, recording the
+   * topics the subscription resolvers subscribe to.
+   */
+  function createRecordingPubSub(
+    context: InvocationContext,
+    topics: Set<string>,
+  ): PubSubEngine {
+    const pubsub = createPubSub(context);
+    return {
+      publish: pubsub.publish,
+      subscribe<T>(names: string | readonly string[]) {
+        for (const name of typeof names === 'string' ? [names] : names) {
+          topics.add(name);
+        }
+        // Events are delivered by publish(), never through this iterator.
+        const done = async (): Promise<IteratorResult<T>> => ({
+          value: undefined,
+          done: true,
+        });
+        return {
+          next: done,
+          return: done,
+          [Symbol.asyncIterator]() {
+            return this;
+          },
+        };
+      },
+    };
+  }
+
+  async function handleSubscribe(
+    context: InvocationContext,
+    connection: WebPubSubConnection,
+    id: string,
+    payload: NonNullable<ReturnType<typeof parseSubscribePayload>>,
+  ): Promise<WebPubSubAction[]> {
+    const { connectionId } = connection;
+    const schema = await getSchema(await getServer());
+    const executionOptions = getExecutionOptions(server);
+    const error = (errors: ReadonlyArray<unknown>) => [
+      send(connectionId, {
+        type: 'error',
+        id,
+        payload: formatErrors(errors, executionOptions),
+      }),
+    ];
+
+    let document: DocumentNode;
+    try {
+      document = parse(payload.query);
+    } catch (e) {
+      return error([
+        e instanceof GraphQLError
+          ? withErrorCode(e, 'GRAPHQL_PARSE_FAILED')
+          : e,
+      ]);
+    }
+    const operation = getOperationAST(document, payload.operationName);
+
+    if (operation?.operation !== 'subscription') {
+      const pubsub = createPubSub(context);
+      const response = await server.executeOperation(payload, {
+        contextValue: await contextFunction({ context, connection, pubsub }),
+      });
+      const results =
+        response.body.kind === 'single'
+          ? [response.body.singleResult]
+          : [response.body.initialResult];
+      if (response.body.kind === 'incremental') {
+        for await (const result of response.body.subsequentResults) {
+          results.push(result);
+        }
+      }
+      return [
+        ...results.map((result) =>
+          send(connectionId, { type: 'next', id, payload: result }),
+        ),
+        send(connectionId, { type: 'complete', id }),
+      ];
+    }
+
+    const validationErrors = validateDocument(
+      schema,
+      document,
+      executionOptions,
+    );
+    if (validationErrors.length > 0) {
+      return error(validationErrors);
+    }
+
+    const topics = new Set<string>();
+    const result = await subscribe({
+      schema,
+      document,
+      contextValue: await contextFunction({
+        context,
+        connection,
+        pubsub: createRecordingPubSub(context, topics),
+      }),
+      variableValues: payload.variables,
+      operationName: payload.operationName,
+    });
+    if (!(Symbol.asyncIterator in result)) {
+      return error(result.errors ?? []);
+    }
+    await (result as AsyncGenerator<ExecutionResult>).return(undefined);
+
+    if (topics.size === 0) {
+      return error([
+        new GraphQLError(
+          'Subscriptions over Web PubSub must subscribe with `pubsub.subscribe()`',
+        ),
+      ]);
+    }
+    await store.setSubscription({
+      connectionId,
+      id,
+      topics: [...topics],
+      query: payload.query,
+      variables: payload.variables,
+      operationName: payload.operationName,
+    });
+    return [];
+  }
+
+  async function handleMessage(
+    data: unknown,
+    context: InvocationContext,
+  ): Promise<WebPubSubAction[]> {
+    const { connectionId, userId } = getConnectionContext(context);
+    const message = parseMessage(context.triggerMetadata?.data ?? data);
+    if (!message) {
+      return [close(connectionId, 4400, 'Invalid message received')];
+    }
+
+    const connection = (await store.getConnection(connectionId)) ?? {
+      connectionId,
+      userId,
+      acknowledged: false,
+    };
+
+    switch (message.type) {
+      case 'connection_init': {
+        if (connection.acknowledged) {
+          return [
+            close(connectionId, 4429, 'Too many initialisation requests'),
+          ];
+        }
+        if (
+          message.payload != null &&
+          (typeof message.payload !== 'object' ||
+            Array.isArray(message.payload))
+        ) {
+          return [close(connectionId, 4400, 'Invalid message received')];
+        }
+        const initialized = {
+          ...connection,
+          connectionParams: message.payload as
+            | Record<string, unknown>
+            | undefined,
+        };
+        if (
+          (await options.onConnect?.({ context, connection: initialized })) ===
+          false
+        ) {
+          return [close(connectionId, 4403, 'Forbidden')];
+        }
+        await store.setConnection({ ...initialized, acknowledged: true });
+        return [send(connectionId, { type: 'connection_ack' })];
+      }
+      case 'ping':
+        return [send(connectionId, { type: 'pong' })];
+      case 'pong':
+        return [];
+      case 'subscribe': {
+        if (!connection.acknowledged) {
+          return [close(connectionId, 4401, 'Unauthorized')];
+        }
+        const payload = parseSubscribePayload(message.payload);
+        if (!message.id || !payload) {
+          return [close(connectionId, 4400, 'Invalid message received')];
+        }
+        if (await store.getSubscription(connectionId, message.id)) {
+          return [
+            close(
+              connectionId,
+              4409,
+              `Subscriber for ${message.id} already exists`,
+            ),
+          ];
+        }
+        return handleSubscribe(context, connection, message.id, payload);
+      }
+      case 'complete':
+        if (message.id) {
+          await store.deleteSubscription(connectionId, message.id);
+        }
+        return [];
+      default:
+        return [close(connectionId, 4400, 'Invalid message received')];
+    }
+  }
+
+  return {
+    connect: {
+      name: 'request',
+      hub: options.hub,
+      eventType: 'system',
+      eventName: 'connect',
+      connection: options.connection,
+      handler: async (request, context) => {
+        const { connectionId, userId } = getConnectionContext(context);
+        const subprotocols = (context.triggerMetadata?.subprotocols ??
+          (request as { subprotocols?: unknown } | undefined)?.subprotocols) as
+          | string[]
+          | undefined;
+        if (
+          subprotocols?.length &&
+          !subprotocols.includes(GRAPHQL_TRANSPORT_WS_PROTOCOL)
+        ) {
+          return {
+            code: 'userError',
+            errorMessage: `Subprotocol ${GRAPHQL_TRANSPORT_WS_PROTOCOL} is required`,
+          };
+        }
+        await store.setConnection({
+          connectionId,
+          userId,
+          acknowledged: false,
+        });
+        return subprotocols?.length
+          ? { subprotocol: GRAPHQL_TRANSPORT_WS_PROTOCOL }
+          : {};
+      },
+    },
+    message: {
+      name: 'request',
+      hub: options.hub,
+      eventType: 'user',
+      eventName: 'message',
+      connection: options.connection,
+      extraOutputs: [binding],
+      handler: async (data, context) => {
+        try {
+          const actions = await handleMessage(data, context);
+          if (
+            actions.some(({ actionName }) => actionName === 'closeConnection')
+          ) {
+            await store.deleteConnection(
+              getConnectionContext(context).connectionId,
+            );
+          }
+          addActions(context, binding, actions);
+        } catch (e) {
+          context.error('Failure processing GraphQL WebSocket message', e);
+          throw e;
+        }
+      },
+    },
+    disconnected: {
+      name: 'request',
+      hub: options.hub,
+      eventType: 'system',
+      eventName: 'disconnected',
+      connection: options.connection,
+      handler: async (_, context) => {
+        await store.deleteConnection(
+          getConnectionContext(context).connectionId,
+        );
+      },
+    },
+    output: binding,
+    createPubSub,
+  };
+}